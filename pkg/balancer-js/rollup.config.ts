@@ -12,6 +12,9 @@ const external = [
   '@ethersproject/bytes',
   '@ethersproject/constants',
   '@ethersproject/contracts',
+  '@ethersproject/hash',
+  '@ethersproject/keccak256',
+  '@ethersproject/transactions',
 ];
 
 export default [
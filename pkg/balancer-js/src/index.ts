@@ -1,5 +1,11 @@
+export * from './liquidity-mining';
+export * from './math';
+export * from './pool-linear';
 export * from './pool-stable';
 export * from './pool-weighted';
+export * from './pricing';
+export * from './relayer';
+export * from './routing';
 export * from './pool-utils';
 export * from './utils';
 export * from './types';
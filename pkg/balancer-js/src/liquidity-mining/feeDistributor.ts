@@ -0,0 +1,382 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { Zero } from '@ethersproject/constants';
+import invariant from 'tiny-invariant';
+import { IntegerMath } from '../math/math';
+import { VotingEscrowCalculator, VotingEscrowPoint } from './votingEscrow';
+
+export type FeeDistributorState = {
+  // The start time the FeeDistributor was deployed with
+  startTime: BigNumberish;
+  // As returned by `getTimeCursor()`
+  timeCursor: BigNumberish;
+  // The veBAL total supply at the start of each week, keyed by timestamp: `getTotalSupplyAtTimestamp(week)` for weeks
+  // before `timeCursor`, and `VotingEscrow.totalSupply(week)` for later ones. Only the weeks being claimed are
+  // required.
+  totalSupplyAtTimestamp: Record<number, BigNumberish>;
+};
+
+export type FeeDistributorUserState = {
+  // As returned by `getUserTimeCursor(user)`
+  timeCursor: BigNumberish;
+  // The user's entries of `user_point_history` in VotingEscrow, in order of epoch and excluding the empty entry at
+  // epoch zero
+  userPointHistory: VotingEscrowPoint[];
+};
+
+export type FeeDistributorTokenState = {
+  token: string;
+  // As returned by `getTokenTimeCursor(token)`
+  timeCursor: BigNumberish;
+  // As returned by `getTokenLastBalance(token)`
+  lastBalance: BigNumberish;
+  // The FeeDistributor's current balance of the token
+  balance: BigNumberish;
+  // As returned by `getUserTokenTimeCursor(user, token)`
+  userTimeCursor: BigNumberish;
+  // `getTokensDistributedInWeek(token, week)`, keyed by timestamp, for each week from `userTimeCursor`
+  tokensDistributedInWeek: Record<number, BigNumberish>;
+};
+
+export enum UnclaimableWeekReason {
+  // The user has never locked veBAL
+  NoLock = 'NoLock',
+  // Weeks can only be claimed once they are over, as both their fees and the user's share of them may still change
+  WeekNotOver = 'WeekNotOver',
+}
+
+export type ClaimEstimate = {
+  token: string;
+  // The amounts transferred by successive calls to `claimToken` or `claimTokens` at the same timestamp. Each call
+  // only processes a limited number of weeks, so users who haven't claimed in a while may require several.
+  amounts: BigNumber[];
+  totalAmount: BigNumber;
+  // The start of the first week which remains unclaimable after all calls
+  firstUnclaimableWeek: BigNumber;
+  unclaimableReason: UnclaimableWeekReason;
+};
+
+// These match the iteration limits in `FeeDistributor`.
+const MAX_SUPPLY_CHECKPOINT_WEEKS = 20;
+const MAX_USER_CHECKPOINT_ITERATIONS = 50;
+const MAX_USER_EPOCHS_WITHOUT_SEARCH = 20;
+const MAX_TOKEN_CHECKPOINT_WEEKS = 20;
+const MAX_CLAIM_WEEKS = 20;
+
+const { WEEK } = VotingEscrowCalculator;
+const DAY = 86400;
+
+type SimulatedUserState = {
+  timeCursor: BigNumber;
+  startTime: BigNumber;
+  lastEpochCheckpointed: number;
+};
+
+type SimulatedTokenState = {
+  timeCursor: BigNumber;
+  startTime: BigNumber;
+  cachedBalance: BigNumber;
+  balance: BigNumber;
+  tokensPerWeek: Record<number, BigNumber>;
+  userTimeCursor: BigNumber;
+};
+
+/**
+ * Estimates the fees veBAL holders can claim from `FeeDistributor`, without simulating a transaction. This reproduces
+ * the checkpoints `claimToken` and `claimTokens` perform (of the veBAL total supply, the user's veBAL balance and the
+ * token's fees) including their iteration limits, and therefore computes the exact amounts they transfer.
+ *
+ * The only value which cannot be read from the contract is the last user epoch it processed, which is assumed to be
+ * the one in effect at the user's time cursor. This holds unless the user's last checkpoint hit the iteration limit.
+ */
+export class FeeDistributorCalculator {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Estimates the amounts of each token `claimTokens(user, tokens)` would transfer if mined at `timestamp`, along with
+   * those of any further calls required to claim all fees for past weeks.
+   * @param distributor - the global state of the FeeDistributor
+   * @param user - the state of the user claiming
+   * @param tokens - the state of each token being claimed
+   * @param timestamp - the timestamp of the block the claims are mined in
+   */
+  static estimateClaims = (
+    distributor: FeeDistributorState,
+    user: FeeDistributorUserState,
+    tokens: FeeDistributorTokenState[],
+    timestamp: BigNumberish
+  ): ClaimEstimate[] => {
+    const now = BigNumber.from(timestamp);
+    const startTime = VotingEscrowCalculator.roundDownToWeek(distributor.startTime);
+    const userPoints = user.userPointHistory;
+
+    let globalTimeCursor = BigNumber.from(distributor.timeCursor);
+    const userState: SimulatedUserState = {
+      timeCursor: BigNumber.from(user.timeCursor),
+      startTime: Zero,
+      lastEpochCheckpointed: FeeDistributorCalculator._findTimestampUserEpoch(
+        userPoints,
+        user.timeCursor,
+        0,
+        userPoints.length
+      ),
+    };
+    const tokenStates: SimulatedTokenState[] = tokens.map((token) => ({
+      timeCursor: BigNumber.from(token.timeCursor),
+      startTime: Zero,
+      cachedBalance: BigNumber.from(token.lastBalance),
+      balance: BigNumber.from(token.balance),
+      tokensPerWeek: Object.fromEntries(
+        Object.entries(token.tokensDistributedInWeek).map(([week, amount]) => [week, BigNumber.from(amount)])
+      ),
+      userTimeCursor: BigNumber.from(token.userTimeCursor),
+    }));
+
+    const isFirstUserCheckpoint = userState.timeCursor.isZero();
+    const firstTokenCheckpoints = tokenStates.map((token) => token.timeCursor.isZero());
+    const amounts: BigNumber[][] = tokens.map(() => []);
+
+    // Each claim is simulated until a claim makes no further progress.
+    for (let claim = 0; ; claim++) {
+      const cursorsBefore = [globalTimeCursor, userState.timeCursor, ...tokenStates.map((t) => t.userTimeCursor)];
+
+      globalTimeCursor = FeeDistributorCalculator._checkpointTotalSupply(globalTimeCursor, now);
+      FeeDistributorCalculator._checkpointUserBalance(userState, userPoints, startTime, now);
+
+      tokenStates.forEach((token, i) => {
+        FeeDistributorCalculator._checkpointToken(token, startTime, now);
+
+        // Users who never interacted with a token start from when they first locked or it was first checkpointed.
+        if (claim === 0 && (isFirstUserCheckpoint || firstTokenCheckpoints[i])) {
+          token.userTimeCursor = IntegerMath.max(
+            token.userTimeCursor,
+            IntegerMath.max(userState.startTime, token.startTime)
+          );
+        }
+
+        amounts[i].push(
+          FeeDistributorCalculator._claimToken(token, distributor, globalTimeCursor, userState.timeCursor, userPoints)
+        );
+      });
+
+      const cursorsAfter = [globalTimeCursor, userState.timeCursor, ...tokenStates.map((t) => t.userTimeCursor)];
+      if (claim > 0 && cursorsAfter.every((cursor, i) => cursor.eq(cursorsBefore[i]))) {
+        // The last claim made no progress, so it is not required.
+        amounts.forEach((tokenAmounts) => tokenAmounts.pop());
+        break;
+      }
+    }
+
+    return tokens.map(({ token }, i) => ({
+      token,
+      amounts: amounts[i],
+      totalAmount: amounts[i].reduce((total, amount) => total.add(amount), Zero),
+      firstUnclaimableWeek: tokenStates[i].userTimeCursor,
+      unclaimableReason: userPoints.length === 0 ? UnclaimableWeekReason.NoLock : UnclaimableWeekReason.WeekNotOver,
+    }));
+  };
+
+  // Port of `_checkpointTotalSupply`: only the time cursor is tracked, as supplies are provided for every week.
+  private static _checkpointTotalSupply = (timeCursor: BigNumber, now: BigNumber): BigNumber => {
+    const weekStart = VotingEscrowCalculator.roundDownToWeek(now);
+    if (timeCursor.gt(weekStart) || weekStart.eq(now)) return timeCursor;
+
+    let nextWeekToCheckpoint = timeCursor;
+    for (let i = 0; i < MAX_SUPPLY_CHECKPOINT_WEEKS; i++) {
+      if (nextWeekToCheckpoint.gt(weekStart)) break;
+      nextWeekToCheckpoint = nextWeekToCheckpoint.add(WEEK);
+    }
+    return nextWeekToCheckpoint;
+  };
+
+  // Port of `_checkpointUserBalance`: balances are not cached, as they are computed from the user's points when
+  // claiming.
+  private static _checkpointUserBalance = (
+    user: SimulatedUserState,
+    userPoints: VotingEscrowPoint[],
+    startTime: BigNumber,
+    now: BigNumber
+  ): void => {
+    const maxUserEpoch = userPoints.length;
+    if (maxUserEpoch === 0) return;
+
+    let nextWeekToCheckpoint = user.timeCursor;
+    let userEpoch: number;
+    if (nextWeekToCheckpoint.isZero()) {
+      userEpoch = FeeDistributorCalculator._findTimestampUserEpoch(userPoints, startTime, 0, maxUserEpoch);
+    } else {
+      if (nextWeekToCheckpoint.gte(now)) return;
+
+      userEpoch = user.lastEpochCheckpointed;
+      if (maxUserEpoch - userEpoch > MAX_USER_EPOCHS_WITHOUT_SEARCH) {
+        userEpoch = FeeDistributorCalculator._findTimestampUserEpoch(
+          userPoints,
+          nextWeekToCheckpoint,
+          userEpoch,
+          maxUserEpoch
+        );
+      }
+    }
+
+    // Epoch 0 is always empty so bump onto the next one so that we start on a valid epoch.
+    if (userEpoch === 0) userEpoch = 1;
+
+    const pointAt = (epoch: number): VotingEscrowPoint =>
+      epoch > maxUserEpoch ? { bias: 0, slope: 0, ts: 0 } : userPoints[epoch - 1];
+    let nextUserPoint = pointAt(userEpoch);
+
+    if (nextWeekToCheckpoint.isZero()) {
+      invariant(now.gt(startTime), 'Fee distribution has not started yet');
+      nextWeekToCheckpoint = IntegerMath.max(startTime, FeeDistributorCalculator._roundUpTimestamp(nextUserPoint.ts));
+      user.startTime = nextWeekToCheckpoint;
+    }
+
+    let currentUserPoint: VotingEscrowPoint = { bias: 0, slope: 0, ts: 0 };
+    for (let i = 0; i < MAX_USER_CHECKPOINT_ITERATIONS; i++) {
+      if (nextWeekToCheckpoint.gte(nextUserPoint.ts) && userEpoch <= maxUserEpoch) {
+        userEpoch += 1;
+        currentUserPoint = nextUserPoint;
+        nextUserPoint = pointAt(userEpoch);
+      } else {
+        if (nextWeekToCheckpoint.gte(now)) break;
+
+        const dt = nextWeekToCheckpoint.sub(currentUserPoint.ts);
+        const decay = BigNumber.from(currentUserPoint.slope).mul(dt);
+        const userBalance = BigNumber.from(currentUserPoint.bias).gt(decay)
+          ? BigNumber.from(currentUserPoint.bias).sub(decay)
+          : Zero;
+
+        // The user's lock has expired and they haven't relocked yet.
+        if (userBalance.isZero() && userEpoch > maxUserEpoch) {
+          nextWeekToCheckpoint = FeeDistributorCalculator._roundUpTimestamp(now);
+          break;
+        }
+
+        nextWeekToCheckpoint = nextWeekToCheckpoint.add(WEEK);
+      }
+    }
+
+    user.lastEpochCheckpointed = userEpoch - 1;
+    user.timeCursor = nextWeekToCheckpoint;
+  };
+
+  // Port of `_checkpointToken` (not forced), distributing new tokens across the weeks since the last checkpoint.
+  private static _checkpointToken = (token: SimulatedTokenState, startTime: BigNumber, now: BigNumber): void => {
+    let lastTokenTime = token.timeCursor;
+    let timeSinceLastCheckpoint = Zero;
+    if (lastTokenTime.isZero()) {
+      lastTokenTime = now;
+      token.startTime = VotingEscrowCalculator.roundDownToWeek(now);
+      invariant(now.gt(startTime), 'Fee distribution has not started yet');
+    } else {
+      timeSinceLastCheckpoint = now.sub(lastTokenTime);
+
+      const alreadyCheckpointedThisWeek = VotingEscrowCalculator.roundDownToWeek(now).eq(
+        VotingEscrowCalculator.roundDownToWeek(lastTokenTime)
+      );
+      const nearingEndOfWeek = FeeDistributorCalculator._roundUpTimestamp(now).sub(now).lt(DAY);
+      if (alreadyCheckpointedThisWeek && !nearingEndOfWeek) return;
+    }
+
+    token.timeCursor = now;
+
+    const newTokensToDistribute = IntegerMath.sub(token.balance, token.cachedBalance);
+    if (newTokensToDistribute.isZero()) return;
+    token.cachedBalance = token.balance;
+
+    const distribute = (week: BigNumber, amount: BigNumber): void => {
+      token.tokensPerWeek[week.toNumber()] = (token.tokensPerWeek[week.toNumber()] ?? Zero).add(amount);
+    };
+
+    let firstIncompleteWeek = VotingEscrowCalculator.roundDownToWeek(lastTokenTime);
+    for (let i = 0; i < MAX_TOKEN_CHECKPOINT_WEEKS; i++) {
+      const nextWeek = firstIncompleteWeek.add(WEEK);
+      if (now.lt(nextWeek)) {
+        if (timeSinceLastCheckpoint.isZero() && now.eq(lastTokenTime)) {
+          distribute(firstIncompleteWeek, newTokensToDistribute);
+        } else {
+          distribute(
+            firstIncompleteWeek,
+            newTokensToDistribute.mul(now.sub(lastTokenTime)).div(timeSinceLastCheckpoint)
+          );
+        }
+        break;
+      } else {
+        if (timeSinceLastCheckpoint.isZero() && nextWeek.eq(lastTokenTime)) {
+          distribute(firstIncompleteWeek, newTokensToDistribute);
+        } else {
+          distribute(
+            firstIncompleteWeek,
+            newTokensToDistribute.mul(nextWeek.sub(lastTokenTime)).div(timeSinceLastCheckpoint)
+          );
+        }
+      }
+
+      lastTokenTime = nextWeek;
+      firstIncompleteWeek = nextWeek;
+    }
+  };
+
+  // Port of `_claimToken`, returning the amount transferred.
+  private static _claimToken = (
+    token: SimulatedTokenState,
+    distributor: FeeDistributorState,
+    globalTimeCursor: BigNumber,
+    userTimeCursor: BigNumber,
+    userPoints: VotingEscrowPoint[]
+  ): BigNumber => {
+    const firstUnclaimableWeek = IntegerMath.min(
+      FeeDistributorCalculator._roundUpTimestamp(IntegerMath.min(globalTimeCursor, userTimeCursor)),
+      VotingEscrowCalculator.roundDownToWeek(token.timeCursor)
+    );
+
+    let nextUserTokenWeekToClaim = token.userTimeCursor;
+    let amount = Zero;
+    for (let i = 0; i < MAX_CLAIM_WEEKS; i++) {
+      if (nextUserTokenWeekToClaim.gte(firstUnclaimableWeek)) break;
+
+      const week = nextUserTokenWeekToClaim.toNumber();
+      const tokensInWeek = token.tokensPerWeek[week] ?? Zero;
+      const totalSupply = distributor.totalSupplyAtTimestamp[week];
+      invariant(totalSupply !== undefined, `Missing veBAL total supply for week ${week}`);
+
+      // Balances are cached from the same points, so they match `getUserBalanceAtTimestamp`.
+      const userBalance = VotingEscrowCalculator.getUserBalanceAt(userPoints, week);
+      amount = amount.add(tokensInWeek.mul(userBalance).div(totalSupply));
+      nextUserTokenWeekToClaim = nextUserTokenWeekToClaim.add(WEEK);
+    }
+    token.userTimeCursor = nextUserTokenWeekToClaim;
+
+    token.cachedBalance = token.cachedBalance.sub(amount);
+    token.balance = token.balance.sub(amount);
+    return amount;
+  };
+
+  // Port of `_findTimestampUserEpoch`: returns the latest epoch in [minEpoch, maxEpoch] starting at or before
+  // `timestamp`, where epochs are 1-based indexes into `userPoints`.
+  private static _findTimestampUserEpoch = (
+    userPoints: VotingEscrowPoint[],
+    timestamp: BigNumberish,
+    minEpoch: number,
+    maxEpoch: number
+  ): number => {
+    let min = minEpoch;
+    let max = maxEpoch;
+    while (min < max) {
+      const mid = Math.floor((min + max + 2) / 2);
+      if (BigNumber.from(userPoints[mid - 1].ts).lte(timestamp)) {
+        min = mid;
+      } else {
+        max = mid - 1;
+      }
+    }
+    return min;
+  };
+
+  private static _roundUpTimestamp = (timestamp: BigNumberish): BigNumber =>
+    VotingEscrowCalculator.roundDownToWeek(BigNumber.from(timestamp).add(WEEK - 1));
+}
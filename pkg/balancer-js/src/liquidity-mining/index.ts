@@ -0,0 +1,2 @@
+export * from './votingEscrow';
+export * from './feeDistributor';
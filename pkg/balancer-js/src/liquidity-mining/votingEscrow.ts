@@ -0,0 +1,338 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { Zero } from '@ethersproject/constants';
+import invariant from 'tiny-invariant';
+
+export type VotingEscrowPoint = {
+  bias: BigNumberish;
+  // The rate at which the bias decreases, per second
+  slope: BigNumberish;
+  ts: BigNumberish;
+};
+
+// As returned by `locked(user)`
+export type LockedBalance = {
+  amount: BigNumberish;
+  end: BigNumberish;
+};
+
+export type VotingEscrowState = {
+  // Entries of `point_history`, in order of epoch and excluding the empty entry at epoch zero. Only entries from the
+  // latest one before the earliest timestamp of interest are required: simulating actions only requires the last one.
+  pointHistory: VotingEscrowPoint[];
+  // Values of `slope_changes`, keyed by timestamp. Only changes after the first entry of `pointHistory` are required.
+  slopeChanges: Record<number, BigNumberish>;
+};
+
+export type VotingEscrowUpdate = {
+  state: VotingEscrowState;
+  locked: LockedBalance;
+  // The entry the action adds to the user's `user_point_history`
+  userPoint: VotingEscrowPoint;
+};
+
+export type TotalSupplyPrediction = {
+  timestamp: BigNumber;
+  totalSupply: BigNumber;
+};
+
+// These match the constants in `VotingEscrow`.
+const WEEK = 7 * 86400;
+const MAXTIME = 365 * 86400;
+
+// The maximum number of weeks `VotingEscrow` iterates over when checkpointing and computing the total supply.
+const MAX_ITERATIONS = 255;
+
+/**
+ * Reproduces the voting power accounting of `VotingEscrow` (veBAL): locked balances decay linearly until the end of
+ * the lock, which is always at the start of a week. The total supply is tracked in checkpoints (`point_history`),
+ * with the slope changes caused by expiring locks scheduled at the start of each week (`slope_changes`).
+ *
+ * All values are computed with the same integer math as the contract, so they match `balanceOf(user, t)` and
+ * `totalSupply(t)` exactly. Simulated actions are rejected with the revert reasons of the contract, except for
+ * zero value deposits: the contract reverts with an empty reason for those (`need non-zero value` is only a dev
+ * comment), which is used here instead.
+ */
+export class VotingEscrowCalculator {
+  static WEEK = WEEK;
+  static MAXTIME = MAXTIME;
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Rounds a timestamp down to the start of its week, as lock ends are.
+   */
+  static roundDownToWeek = (timestamp: BigNumberish): BigNumber => BigNumber.from(timestamp).div(WEEK).mul(WEEK);
+
+  /**
+   * Returns the latest unlock time a lock created or extended at `timestamp` may have.
+   */
+  static getMaxUnlockTime = (timestamp: BigNumberish): BigNumber =>
+    VotingEscrowCalculator.roundDownToWeek(BigNumber.from(timestamp).add(MAXTIME));
+
+  /**
+   * Returns the voting power of a lock at `timestamp`, which is the same regardless of when the lock was last
+   * checkpointed.
+   * @param locked - the user's lock, as returned by `locked(user)`
+   * @param timestamp - the time at which to compute the voting power
+   */
+  static getLockBalanceAt = (locked: LockedBalance, timestamp: BigNumberish): BigNumber => {
+    const { bias } = VotingEscrowCalculator._getUserPoint(locked, timestamp);
+    return bias;
+  };
+
+  /**
+   * Returns the voting power of a user at `timestamp`, matching `balanceOf(user, timestamp)`.
+   * @param userPointHistory - the user's entries of `user_point_history`, in order of epoch and excluding the empty
+   * entry at epoch zero
+   * @param timestamp - the time at which to compute the voting power
+   */
+  static getUserBalanceAt = (userPointHistory: VotingEscrowPoint[], timestamp: BigNumberish): BigNumber => {
+    const point = VotingEscrowCalculator._findPoint(userPointHistory, timestamp);
+    if (point === undefined) return Zero;
+
+    const bias = BigNumber.from(point.bias).sub(
+      BigNumber.from(point.slope).mul(BigNumber.from(timestamp).sub(point.ts))
+    );
+    return bias.lt(0) ? Zero : bias;
+  };
+
+  /**
+   * Returns the total voting power at `timestamp`, matching `totalSupply(timestamp)`. Timestamps after the last
+   * checkpoint return the supply predicted from the scheduled slope changes, assuming no further actions are taken.
+   * @param state - the global state of the contract
+   * @param timestamp - the time at which to compute the total supply
+   */
+  static getTotalSupplyAt = (state: VotingEscrowState, timestamp: BigNumberish): BigNumber => {
+    const point = VotingEscrowCalculator._findPoint(state.pointHistory, timestamp);
+    if (point === undefined) return Zero;
+
+    const t = BigNumber.from(timestamp);
+    let bias = BigNumber.from(point.bias);
+    let slope = BigNumber.from(point.slope);
+    let lastTimestamp = BigNumber.from(point.ts);
+
+    let weekTimestamp = VotingEscrowCalculator.roundDownToWeek(lastTimestamp);
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      weekTimestamp = weekTimestamp.add(WEEK);
+      let slopeChange = Zero;
+      if (weekTimestamp.gt(t)) {
+        weekTimestamp = t;
+      } else {
+        slopeChange = VotingEscrowCalculator._getSlopeChange(state, weekTimestamp);
+      }
+
+      bias = bias.sub(slope.mul(weekTimestamp.sub(lastTimestamp)));
+      if (weekTimestamp.eq(t)) break;
+      slope = slope.add(slopeChange);
+      lastTimestamp = weekTimestamp;
+    }
+
+    return bias.lt(0) ? Zero : bias;
+  };
+
+  /**
+   * Predicts the total supply at the start of each of the `weeks` weeks after `timestamp`, assuming no further actions
+   * are taken. These are the values `FeeDistributor` checkpoints.
+   * @param state - the global state of the contract
+   * @param timestamp - the time from which to predict the total supply
+   * @param weeks - the number of weeks to predict
+   */
+  static predictTotalSupply = (
+    state: VotingEscrowState,
+    timestamp: BigNumberish,
+    weeks: number
+  ): TotalSupplyPrediction[] => {
+    const firstWeek = VotingEscrowCalculator.roundDownToWeek(timestamp).add(WEEK);
+    return Array.from({ length: weeks }, (_, i) => {
+      const weekTimestamp = firstWeek.add(i * WEEK);
+      return { timestamp: weekTimestamp, totalSupply: VotingEscrowCalculator.getTotalSupplyAt(state, weekTimestamp) };
+    });
+  };
+
+  /**
+   * Simulates a call to `create_lock(value, unlockTime)` mined at `timestamp`.
+   * @param state - the global state of the contract
+   * @param locked - the user's lock, as returned by `locked(user)`
+   * @param value - the amount of tokens to lock
+   * @param unlockTime - the requested unlock time, which is rounded down to the start of its week
+   * @param timestamp - the timestamp of the block the call is mined in
+   */
+  static createLock = (
+    state: VotingEscrowState,
+    locked: LockedBalance,
+    value: BigNumberish,
+    unlockTime: BigNumberish,
+    timestamp: BigNumberish
+  ): VotingEscrowUpdate => {
+    const roundedUnlockTime = VotingEscrowCalculator.roundDownToWeek(unlockTime);
+
+    invariant(BigNumber.from(value).gt(0), 'need non-zero value');
+    invariant(BigNumber.from(locked.amount).isZero(), 'Withdraw old tokens first');
+    invariant(roundedUnlockTime.gt(timestamp), 'Can only lock until time in the future');
+    invariant(roundedUnlockTime.lte(BigNumber.from(timestamp).add(MAXTIME)), 'Voting lock can be 1 year max');
+
+    return VotingEscrowCalculator._depositFor(state, locked, value, roundedUnlockTime, timestamp);
+  };
+
+  /**
+   * Simulates a call to `increase_amount(value)` mined at `timestamp`.
+   * @param state - the global state of the contract
+   * @param locked - the user's lock, as returned by `locked(user)`
+   * @param value - the amount of tokens to add to the lock
+   * @param timestamp - the timestamp of the block the call is mined in
+   */
+  static increaseAmount = (
+    state: VotingEscrowState,
+    locked: LockedBalance,
+    value: BigNumberish,
+    timestamp: BigNumberish
+  ): VotingEscrowUpdate => {
+    invariant(BigNumber.from(value).gt(0), 'need non-zero value');
+    invariant(BigNumber.from(locked.amount).gt(0), 'No existing lock found');
+    invariant(BigNumber.from(locked.end).gt(timestamp), 'Cannot add to expired lock. Withdraw');
+
+    return VotingEscrowCalculator._depositFor(state, locked, value, Zero, timestamp);
+  };
+
+  /**
+   * Simulates a call to `increase_unlock_time(unlockTime)` mined at `timestamp`.
+   * @param state - the global state of the contract
+   * @param locked - the user's lock, as returned by `locked(user)`
+   * @param unlockTime - the requested unlock time, which is rounded down to the start of its week
+   * @param timestamp - the timestamp of the block the call is mined in
+   */
+  static increaseUnlockTime = (
+    state: VotingEscrowState,
+    locked: LockedBalance,
+    unlockTime: BigNumberish,
+    timestamp: BigNumberish
+  ): VotingEscrowUpdate => {
+    const roundedUnlockTime = VotingEscrowCalculator.roundDownToWeek(unlockTime);
+
+    invariant(BigNumber.from(locked.end).gt(timestamp), 'Lock expired');
+    invariant(BigNumber.from(locked.amount).gt(0), 'Nothing is locked');
+    invariant(roundedUnlockTime.gt(locked.end), 'Can only increase lock duration');
+    invariant(roundedUnlockTime.lte(BigNumber.from(timestamp).add(MAXTIME)), 'Voting lock can be 1 year max');
+
+    return VotingEscrowCalculator._depositFor(state, locked, Zero, roundedUnlockTime, timestamp);
+  };
+
+  private static _depositFor = (
+    state: VotingEscrowState,
+    locked: LockedBalance,
+    value: BigNumberish,
+    unlockTime: BigNumber,
+    timestamp: BigNumberish
+  ): VotingEscrowUpdate => {
+    const newLocked = {
+      amount: BigNumber.from(locked.amount).add(value),
+      end: unlockTime.isZero() ? BigNumber.from(locked.end) : unlockTime,
+    };
+
+    return { ...VotingEscrowCalculator._checkpoint(state, locked, newLocked, timestamp), locked: newLocked };
+  };
+
+  // Port of `_checkpoint` for a user, recording global checkpoints for every week since the last one.
+  private static _checkpoint = (
+    state: VotingEscrowState,
+    oldLocked: LockedBalance,
+    newLocked: LockedBalance,
+    timestamp: BigNumberish
+  ): Omit<VotingEscrowUpdate, 'locked'> => {
+    const now = BigNumber.from(timestamp);
+    const oldEnd = BigNumber.from(oldLocked.end);
+    const newEnd = BigNumber.from(newLocked.end);
+
+    const userOldPoint = VotingEscrowCalculator._getUserPoint(oldLocked, now);
+    const userNewPoint = VotingEscrowCalculator._getUserPoint(newLocked, now);
+
+    let oldSlopeChange = VotingEscrowCalculator._getSlopeChange(state, oldEnd);
+    let newSlopeChange = Zero;
+    if (!newEnd.isZero()) {
+      newSlopeChange = newEnd.eq(oldEnd) ? oldSlopeChange : VotingEscrowCalculator._getSlopeChange(state, newEnd);
+    }
+
+    const pointHistory = [...state.pointHistory];
+    const lastPoint = pointHistory[pointHistory.length - 1];
+    let bias = lastPoint === undefined ? Zero : BigNumber.from(lastPoint.bias);
+    let slope = lastPoint === undefined ? Zero : BigNumber.from(lastPoint.slope);
+    let lastCheckpoint = lastPoint === undefined ? now : BigNumber.from(lastPoint.ts);
+    invariant(lastCheckpoint.lte(now), 'Timestamp is before the last checkpoint');
+
+    // Go over weeks to fill history and calculate what the current point is.
+    let weekTimestamp = VotingEscrowCalculator.roundDownToWeek(lastCheckpoint);
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      weekTimestamp = weekTimestamp.add(WEEK);
+      let slopeChange = Zero;
+      if (weekTimestamp.gt(now)) {
+        weekTimestamp = now;
+      } else {
+        slopeChange = VotingEscrowCalculator._getSlopeChange(state, weekTimestamp);
+      }
+
+      bias = bias.sub(slope.mul(weekTimestamp.sub(lastCheckpoint)));
+      slope = slope.add(slopeChange);
+      if (bias.lt(0)) bias = Zero;
+      if (slope.lt(0)) slope = Zero;
+      lastCheckpoint = weekTimestamp;
+
+      if (weekTimestamp.eq(now)) break;
+      pointHistory.push({ bias, slope, ts: weekTimestamp });
+    }
+
+    slope = slope.add(userNewPoint.slope).sub(userOldPoint.slope);
+    bias = bias.add(userNewPoint.bias).sub(userOldPoint.bias);
+    if (slope.lt(0)) slope = Zero;
+    if (bias.lt(0)) bias = Zero;
+    pointHistory.push({ bias, slope, ts: now });
+
+    // Schedule the slope changes: the old slope no longer ends at the old end, and the new slope ends at the new end.
+    const slopeChanges = { ...state.slopeChanges };
+    if (oldEnd.gt(now)) {
+      oldSlopeChange = oldSlopeChange.add(userOldPoint.slope);
+      if (newEnd.eq(oldEnd)) oldSlopeChange = oldSlopeChange.sub(userNewPoint.slope);
+      slopeChanges[oldEnd.toNumber()] = oldSlopeChange;
+    }
+    if (newEnd.gt(now) && newEnd.gt(oldEnd)) {
+      newSlopeChange = newSlopeChange.sub(userNewPoint.slope);
+      slopeChanges[newEnd.toNumber()] = newSlopeChange;
+    }
+
+    return { state: { pointHistory, slopeChanges }, userPoint: { ...userNewPoint, ts: now } };
+  };
+
+  // Returns the user point of a lock at `timestamp`, which is zero if the lock has expired.
+  private static _getUserPoint = (
+    locked: LockedBalance,
+    timestamp: BigNumberish
+  ): { bias: BigNumber; slope: BigNumber } => {
+    const end = BigNumber.from(locked.end);
+    if (end.lte(timestamp) || BigNumber.from(locked.amount).lte(0)) return { bias: Zero, slope: Zero };
+
+    const slope = BigNumber.from(locked.amount).div(MAXTIME);
+    return { bias: slope.mul(end.sub(timestamp)), slope };
+  };
+
+  private static _getSlopeChange = (state: VotingEscrowState, timestamp: BigNumber): BigNumber =>
+    BigNumber.from(state.slopeChanges[timestamp.toNumber()] ?? 0);
+
+  // Returns the latest point at or before `timestamp`, as found by `find_timestamp_epoch`.
+  private static _findPoint = (points: VotingEscrowPoint[], timestamp: BigNumberish): VotingEscrowPoint | undefined => {
+    let min = -1;
+    let max = points.length - 1;
+    while (min < max) {
+      const mid = Math.floor((min + max + 1) / 2);
+      if (BigNumber.from(points[mid].ts).lte(timestamp)) {
+        min = mid;
+      } else {
+        max = mid - 1;
+      }
+    }
+    return min === -1 ? undefined : points[min];
+  };
+}
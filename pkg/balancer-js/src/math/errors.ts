@@ -0,0 +1,19 @@
+import { BalancerErrors } from '../utils/errors';
+
+/**
+ * Mirrors `_require` from `BalancerErrors.sol`: throws an error whose message is the encoded error code (e.g.
+ * `BAL#304`) if `condition` is false, so it can be handled in the same way as an on-chain revert reason.
+ * @param condition - the condition that must hold
+ * @param error - the name of the Balancer error to raise otherwise, e.g. `MAX_IN_RATIO`
+ */
+export function _require(condition: boolean, error: string): asserts condition {
+  if (!condition) _revert(error);
+}
+
+/**
+ * Mirrors `_revert` from `BalancerErrors.sol`: unconditionally throws an error whose message is the encoded error code.
+ * @param error - the name of the Balancer error to raise, e.g. `STABLE_INVARIANT_DIDNT_CONVERGE`
+ */
+export function _revert(error: string): never {
+  throw new Error(BalancerErrors.encodeError(error));
+}
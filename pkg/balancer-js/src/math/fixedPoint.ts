@@ -0,0 +1,123 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { MaxUint256, WeiPerEther, Zero } from '@ethersproject/constants';
+import { _require } from './errors';
+import { LogExpMath } from './logExpMath';
+
+/**
+ * Arithmetic on 18 decimal fixed point numbers, matching `FixedPoint.sol` including its rounding directions and the
+ * error bounds of its power functions.
+ */
+export class FixedPoint {
+  static readonly ONE = WeiPerEther; // 18 decimal places
+  static readonly TWO = WeiPerEther.mul(2);
+  static readonly FOUR = WeiPerEther.mul(4);
+  static readonly MAX_POW_RELATIVE_ERROR = BigNumber.from(10000); // 10^(-14)
+
+  // Minimum base for the power function when the exponent is 'free' (larger than ONE).
+  static readonly MIN_POW_BASE_FREE_EXPONENT = WeiPerEther.mul(7).div(10);
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  static add = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    // Fixed Point addition is the same as regular checked addition
+    const c = BigNumber.from(a).add(b);
+    _require(c.lte(MaxUint256), 'ADD_OVERFLOW');
+    return c;
+  };
+
+  static sub = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    _require(BigNumber.from(b).lte(a), 'SUB_OVERFLOW');
+    return BigNumber.from(a).sub(b);
+  };
+
+  static mulDown = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    const product = BigNumber.from(a).mul(b);
+    _require(product.lte(MaxUint256), 'MUL_OVERFLOW');
+
+    return product.div(FixedPoint.ONE);
+  };
+
+  static mulUp = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    const product = BigNumber.from(a).mul(b);
+    _require(product.lte(MaxUint256), 'MUL_OVERFLOW');
+
+    // divUp(x, y) := (x - 1) / y + 1, which requires x != 0
+    return product.isZero() ? Zero : product.sub(1).div(FixedPoint.ONE).add(1);
+  };
+
+  static divDown = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    _require(!BigNumber.from(b).isZero(), 'ZERO_DIVISION');
+
+    const aInflated = BigNumber.from(a).mul(FixedPoint.ONE);
+    _require(aInflated.lte(MaxUint256), 'DIV_INTERNAL'); // mul overflow
+
+    return aInflated.div(b);
+  };
+
+  static divUp = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    _require(!BigNumber.from(b).isZero(), 'ZERO_DIVISION');
+
+    const aInflated = BigNumber.from(a).mul(FixedPoint.ONE);
+    _require(aInflated.lte(MaxUint256), 'DIV_INTERNAL'); // mul overflow
+
+    // divUp(x, y) := (x - 1) / y + 1, which requires x != 0
+    return aInflated.isZero() ? Zero : aInflated.sub(1).div(b).add(1);
+  };
+
+  /**
+   * Returns x^y, assuming both are fixed point numbers, rounding down. The result is guaranteed to not be above
+   * the true value (that is, the error function expected - actual is always positive).
+   */
+  static powDown = (x: BigNumberish, y: BigNumberish): BigNumber => {
+    // Optimize for when y equals 1.0, 2.0 or 4.0, as those are very simple to implement and occur often in 50/50
+    // and 80/20 Weighted Pools
+    if (FixedPoint.ONE.eq(y)) {
+      return BigNumber.from(x);
+    } else if (FixedPoint.TWO.eq(y)) {
+      return FixedPoint.mulDown(x, x);
+    } else if (FixedPoint.FOUR.eq(y)) {
+      const square = FixedPoint.mulDown(x, x);
+      return FixedPoint.mulDown(square, square);
+    } else {
+      const raw = LogExpMath.pow(x, y);
+      const maxError = FixedPoint.add(FixedPoint.mulUp(raw, FixedPoint.MAX_POW_RELATIVE_ERROR), 1);
+
+      return raw.lt(maxError) ? Zero : FixedPoint.sub(raw, maxError);
+    }
+  };
+
+  /**
+   * Returns x^y, assuming both are fixed point numbers, rounding up. The result is guaranteed to not be below
+   * the true value (that is, the error function expected - actual is always negative).
+   */
+  static powUp = (x: BigNumberish, y: BigNumberish): BigNumber => {
+    // Optimize for when y equals 1.0, 2.0 or 4.0, as those are very simple to implement and occur often in 50/50
+    // and 80/20 Weighted Pools
+    if (FixedPoint.ONE.eq(y)) {
+      return BigNumber.from(x);
+    } else if (FixedPoint.TWO.eq(y)) {
+      return FixedPoint.mulUp(x, x);
+    } else if (FixedPoint.FOUR.eq(y)) {
+      const square = FixedPoint.mulUp(x, x);
+      return FixedPoint.mulUp(square, square);
+    } else {
+      const raw = LogExpMath.pow(x, y);
+      const maxError = FixedPoint.add(FixedPoint.mulUp(raw, FixedPoint.MAX_POW_RELATIVE_ERROR), 1);
+
+      return FixedPoint.add(raw, maxError);
+    }
+  };
+
+  /**
+   * Returns the complement of a value (1 - x), capped to 0 if x is larger than 1.
+   *
+   * Useful when computing the complement for values with some level of relative error, as it strips this error and
+   * prevents intermediate negative values.
+   */
+  static complement = (x: BigNumberish): BigNumber => (FixedPoint.ONE.gt(x) ? FixedPoint.ONE.sub(x) : Zero);
+}
@@ -0,0 +1,4 @@
+export * from './fixedPoint';
+export * from './logExpMath';
+export * from './math';
+export * from './scaling';
@@ -0,0 +1,300 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { _require } from './errors';
+
+// All fixed point multiplications and divisions are inlined. This means we need to divide by ONE when multiplying
+// two numbers, and multiply by ONE when dividing them.
+
+// All arguments and return values are 18 decimal fixed point numbers.
+const ONE_18 = BigNumber.from('1000000000000000000');
+
+// Internally, intermediate values are computed with higher precision as 20 decimal fixed point numbers, and in the
+// case of ln36, 36 decimals.
+const ONE_20 = BigNumber.from('100000000000000000000');
+const ONE_36 = BigNumber.from('1000000000000000000000000000000000000');
+
+// The domain of natural exponentiation is bound by the word size and number of decimals used.
+// We use 130.0 and -41.0 to have some safety margin (see `LogExpMath.sol`).
+const MAX_NATURAL_EXPONENT = ONE_18.mul(130);
+const MIN_NATURAL_EXPONENT = ONE_18.mul(-41);
+
+// Bounds for ln_36's argument. Both ln(0.9) and ln(1.1) can be represented with 36 decimal places in a fixed point
+// 256 bit integer.
+const LN_36_LOWER_BOUND = ONE_18.sub(BigNumber.from('100000000000000000'));
+const LN_36_UPPER_BOUND = ONE_18.add(BigNumber.from('100000000000000000'));
+
+const MILD_EXPONENT_BOUND = BigNumber.from(2).pow(254).div(ONE_20);
+
+// 18 decimal constants
+const x0 = BigNumber.from('128000000000000000000'); // 2ˆ7
+const a0 = BigNumber.from('38877084059945950922200000000000000000000000000000000000'); // eˆ(x0) (no decimals)
+const x1 = BigNumber.from('64000000000000000000'); // 2ˆ6
+const a1 = BigNumber.from('6235149080811616882910000000'); // eˆ(x1) (no decimals)
+
+// 20 decimal constants
+const x2 = BigNumber.from('3200000000000000000000'); // 2ˆ5
+const a2 = BigNumber.from('7896296018268069516100000000000000'); // eˆ(x2)
+const x3 = BigNumber.from('1600000000000000000000'); // 2ˆ4
+const a3 = BigNumber.from('888611052050787263676000000'); // eˆ(x3)
+const x4 = BigNumber.from('800000000000000000000'); // 2ˆ3
+const a4 = BigNumber.from('298095798704172827474000'); // eˆ(x4)
+const x5 = BigNumber.from('400000000000000000000'); // 2ˆ2
+const a5 = BigNumber.from('5459815003314423907810'); // eˆ(x5)
+const x6 = BigNumber.from('200000000000000000000'); // 2ˆ1
+const a6 = BigNumber.from('738905609893065022723'); // eˆ(x6)
+const x7 = BigNumber.from('100000000000000000000'); // 2ˆ0
+const a7 = BigNumber.from('271828182845904523536'); // eˆ(x7)
+const x8 = BigNumber.from('50000000000000000000'); // 2ˆ-1
+const a8 = BigNumber.from('164872127070012814685'); // eˆ(x8)
+const x9 = BigNumber.from('25000000000000000000'); // 2ˆ-2
+const a9 = BigNumber.from('128402541668774148407'); // eˆ(x9)
+const x10 = BigNumber.from('12500000000000000000'); // 2ˆ-3
+const a10 = BigNumber.from('113314845306682631683'); // eˆ(x10)
+const x11 = BigNumber.from('6250000000000000000'); // 2ˆ-4
+const a11 = BigNumber.from('106449445891785942956'); // eˆ(x11)
+
+// Pairs of x_n and a_n used when decomposing exponents (x2 to x9) and logarithms (x2 to x11).
+const EXP_TERMS: [BigNumber, BigNumber][] = [
+  [x2, a2],
+  [x3, a3],
+  [x4, a4],
+  [x5, a5],
+  [x6, a6],
+  [x7, a7],
+  [x8, a8],
+  [x9, a9],
+];
+const LN_TERMS: [BigNumber, BigNumber][] = [...EXP_TERMS, [x10, a10], [x11, a11]];
+
+// Solidity's `%` operator takes the sign of the dividend, unlike `BigNumber.mod`.
+const signedRemainder = (a: BigNumber, b: BigNumber): BigNumber => a.sub(a.div(b).mul(b));
+
+/**
+ * Exponentiation and logarithm functions for 18 decimal fixed point numbers (both base and exponent/argument),
+ * matching `LogExpMath.sol` bit for bit.
+ *
+ * Exponentiation and logarithm with arbitrary bases (x^y and log_x(y)) are implemented by conversion to natural
+ * exponentiation and logarithm (where the base is Euler's number).
+ */
+export class LogExpMath {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Exponentiation (x^y) with unsigned 18 decimal fixed point base and exponent.
+   *
+   * Throws if ln(x) * y is smaller than `MIN_NATURAL_EXPONENT`, or larger than `MAX_NATURAL_EXPONENT`.
+   */
+  static pow = (x: BigNumberish, y: BigNumberish): BigNumber => {
+    const xBN = BigNumber.from(x);
+    const yBN = BigNumber.from(y);
+
+    if (yBN.isZero()) {
+      // We solve the 0^0 indetermination by making it equal one.
+      return ONE_18;
+    }
+
+    if (xBN.isZero()) {
+      return BigNumber.from(0);
+    }
+
+    // Instead of computing x^y directly, we instead rely on the properties of logarithms and exponentiation to
+    // arrive at that result. In particular, exp(ln(x)) = x, and ln(x^y) = y * ln(x). This means
+    // x^y = exp(y * ln(x)).
+
+    // The ln function takes a signed value, so we need to make sure x fits in the signed 256 bit range.
+    _require(xBN.shr(255).isZero(), 'X_OUT_OF_BOUNDS');
+
+    // This prevents y * ln(x) from overflowing, and at the same time guarantees y fits in the signed 256 bit range.
+    _require(yBN.lt(MILD_EXPONENT_BOUND), 'Y_OUT_OF_BOUNDS');
+
+    let logxTimesY: BigNumber;
+    if (LN_36_LOWER_BOUND.lt(xBN) && xBN.lt(LN_36_UPPER_BOUND)) {
+      const ln36X = LogExpMath._ln36(xBN);
+
+      // ln36X has 36 decimal places, so we perform two 18 decimal multiplications and add the results: one with the
+      // first 18 decimals of ln36X, and one with the (downscaled) last 18 decimals.
+      logxTimesY = ln36X.div(ONE_18).mul(yBN).add(signedRemainder(ln36X, ONE_18).mul(yBN).div(ONE_18));
+    } else {
+      logxTimesY = LogExpMath._ln(xBN).mul(yBN);
+    }
+    logxTimesY = logxTimesY.div(ONE_18);
+
+    // Finally, we compute exp(y * ln(x)) to arrive at x^y
+    _require(MIN_NATURAL_EXPONENT.lte(logxTimesY) && logxTimesY.lte(MAX_NATURAL_EXPONENT), 'PRODUCT_OUT_OF_BOUNDS');
+
+    return LogExpMath.exp(logxTimesY);
+  };
+
+  /**
+   * Natural exponentiation (e^x) with signed 18 decimal fixed point exponent.
+   *
+   * Throws if `x` is smaller than MIN_NATURAL_EXPONENT, or larger than `MAX_NATURAL_EXPONENT`.
+   */
+  static exp = (x: BigNumberish): BigNumber => {
+    let xBN = BigNumber.from(x);
+    _require(xBN.gte(MIN_NATURAL_EXPONENT) && xBN.lte(MAX_NATURAL_EXPONENT), 'INVALID_EXPONENT');
+
+    if (xBN.isNegative()) {
+      // We only handle positive exponents: e^(-x) is computed as 1 / e^x.
+      return ONE_18.mul(ONE_18).div(LogExpMath.exp(xBN.mul(-1)));
+    }
+
+    // First, we use the fact that e^(x+y) = e^x * e^y to decompose x into a sum of powers of two, which we call x_n,
+    // where x_n == 2^(7 - n), and e^x_n = a_n has been precomputed. The first two a_n are stored as plain integers,
+    // and x0 + x1 is larger than MAX_NATURAL_EXPONENT, so at most one of them is present in the decomposition.
+    let firstAN: BigNumber;
+    if (xBN.gte(x0)) {
+      xBN = xBN.sub(x0);
+      firstAN = a0;
+    } else if (xBN.gte(x1)) {
+      xBN = xBN.sub(x1);
+      firstAN = a1;
+    } else {
+      firstAN = BigNumber.from(1); // One with no decimal places
+    }
+
+    // We now transform x into a 20 decimal fixed point number, to have enhanced precision when computing the
+    // smaller terms.
+    xBN = xBN.mul(100);
+
+    // `product` is the accumulated product of all a_n (except a0 and a1), which starts at 20 decimal fixed point
+    // one. x10 and x11 are unnecessary here since we have high enough precision already.
+    let product = ONE_20;
+    for (const [xN, aN] of EXP_TERMS) {
+      if (xBN.gte(xN)) {
+        xBN = xBN.sub(xN);
+        product = product.mul(aN).div(ONE_20);
+      }
+    }
+
+    // Now we need to compute e^x, where x is small (in particular, it is smaller than x9). We use the Taylor series
+    // expansion for e^x: 1 + x + (x^2 / 2!) + (x^3 / 3!) + ... + (x^n / n!). 12 Taylor terms are sufficient for 18
+    // decimal precision.
+    let seriesSum = ONE_20.add(xBN);
+    let term = xBN;
+    for (let n = 2; n <= 12; n++) {
+      term = term.mul(xBN).div(ONE_20).div(n);
+      seriesSum = seriesSum.add(term);
+    }
+
+    // Multiply all three terms and drop two digits to return an 18 decimal value.
+    return product.mul(seriesSum).div(ONE_20).mul(firstAN).div(100);
+  };
+
+  /**
+   * Logarithm (log(arg, base), with signed 18 decimal fixed point base and argument.
+   */
+  static log = (arg: BigNumberish, base: BigNumberish): BigNumber => {
+    // This performs a simple base change: log(arg, base) = ln(arg) / ln(base).
+    // Both logBase and logArg are computed as 36 decimal fixed point numbers, either by using ln_36, or by upscaling.
+    const logBase = LogExpMath._ln36OrUpscaledLn(BigNumber.from(base));
+    const logArg = LogExpMath._ln36OrUpscaledLn(BigNumber.from(arg));
+
+    // When dividing, we multiply by ONE_18 to arrive at a result with 18 decimal places
+    return logArg.mul(ONE_18).div(logBase);
+  };
+
+  /**
+   * Natural logarithm (ln(a)) with signed 18 decimal fixed point argument.
+   */
+  static ln = (a: BigNumberish): BigNumber => {
+    const aBN = BigNumber.from(a);
+
+    // The real natural logarithm is not defined for negative numbers or zero.
+    _require(aBN.gt(0), 'OUT_OF_BOUNDS');
+    if (LN_36_LOWER_BOUND.lt(aBN) && aBN.lt(LN_36_UPPER_BOUND)) {
+      return LogExpMath._ln36(aBN).div(ONE_18);
+    } else {
+      return LogExpMath._ln(aBN);
+    }
+  };
+
+  private static _ln36OrUpscaledLn(a: BigNumber): BigNumber {
+    return LN_36_LOWER_BOUND.lt(a) && a.lt(LN_36_UPPER_BOUND) ? LogExpMath._ln36(a) : LogExpMath._ln(a).mul(ONE_18);
+  }
+
+  /**
+   * Internal natural logarithm (ln(a)) with signed 18 decimal fixed point argument.
+   */
+  private static _ln(a: BigNumber): BigNumber {
+    if (a.lt(ONE_18)) {
+      // Since ln(a^k) = k * ln(a), we can compute ln(a) as ln(a) = ln((1/a)^(-1)) = - ln((1/a)).
+      return LogExpMath._ln(ONE_18.mul(ONE_18).div(a)).mul(-1);
+    }
+
+    // First, we use the fact that ln^(a * b) = ln(a) + ln(b) to decompose ln(a) into a sum of powers of two, which
+    // we call x_n, where x_n == 2^(7 - n), which are the natural logarithm of precomputed quantities a_n.
+    // The first two a_n are stored as plain integers, so we multiply them by ONE_18 to compare them.
+    let sum = BigNumber.from(0);
+    if (a.gte(a0.mul(ONE_18))) {
+      a = a.div(a0); // Integer, not fixed point division
+      sum = sum.add(x0);
+    }
+
+    if (a.gte(a1.mul(ONE_18))) {
+      a = a.div(a1); // Integer, not fixed point division
+      sum = sum.add(x1);
+    }
+
+    // All other a_n and x_n are stored as 20 digit fixed point numbers, so we convert the sum and a to this format.
+    sum = sum.mul(100);
+    a = a.mul(100);
+
+    for (const [xN, aN] of LN_TERMS) {
+      if (a.gte(aN)) {
+        a = a.mul(ONE_20).div(aN);
+        sum = sum.add(xN);
+      }
+    }
+
+    // a is now a small number (smaller than a_11, which roughly equals 1.06). This means we can use a Taylor series
+    // that converges rapidly for values of `a` close to one - the same one used in ln_36.
+    // Let z = (a - 1) / (a + 1).
+    // ln(a) = 2 * (z + z^3 / 3 + z^5 / 5 + z^7 / 7 + ... + z^(2 * n + 1) / (2 * n + 1))
+    const z = a.sub(ONE_20).mul(ONE_20).div(a.add(ONE_20));
+    const zSquared = z.mul(z).div(ONE_20);
+
+    // 6 Taylor terms are sufficient for 36 decimal precision.
+    let num = z;
+    let seriesSum = num;
+    for (let n = 3; n <= 11; n += 2) {
+      num = num.mul(zSquared).div(ONE_20);
+      seriesSum = seriesSum.add(num.div(n));
+    }
+
+    // Finally, we multiply by 2 (non fixed point) to compute ln(remainder), add the sum of all x_n present and drop
+    // two digits to return a 18 decimal value.
+    return sum.add(seriesSum.mul(2)).div(100);
+  }
+
+  /**
+   * Internal high precision (36 decimal places) natural logarithm (ln(x)) with signed 18 decimal fixed point argument,
+   * for x close to one.
+   *
+   * Should only be used if x is between LN_36_LOWER_BOUND and LN_36_UPPER_BOUND.
+   */
+  private static _ln36(x: BigNumber): BigNumber {
+    // First, we transform x to a 36 digit fixed point value.
+    x = x.mul(ONE_18);
+
+    // We will use the following Taylor expansion, which converges very rapidly. Let z = (x - 1) / (x + 1).
+    // ln(x) = 2 * (z + z^3 / 3 + z^5 / 5 + z^7 / 7 + ... + z^(2 * n + 1) / (2 * n + 1))
+    const z = x.sub(ONE_36).mul(ONE_36).div(x.add(ONE_36));
+    const zSquared = z.mul(z).div(ONE_36);
+
+    // 8 Taylor terms are sufficient for 36 decimal precision.
+    let num = z;
+    let seriesSum = num;
+    for (let n = 3; n <= 15; n += 2) {
+      num = num.mul(zSquared).div(ONE_36);
+      seriesSum = seriesSum.add(num.div(n));
+    }
+
+    // All that remains is multiplying by 2 (non fixed point).
+    return seriesSum.mul(2);
+  }
+}
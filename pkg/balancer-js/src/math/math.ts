@@ -0,0 +1,51 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { MaxUint256, Zero } from '@ethersproject/constants';
+import { _require } from './errors';
+
+/**
+ * Checked integer arithmetic on unsigned 256 bit values, matching `Math.sol`.
+ */
+export class IntegerMath {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  static add = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    const c = BigNumber.from(a).add(b);
+    _require(c.lte(MaxUint256), 'ADD_OVERFLOW');
+    return c;
+  };
+
+  static sub = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    _require(BigNumber.from(b).lte(a), 'SUB_OVERFLOW');
+    return BigNumber.from(a).sub(b);
+  };
+
+  static mul = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    const c = BigNumber.from(a).mul(b);
+    _require(c.lte(MaxUint256), 'MUL_OVERFLOW');
+    return c;
+  };
+
+  static divDown = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    _require(!BigNumber.from(b).isZero(), 'ZERO_DIVISION');
+    return BigNumber.from(a).div(b);
+  };
+
+  static divUp = (a: BigNumberish, b: BigNumberish): BigNumber => {
+    _require(!BigNumber.from(b).isZero(), 'ZERO_DIVISION');
+    return BigNumber.from(a).isZero() ? Zero : BigNumber.from(a).sub(1).div(b).add(1);
+  };
+
+  static div = (a: BigNumberish, b: BigNumberish, roundUp: boolean): BigNumber =>
+    roundUp ? IntegerMath.divUp(a, b) : IntegerMath.divDown(a, b);
+
+  static max = (a: BigNumberish, b: BigNumberish): BigNumber =>
+    BigNumber.from(a).lt(b) ? BigNumber.from(b) : BigNumber.from(a);
+
+  static min = (a: BigNumberish, b: BigNumberish): BigNumber =>
+    BigNumber.from(a).lt(b) ? BigNumber.from(a) : BigNumber.from(b);
+}
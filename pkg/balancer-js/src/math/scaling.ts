@@ -0,0 +1,67 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { _require } from './errors';
+import { FixedPoint } from './fixedPoint';
+import { IntegerMath } from './math';
+
+/**
+ * Conversion between token amounts and the 18 decimal values used by Pool math, matching `ScalingHelpers.sol`.
+ *
+ * Unlike their Solidity counterparts, the array functions return new arrays instead of mutating their inputs.
+ */
+export class ScalingHelpers {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Computes the scaling factor of a token with `decimals` decimals, as done by Pools on creation.
+   * Tokens with more than 18 decimals are not supported.
+   */
+  static computeScalingFactor = (decimals: number): BigNumber =>
+    FixedPoint.ONE.mul(BigNumber.from(10).pow(IntegerMath.sub(18, decimals)));
+
+  /**
+   * Computes the scaling factor of a token with a rate provider, as done by Pools such as Composable Stable Pools:
+   * the decimals scaling factor multiplied by the token's rate (rounding down).
+   * @param decimals - the decimals of the token
+   * @param rate - the 18 decimal rate of the token
+   */
+  static computeScalingFactorWithRate = (decimals: number, rate: BigNumberish): BigNumber =>
+    FixedPoint.mulDown(ScalingHelpers.computeScalingFactor(decimals), rate);
+
+  /**
+   * Applies `scalingFactor` to `amount`, rounding down.
+   */
+  static upscale = (amount: BigNumberish, scalingFactor: BigNumberish): BigNumber =>
+    FixedPoint.mulDown(amount, scalingFactor);
+
+  /**
+   * Reverses the `scalingFactor` applied to `amount`, rounding down.
+   */
+  static downscaleDown = (amount: BigNumberish, scalingFactor: BigNumberish): BigNumber =>
+    FixedPoint.divDown(amount, scalingFactor);
+
+  /**
+   * Reverses the `scalingFactor` applied to `amount`, rounding up.
+   */
+  static downscaleUp = (amount: BigNumberish, scalingFactor: BigNumberish): BigNumber =>
+    FixedPoint.divUp(amount, scalingFactor);
+
+  static upscaleArray = (amounts: BigNumberish[], scalingFactors: BigNumberish[]): BigNumber[] => {
+    _require(amounts.length === scalingFactors.length, 'INPUT_LENGTH_MISMATCH');
+    return amounts.map((amount, i) => ScalingHelpers.upscale(amount, scalingFactors[i]));
+  };
+
+  static downscaleDownArray = (amounts: BigNumberish[], scalingFactors: BigNumberish[]): BigNumber[] => {
+    _require(amounts.length === scalingFactors.length, 'INPUT_LENGTH_MISMATCH');
+    return amounts.map((amount, i) => ScalingHelpers.downscaleDown(amount, scalingFactors[i]));
+  };
+
+  static downscaleUpArray = (amounts: BigNumberish[], scalingFactors: BigNumberish[]): BigNumber[] => {
+    _require(amounts.length === scalingFactors.length, 'INPUT_LENGTH_MISMATCH');
+    return amounts.map((amount, i) => ScalingHelpers.downscaleUp(amount, scalingFactors[i]));
+  };
+}
@@ -0,0 +1,2 @@
+export * from './math';
+export * from './quoter';
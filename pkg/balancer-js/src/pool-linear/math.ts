@@ -0,0 +1,313 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { Zero } from '@ethersproject/constants';
+import { FixedPoint } from '../math/fixedPoint';
+import { IntegerMath } from '../math/math';
+
+export type LinearMathParams = {
+  fee: BigNumberish;
+  lowerTarget: BigNumberish;
+  upperTarget: BigNumberish;
+};
+
+/**
+ * An exact port of `LinearMath.sol`: every function returns the same value the contract would (to the wei), and
+ * throws the same Balancer error code whenever the contract would revert.
+ *
+ * All functions assume the wrapped token rate has already been applied, so that main and wrapped amounts are both
+ * expressed in (upscaled) main token units. Main balances between `lowerTarget` and `upperTarget` are charged no fees:
+ * outside of that range, the 'nominal' main balance (the real balance sans collected fees) is used instead.
+ */
+export class LinearMath {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  static calcBptOutPerMainIn = (
+    mainIn: BigNumberish,
+    mainBalance: BigNumberish,
+    wrappedBalance: BigNumberish,
+    bptSupply: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount out, so we round down overall.
+
+    if (BigNumber.from(bptSupply).isZero()) {
+      // BPT typically grows in the same ratio the invariant does. The first time liquidity is added however, the
+      // BPT supply is initialized to equal the invariant (which in this case is just the nominal main balance as
+      // there is no wrapped balance).
+      return LinearMath.toNominal(mainIn, params);
+    }
+
+    const previousNominalMain = LinearMath.toNominal(mainBalance, params);
+    const afterNominalMain = LinearMath.toNominal(FixedPoint.add(mainBalance, mainIn), params);
+    const deltaNominalMain = FixedPoint.sub(afterNominalMain, previousNominalMain);
+    const invariant = LinearMath.calcInvariant(previousNominalMain, wrappedBalance);
+    return IntegerMath.divDown(IntegerMath.mul(bptSupply, deltaNominalMain), invariant);
+  };
+
+  static calcBptInPerMainOut = (
+    mainOut: BigNumberish,
+    mainBalance: BigNumberish,
+    wrappedBalance: BigNumberish,
+    bptSupply: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount in, so we round up overall.
+
+    const previousNominalMain = LinearMath.toNominal(mainBalance, params);
+    const afterNominalMain = LinearMath.toNominal(FixedPoint.sub(mainBalance, mainOut), params);
+    const deltaNominalMain = FixedPoint.sub(previousNominalMain, afterNominalMain);
+    const invariant = LinearMath.calcInvariant(previousNominalMain, wrappedBalance);
+    return IntegerMath.divUp(IntegerMath.mul(bptSupply, deltaNominalMain), invariant);
+  };
+
+  static calcWrappedOutPerMainIn = (
+    mainIn: BigNumberish,
+    mainBalance: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount out, so we round down overall.
+
+    const previousNominalMain = LinearMath.toNominal(mainBalance, params);
+    const afterNominalMain = LinearMath.toNominal(FixedPoint.add(mainBalance, mainIn), params);
+    return FixedPoint.sub(afterNominalMain, previousNominalMain);
+  };
+
+  static calcWrappedInPerMainOut = (
+    mainOut: BigNumberish,
+    mainBalance: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount in, so we round up overall.
+
+    const previousNominalMain = LinearMath.toNominal(mainBalance, params);
+    const afterNominalMain = LinearMath.toNominal(FixedPoint.sub(mainBalance, mainOut), params);
+    return FixedPoint.sub(previousNominalMain, afterNominalMain);
+  };
+
+  static calcMainInPerBptOut = (
+    bptOut: BigNumberish,
+    mainBalance: BigNumberish,
+    wrappedBalance: BigNumberish,
+    bptSupply: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount in, so we round up overall.
+
+    if (BigNumber.from(bptSupply).isZero()) {
+      // BPT typically grows in the same ratio the invariant does. The first time liquidity is added however, the
+      // BPT supply is initialized to equal the invariant (which in this case is just the nominal main balance as
+      // there is no wrapped balance).
+      return LinearMath.fromNominal(bptOut, params);
+    }
+
+    const previousNominalMain = LinearMath.toNominal(mainBalance, params);
+    const invariant = LinearMath.calcInvariant(previousNominalMain, wrappedBalance);
+    const deltaNominalMain = IntegerMath.divUp(IntegerMath.mul(invariant, bptOut), bptSupply);
+    const afterNominalMain = FixedPoint.add(previousNominalMain, deltaNominalMain);
+    const newMainBalance = LinearMath.fromNominal(afterNominalMain, params);
+    return FixedPoint.sub(newMainBalance, mainBalance);
+  };
+
+  static calcMainOutPerBptIn = (
+    bptIn: BigNumberish,
+    mainBalance: BigNumberish,
+    wrappedBalance: BigNumberish,
+    bptSupply: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount out, so we round down overall.
+
+    const previousNominalMain = LinearMath.toNominal(mainBalance, params);
+    const invariant = LinearMath.calcInvariant(previousNominalMain, wrappedBalance);
+    const deltaNominalMain = IntegerMath.divDown(IntegerMath.mul(invariant, bptIn), bptSupply);
+    const afterNominalMain = FixedPoint.sub(previousNominalMain, deltaNominalMain);
+    const newMainBalance = LinearMath.fromNominal(afterNominalMain, params);
+    return FixedPoint.sub(mainBalance, newMainBalance);
+  };
+
+  static calcMainOutPerWrappedIn = (
+    wrappedIn: BigNumberish,
+    mainBalance: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount out, so we round down overall.
+
+    const previousNominalMain = LinearMath.toNominal(mainBalance, params);
+    const afterNominalMain = FixedPoint.sub(previousNominalMain, wrappedIn);
+    const newMainBalance = LinearMath.fromNominal(afterNominalMain, params);
+    return FixedPoint.sub(mainBalance, newMainBalance);
+  };
+
+  static calcMainInPerWrappedOut = (
+    wrappedOut: BigNumberish,
+    mainBalance: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount in, so we round up overall.
+
+    const previousNominalMain = LinearMath.toNominal(mainBalance, params);
+    const afterNominalMain = FixedPoint.add(previousNominalMain, wrappedOut);
+    const newMainBalance = LinearMath.fromNominal(afterNominalMain, params);
+    return FixedPoint.sub(newMainBalance, mainBalance);
+  };
+
+  static calcBptOutPerWrappedIn = (
+    wrappedIn: BigNumberish,
+    mainBalance: BigNumberish,
+    wrappedBalance: BigNumberish,
+    bptSupply: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount out, so we round down overall.
+
+    if (BigNumber.from(bptSupply).isZero()) {
+      // BPT typically grows in the same ratio the invariant does. The first time liquidity is added however, the
+      // BPT supply is initialized to equal the invariant (which in this case is just the wrapped balance as
+      // there is no main balance).
+      return BigNumber.from(wrappedIn);
+    }
+
+    const nominalMain = LinearMath.toNominal(mainBalance, params);
+    const previousInvariant = LinearMath.calcInvariant(nominalMain, wrappedBalance);
+
+    const newWrappedBalance = FixedPoint.add(wrappedBalance, wrappedIn);
+    const newInvariant = LinearMath.calcInvariant(nominalMain, newWrappedBalance);
+
+    const newBptBalance = IntegerMath.divDown(IntegerMath.mul(bptSupply, newInvariant), previousInvariant);
+
+    return FixedPoint.sub(newBptBalance, bptSupply);
+  };
+
+  static calcBptInPerWrappedOut = (
+    wrappedOut: BigNumberish,
+    mainBalance: BigNumberish,
+    wrappedBalance: BigNumberish,
+    bptSupply: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount in, so we round up overall.
+
+    const nominalMain = LinearMath.toNominal(mainBalance, params);
+    const previousInvariant = LinearMath.calcInvariant(nominalMain, wrappedBalance);
+
+    const newWrappedBalance = FixedPoint.sub(wrappedBalance, wrappedOut);
+    const newInvariant = LinearMath.calcInvariant(nominalMain, newWrappedBalance);
+
+    const newBptBalance = IntegerMath.divDown(IntegerMath.mul(bptSupply, newInvariant), previousInvariant);
+
+    return FixedPoint.sub(bptSupply, newBptBalance);
+  };
+
+  static calcWrappedInPerBptOut = (
+    bptOut: BigNumberish,
+    mainBalance: BigNumberish,
+    wrappedBalance: BigNumberish,
+    bptSupply: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount in, so we round up overall.
+
+    if (BigNumber.from(bptSupply).isZero()) {
+      // BPT typically grows in the same ratio the invariant does. The first time liquidity is added however, the
+      // BPT supply is initialized to equal the invariant (which in this case is just the wrapped balance as
+      // there is no main balance).
+      return BigNumber.from(bptOut);
+    }
+
+    const nominalMain = LinearMath.toNominal(mainBalance, params);
+    const previousInvariant = LinearMath.calcInvariant(nominalMain, wrappedBalance);
+
+    const newBptBalance = FixedPoint.add(bptSupply, bptOut);
+    const newWrappedBalance = FixedPoint.sub(
+      IntegerMath.divUp(IntegerMath.mul(newBptBalance, previousInvariant), bptSupply),
+      nominalMain
+    );
+
+    return FixedPoint.sub(newWrappedBalance, wrappedBalance);
+  };
+
+  static calcWrappedOutPerBptIn = (
+    bptIn: BigNumberish,
+    mainBalance: BigNumberish,
+    wrappedBalance: BigNumberish,
+    bptSupply: BigNumberish,
+    params: LinearMathParams
+  ): BigNumber => {
+    // Amount out, so we round down overall.
+
+    const nominalMain = LinearMath.toNominal(mainBalance, params);
+    const previousInvariant = LinearMath.calcInvariant(nominalMain, wrappedBalance);
+
+    const newBptBalance = FixedPoint.sub(bptSupply, bptIn);
+    const newWrappedBalance = FixedPoint.sub(
+      IntegerMath.divUp(IntegerMath.mul(newBptBalance, previousInvariant), bptSupply),
+      nominalMain
+    );
+
+    return FixedPoint.sub(wrappedBalance, newWrappedBalance);
+  };
+
+  static calcInvariant = (nominalMainBalance: BigNumberish, wrappedBalance: BigNumberish): BigNumber =>
+    FixedPoint.add(nominalMainBalance, wrappedBalance);
+
+  /**
+   * Converts a real main balance into its nominal value, by deducting the fees collected outside of the targets.
+   */
+  static toNominal = (real: BigNumberish, params: LinearMathParams): BigNumber => {
+    // Fees are always rounded down: either direction would work but we need to be consistent, and rounding down
+    // uses less gas.
+
+    if (BigNumber.from(real).lt(params.lowerTarget)) {
+      const fees = FixedPoint.mulDown(BigNumber.from(params.lowerTarget).sub(real), params.fee);
+      return FixedPoint.sub(real, fees);
+    } else if (BigNumber.from(real).lte(params.upperTarget)) {
+      return BigNumber.from(real);
+    } else {
+      const fees = FixedPoint.mulDown(BigNumber.from(real).sub(params.upperTarget), params.fee);
+      return FixedPoint.sub(real, fees);
+    }
+  };
+
+  /**
+   * Converts a nominal main balance into the real balance it corresponds to. This is the inverse of `toNominal`.
+   */
+  static fromNominal = (nominal: BigNumberish, params: LinearMathParams): BigNumber => {
+    // Since real = nominal + fees, rounding down fees is equivalent to rounding down real.
+
+    if (BigNumber.from(nominal).lt(params.lowerTarget)) {
+      return FixedPoint.divDown(
+        FixedPoint.add(nominal, FixedPoint.mulDown(params.fee, params.lowerTarget)),
+        FixedPoint.add(FixedPoint.ONE, params.fee)
+      );
+    } else if (BigNumber.from(nominal).lte(params.upperTarget)) {
+      return BigNumber.from(nominal);
+    } else {
+      return FixedPoint.divDown(
+        FixedPoint.sub(nominal, FixedPoint.mulDown(params.fee, params.upperTarget)),
+        FixedPoint.sub(FixedPoint.ONE, params.fee)
+      );
+    }
+  };
+
+  /**
+   * Computes the amounts of each token received in a proportional exit, as done in Recovery Mode. The BPT entry is
+   * always zero, as the preminted BPT held by the Pool is not owned by LPs.
+   */
+  static calcTokensOutGivenExactBptIn = (
+    balances: BigNumberish[],
+    bptAmountIn: BigNumberish,
+    bptTotalSupply: BigNumberish,
+    bptIndex: number
+  ): BigNumber[] => {
+    // Since we're computing an amount out, we round down overall. This means rounding down on both the
+    // multiplication and division.
+
+    const bptRatio = FixedPoint.divDown(bptAmountIn, bptTotalSupply);
+
+    return balances.map((balance, i) => (i !== bptIndex ? FixedPoint.mulDown(balance, bptRatio) : Zero));
+  };
+}
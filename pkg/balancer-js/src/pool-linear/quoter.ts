@@ -0,0 +1,202 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { _require } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+import { ScalingHelpers } from '../math/scaling';
+import { SwapKind } from '../types';
+import { LinearMath, LinearMathParams } from './math';
+
+export type LinearPoolState = {
+  // Balances of all registered tokens (including BPT) as reported by the Vault, i.e. not upscaled
+  balances: BigNumberish[];
+  mainIndex: number;
+  wrappedIndex: number;
+  bptIndex: number;
+  // Scaling factors of the main and wrapped tokens derived from their decimals, excluding the wrapped token rate
+  mainScalingFactor: BigNumberish;
+  wrappedScalingFactor: BigNumberish;
+  // As returned by `getWrappedTokenRate()`
+  wrappedTokenRate: BigNumberish;
+  // As returned by `getTargets()`
+  lowerTarget: BigNumberish;
+  upperTarget: BigNumberish;
+  swapFeePercentage: BigNumberish;
+  // As returned by `getVirtualSupply()`: the total supply minus the BPT held by the Vault for the Pool
+  virtualSupply: BigNumberish;
+};
+
+/**
+ * Computes exact quotes for swaps on Linear Pools, reproducing the scaling and rate handling of `LinearPool`.
+ *
+ * Swaps can be between any pair of main token, wrapped token and BPT: those involving BPT are equivalent to single
+ * token joins and exits. Token indices refer to the Pool's registered tokens, in the same way as the Vault's.
+ */
+export class LinearPoolQuoter {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Returns the scaling factors for all of the Pool's tokens, matching `getScalingFactors()`: the wrapped token's
+   * scaling factor includes its rate.
+   */
+  static getScalingFactors = (pool: LinearPoolState): BigNumber[] => {
+    const scalingFactors: BigNumber[] = [];
+    scalingFactors[pool.mainIndex] = BigNumber.from(pool.mainScalingFactor);
+    scalingFactors[pool.wrappedIndex] = FixedPoint.mulDown(pool.wrappedScalingFactor, pool.wrappedTokenRate);
+    scalingFactors[pool.bptIndex] = FixedPoint.ONE;
+    return scalingFactors;
+  };
+
+  /**
+   * Returns the value of one BPT in main token units, matching `getRate()`.
+   */
+  static getRate = (pool: LinearPoolState): BigNumber => {
+    const balances = ScalingHelpers.upscaleArray(pool.balances, LinearPoolQuoter.getScalingFactors(pool));
+    const totalBalance = LinearMath.calcInvariant(
+      LinearMath.toNominal(balances[pool.mainIndex], LinearPoolQuoter._params(pool)),
+      balances[pool.wrappedIndex]
+    );
+
+    // Note that we're dividing by the virtual supply, which may be zero (causing this call to revert). However, the
+    // only way for that to happen would be for all LPs to exit the Pool, and nothing prevents new LPs from
+    // joining it later on.
+    return FixedPoint.divUp(totalBalance, pool.virtualSupply);
+  };
+
+  /**
+   * Returns the amount of `indexOut` tokens received in exchange for `amountIn` tokens of `indexIn`.
+   */
+  static swapGivenIn = (pool: LinearPoolState, indexIn: number, indexOut: number, amountIn: BigNumberish): BigNumber =>
+    LinearPoolQuoter.swap(pool, SwapKind.GivenIn, indexIn, indexOut, amountIn);
+
+  /**
+   * Returns the amount of `indexIn` tokens required in exchange for `amountOut` tokens of `indexOut`.
+   */
+  static swapGivenOut = (
+    pool: LinearPoolState,
+    indexIn: number,
+    indexOut: number,
+    amountOut: BigNumberish
+  ): BigNumber => LinearPoolQuoter.swap(pool, SwapKind.GivenOut, indexIn, indexOut, amountOut);
+
+  /**
+   * Mirrors `LinearPool.onSwap`: returns the amount out for `GivenIn` swaps, and the amount in for `GivenOut` swaps.
+   * @param pool - the state of the Pool
+   * @param kind - the kind of swap
+   * @param indexIn - the registered index of the token sent to the Pool
+   * @param indexOut - the registered index of the token received from the Pool
+   * @param amount - the amount given, i.e. the amount in for `GivenIn` swaps and the amount out for `GivenOut` swaps
+   */
+  static swap = (
+    pool: LinearPoolState,
+    kind: SwapKind,
+    indexIn: number,
+    indexOut: number,
+    amount: BigNumberish
+  ): BigNumber => {
+    const totalTokens = pool.balances.length;
+    _require(indexIn < totalTokens && indexOut < totalTokens && indexIn !== indexOut, 'OUT_OF_BOUNDS');
+
+    // Upscale balances by the scaling factors (taking into account the wrapped token rate)
+    const scalingFactors = LinearPoolQuoter.getScalingFactors(pool);
+    const balances = ScalingHelpers.upscaleArray(pool.balances, scalingFactors);
+    const params = LinearPoolQuoter._params(pool);
+
+    if (kind === SwapKind.GivenIn) {
+      // The amount given is for token in, the amount calculated is for token out
+      const amountOut = LinearPoolQuoter._onSwapGivenIn(
+        pool,
+        balances,
+        params,
+        indexIn,
+        indexOut,
+        ScalingHelpers.upscale(amount, scalingFactors[indexIn])
+      );
+
+      // amountOut tokens are exiting the Pool, so we round down.
+      return ScalingHelpers.downscaleDown(amountOut, scalingFactors[indexOut]);
+    } else {
+      // The amount given is for token out, the amount calculated is for token in
+      const amountIn = LinearPoolQuoter._onSwapGivenOut(
+        pool,
+        balances,
+        params,
+        indexIn,
+        indexOut,
+        ScalingHelpers.upscale(amount, scalingFactors[indexOut])
+      );
+
+      // amountIn tokens are entering the Pool, so we round up.
+      return ScalingHelpers.downscaleUp(amountIn, scalingFactors[indexIn]);
+    }
+  };
+
+  private static _onSwapGivenIn = (
+    pool: LinearPoolState,
+    balances: BigNumber[],
+    params: LinearMathParams,
+    indexIn: number,
+    indexOut: number,
+    amountIn: BigNumber
+  ): BigNumber => {
+    const mainBalance = balances[pool.mainIndex];
+    const wrappedBalance = balances[pool.wrappedIndex];
+
+    if (indexIn === pool.bptIndex) {
+      return (indexOut === pool.mainIndex ? LinearMath.calcMainOutPerBptIn : LinearMath.calcWrappedOutPerBptIn)(
+        amountIn,
+        mainBalance,
+        wrappedBalance,
+        pool.virtualSupply,
+        params
+      );
+    } else if (indexIn === pool.mainIndex) {
+      return indexOut === pool.bptIndex
+        ? LinearMath.calcBptOutPerMainIn(amountIn, mainBalance, wrappedBalance, pool.virtualSupply, params)
+        : LinearMath.calcWrappedOutPerMainIn(amountIn, mainBalance, params);
+    } else {
+      return indexOut === pool.bptIndex
+        ? LinearMath.calcBptOutPerWrappedIn(amountIn, mainBalance, wrappedBalance, pool.virtualSupply, params)
+        : LinearMath.calcMainOutPerWrappedIn(amountIn, mainBalance, params);
+    }
+  };
+
+  private static _onSwapGivenOut = (
+    pool: LinearPoolState,
+    balances: BigNumber[],
+    params: LinearMathParams,
+    indexIn: number,
+    indexOut: number,
+    amountOut: BigNumber
+  ): BigNumber => {
+    const mainBalance = balances[pool.mainIndex];
+    const wrappedBalance = balances[pool.wrappedIndex];
+
+    if (indexOut === pool.bptIndex) {
+      return (indexIn === pool.mainIndex ? LinearMath.calcMainInPerBptOut : LinearMath.calcWrappedInPerBptOut)(
+        amountOut,
+        mainBalance,
+        wrappedBalance,
+        pool.virtualSupply,
+        params
+      );
+    } else if (indexOut === pool.mainIndex) {
+      return indexIn === pool.bptIndex
+        ? LinearMath.calcBptInPerMainOut(amountOut, mainBalance, wrappedBalance, pool.virtualSupply, params)
+        : LinearMath.calcWrappedInPerMainOut(amountOut, mainBalance, params);
+    } else {
+      return indexIn === pool.bptIndex
+        ? LinearMath.calcBptInPerWrappedOut(amountOut, mainBalance, wrappedBalance, pool.virtualSupply, params)
+        : LinearMath.calcMainInPerWrappedOut(amountOut, mainBalance, params);
+    }
+  };
+
+  private static _params = (pool: LinearPoolState): LinearMathParams => ({
+    fee: pool.swapFeePercentage,
+    lowerTarget: pool.lowerTarget,
+    upperTarget: pool.upperTarget,
+  });
+}
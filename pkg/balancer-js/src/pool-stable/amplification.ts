@@ -0,0 +1,214 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import invariant from 'tiny-invariant';
+import { _require } from '../math/errors';
+import { IntegerMath } from '../math/math';
+import { StableMath } from './math';
+
+export type AmplificationUpdate = {
+  // Values include the amplification precision, as emitted in `AmpUpdateStarted`
+  startValue: BigNumberish;
+  endValue: BigNumberish;
+  startTime: BigNumberish;
+  endTime: BigNumberish;
+};
+
+export type AmplificationState = {
+  // As returned by `getAmplificationParameter()`
+  value: BigNumberish;
+  isUpdating: boolean;
+  precision: BigNumberish;
+  // The ongoing update, as emitted in the latest `AmpUpdateStarted` event: only required if `isUpdating` is true
+  update?: AmplificationUpdate;
+};
+
+export type AmplificationUpdateStep = {
+  // The arguments of `startAmplificationParameterUpdate`, assuming it is called at `startTime`
+  rawEndValue: BigNumber;
+  endTime: BigNumber;
+  startTime: BigNumber;
+  // The minimum legal duration of the step: if it is started later than `startTime`, `endTime` must be shifted
+  duration: BigNumber;
+};
+
+// These match the limits in `StablePoolAmplification`.
+const MIN_UPDATE_TIME = 86400; // 1 day
+const MAX_AMP_UPDATE_DAILY_RATE = 2;
+
+// The full amplification range (a factor of 5000) is covered fastest in eight steps, so this leaves ample room.
+const MAX_UPDATE_STEPS = 16;
+
+/**
+ * Reproduces the amplification parameter updates of Stable Pools (`StablePoolAmplification`): interpolating the value
+ * at any point in time, validating calls to `startAmplificationParameterUpdate`, and planning multi-step updates.
+ *
+ * Invalid updates throw the encoded Balancer error the Pool would revert with (e.g. `BAL#319` for `AMP_RATE_TOO_HIGH`).
+ */
+export class StablePoolAmplification {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Returns the values `getAmplificationParameter()` would return at `timestamp`. The value includes `precision`.
+   */
+  static getAmplificationParameter = (
+    state: AmplificationState,
+    timestamp: BigNumberish
+  ): { value: BigNumber; isUpdating: boolean } => {
+    if (!state.isUpdating) return { value: BigNumber.from(state.value), isUpdating: false };
+
+    invariant(state.update !== undefined, 'Ongoing updates must be described');
+    const startValue = BigNumber.from(state.update.startValue);
+    const endValue = BigNumber.from(state.update.endValue);
+    const startTime = BigNumber.from(state.update.startTime);
+    const endTime = BigNumber.from(state.update.endTime);
+
+    const now = BigNumber.from(timestamp);
+    if (now.gte(endTime)) return { value: endValue, isUpdating: false };
+    invariant(now.gte(startTime), 'Timestamp is before the start of the update');
+
+    // The value delta is scaled by the elapsed time before dividing, rounding down in both directions.
+    const elapsed = now.sub(startTime);
+    const duration = endTime.sub(startTime);
+    const value = endValue.gt(startValue)
+      ? startValue.add(endValue.sub(startValue).mul(elapsed).div(duration))
+      : startValue.sub(startValue.sub(endValue).mul(elapsed).div(duration));
+
+    return { value, isUpdating: true };
+  };
+
+  /**
+   * Validates a call to `startAmplificationParameterUpdate(rawEndValue, endTime)` mined at `timestamp`.
+   * @param rawEndValue - the target value, not including `precision`
+   * @returns the update the Pool would start
+   */
+  static validateUpdate = (
+    state: AmplificationState,
+    rawEndValue: BigNumberish,
+    endTime: BigNumberish,
+    timestamp: BigNumberish
+  ): AmplificationUpdate => {
+    _require(BigNumber.from(rawEndValue).gte(StableMath.MIN_AMP), 'MIN_AMP');
+    _require(BigNumber.from(rawEndValue).lte(StableMath.MAX_AMP), 'MAX_AMP');
+
+    const duration = IntegerMath.sub(endTime, timestamp);
+    _require(duration.gte(MIN_UPDATE_TIME), 'AMP_END_TIME_TOO_CLOSE');
+
+    const { value: currentValue, isUpdating } = StablePoolAmplification.getAmplificationParameter(state, timestamp);
+    _require(!isUpdating, 'AMP_ONGOING_UPDATE');
+
+    const endValue = IntegerMath.mul(rawEndValue, state.precision);
+    _require(
+      StablePoolAmplification._dailyRate(currentValue, endValue, duration).lte(MAX_AMP_UPDATE_DAILY_RATE),
+      'AMP_RATE_TOO_HIGH'
+    );
+
+    return {
+      startValue: currentValue,
+      endValue,
+      startTime: BigNumber.from(timestamp),
+      endTime: BigNumber.from(endTime),
+    };
+  };
+
+  /**
+   * Returns the shortest duration of a single update from `currentValue` to `rawEndValue` the Pool accepts.
+   * @param currentValue - the value when the update starts, including `precision`
+   * @param rawEndValue - the target value, not including `precision`
+   */
+  static getMinimumDuration = (
+    currentValue: BigNumberish,
+    rawEndValue: BigNumberish,
+    precision: BigNumberish = StableMath.AMP_PRECISION
+  ): BigNumber => {
+    const endValue = IntegerMath.mul(rawEndValue, precision);
+    const [numerator, denominator] = endValue.gt(currentValue) ? [endValue, currentValue] : [currentValue, endValue];
+
+    // The daily rate rounds up, so it is within the limit if and only if 1 day * numerator <= limit * denominator *
+    // duration.
+    const duration = IntegerMath.divUp(
+      IntegerMath.mul(MIN_UPDATE_TIME, numerator),
+      IntegerMath.mul(MAX_AMP_UPDATE_DAILY_RATE, denominator)
+    );
+    return IntegerMath.max(duration, MIN_UPDATE_TIME);
+  };
+
+  /**
+   * Plans the fastest sequence of updates that reaches `rawTargetValue`, with each step starting as soon as the
+   * previous one ends. Because the rate limit only applies to each update individually, chaining several updates can
+   * be much faster than a single one.
+   *
+   * If an update is ongoing at `timestamp`, the first step starts once it ends.
+   * @param rawTargetValue - the target value, not including `precision`
+   */
+  static planUpdates = (
+    state: AmplificationState,
+    rawTargetValue: BigNumberish,
+    timestamp: BigNumberish
+  ): AmplificationUpdateStep[] => {
+    _require(BigNumber.from(rawTargetValue).gte(StableMath.MIN_AMP), 'MIN_AMP');
+    _require(BigNumber.from(rawTargetValue).lte(StableMath.MAX_AMP), 'MAX_AMP');
+
+    const { value, isUpdating } = StablePoolAmplification.getAmplificationParameter(state, timestamp);
+    const startValue = isUpdating ? BigNumber.from(state.update?.endValue) : value;
+    const startTime = isUpdating ? BigNumber.from(state.update?.endTime) : BigNumber.from(timestamp);
+
+    let fastest: AmplificationUpdateStep[] = [];
+    for (let stepCount = 1; stepCount <= MAX_UPDATE_STEPS; stepCount++) {
+      const steps = StablePoolAmplification._planSteps(
+        startValue,
+        startTime,
+        BigNumber.from(rawTargetValue),
+        BigNumber.from(state.precision),
+        stepCount
+      );
+      if (fastest.length === 0 || steps[steps.length - 1].endTime.lt(fastest[fastest.length - 1].endTime)) {
+        fastest = steps;
+      }
+    }
+
+    return fastest;
+  };
+
+  // Splits the update into `stepCount` steps of the same ratio, rounding intermediate values to integers.
+  private static _planSteps = (
+    startValue: BigNumber,
+    startTime: BigNumber,
+    rawTargetValue: BigNumber,
+    precision: BigNumber,
+    stepCount: number
+  ): AmplificationUpdateStep[] => {
+    const steps: AmplificationUpdateStep[] = [];
+    const targetValue = rawTargetValue.mul(precision);
+
+    let currentValue = startValue;
+    let currentTime = startTime;
+    for (let i = 0; i < stepCount && !currentValue.eq(targetValue); i++) {
+      // Floating point math is only used to choose the intermediate values: the durations are always exact.
+      const remainingRatio = Number(targetValue.toString()) / Number(currentValue.toString());
+      const stepRatio = Math.pow(remainingRatio, 1 / (stepCount - i));
+      const rawEndValue =
+        i === stepCount - 1
+          ? rawTargetValue
+          : BigNumber.from(Math.round((Number(currentValue.toString()) * stepRatio) / Number(precision.toString())));
+
+      const duration = StablePoolAmplification.getMinimumDuration(currentValue, rawEndValue, precision);
+      const endTime = currentTime.add(duration);
+      steps.push({ rawEndValue, startTime: currentTime, endTime, duration });
+
+      currentValue = rawEndValue.mul(precision);
+      currentTime = endTime;
+    }
+
+    return steps;
+  };
+
+  // Matches the daily rate computed in `startAmplificationParameterUpdate`, rounding up.
+  private static _dailyRate = (currentValue: BigNumber, endValue: BigNumber, duration: BigNumber): BigNumber =>
+    endValue.gt(currentValue)
+      ? IntegerMath.divUp(IntegerMath.mul(MIN_UPDATE_TIME, endValue), IntegerMath.mul(currentValue, duration))
+      : IntegerMath.divUp(IntegerMath.mul(MIN_UPDATE_TIME, currentValue), IntegerMath.mul(endValue, duration));
+}
@@ -0,0 +1,102 @@
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { BigNumber } from '@ethersproject/bignumber';
+import { BasePoolDecoder, RecoveryModeExitRequest } from '../pool-utils/decoder';
+import { StablePoolExitKind, StablePoolJoinKind, StablePoolVersion } from './encoder';
+
+export type StablePoolJoinRequest =
+  | { kind: StablePoolJoinKind.INIT; amountsIn: BigNumber[] }
+  | { kind: StablePoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT; amountsIn: BigNumber[]; minimumBPT: BigNumber }
+  | { kind: StablePoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT; bptAmountOut: BigNumber; enterTokenIndex: number }
+  | { kind: StablePoolJoinKind.ALL_TOKENS_IN_FOR_EXACT_BPT_OUT; bptAmountOut: BigNumber };
+
+export type StablePoolExitRequest =
+  | { kind: StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT; bptAmountIn: BigNumber; exitTokenIndex: number }
+  | { kind: StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT; amountsOut: BigNumber[]; maxBPTAmountIn: BigNumber }
+  | { kind: StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT; bptAmountIn: BigNumber }
+  | RecoveryModeExitRequest;
+
+// The `StablePoolExitKind` each version's exit kind values stand for, indexed by value. Legacy Stable Pools number
+// their exits differently (see `LegacyStablePoolExitKind`), and the first ComposableStablePool lacks proportional exits.
+const STABLE_POOL_EXIT_KINDS: Record<StablePoolVersion, StablePoolExitKind[]> = {
+  [StablePoolVersion.Legacy]: [
+    StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT,
+    StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT,
+    StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT,
+  ],
+  [StablePoolVersion.ComposableV1]: [
+    StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT,
+    StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT,
+  ],
+  [StablePoolVersion.ComposableV2]: [
+    StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT,
+    StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT,
+    StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT,
+  ],
+};
+
+export class StablePoolDecoder {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Decodes the userData parameter of a join into a StablePool
+   * @param userData - the encoded userData, as produced by `StablePoolEncoder`
+   * @returns the join kind together with its decoded arguments
+   */
+  static join = (userData: string): StablePoolJoinRequest => {
+    const kind = BasePoolDecoder.kind(userData);
+    switch (kind) {
+      case StablePoolJoinKind.INIT: {
+        const [, amountsIn] = defaultAbiCoder.decode(['uint256', 'uint256[]'], userData);
+        return { kind, amountsIn };
+      }
+      case StablePoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT: {
+        const [, amountsIn, minimumBPT] = defaultAbiCoder.decode(['uint256', 'uint256[]', 'uint256'], userData);
+        return { kind, amountsIn, minimumBPT };
+      }
+      case StablePoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT: {
+        const [, bptAmountOut, enterTokenIndex] = defaultAbiCoder.decode(['uint256', 'uint256', 'uint256'], userData);
+        return { kind, bptAmountOut, enterTokenIndex: enterTokenIndex.toNumber() };
+      }
+      case StablePoolJoinKind.ALL_TOKENS_IN_FOR_EXACT_BPT_OUT: {
+        const [, bptAmountOut] = defaultAbiCoder.decode(['uint256', 'uint256'], userData);
+        return { kind, bptAmountOut };
+      }
+      default:
+        throw new Error('Unhandled join kind');
+    }
+  };
+
+  /**
+   * Decodes the userData parameter of an exit from a StablePool, including the recovery mode exit
+   * @param userData - the encoded userData, as produced by `StablePoolEncoder`, `ComposableStablePoolEncoder` or
+   * `BasePoolEncoder`
+   * @param version - the version of the Stable Pool being exited, which determines how exit kinds are numbered
+   * @returns the exit kind (as a `StablePoolExitKind`, whatever the version) together with its decoded arguments
+   */
+  static exit = (userData: string, version = StablePoolVersion.ComposableV2): StablePoolExitRequest => {
+    if (BasePoolDecoder.isRecoveryModeExit(userData)) return BasePoolDecoder.recoveryModeExit(userData);
+
+    const kind = STABLE_POOL_EXIT_KINDS[version][BasePoolDecoder.kind(userData)];
+    switch (kind) {
+      case StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT: {
+        const [, bptAmountIn, exitTokenIndex] = defaultAbiCoder.decode(['uint256', 'uint256', 'uint256'], userData);
+        return { kind, bptAmountIn, exitTokenIndex: exitTokenIndex.toNumber() };
+      }
+      case StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT: {
+        const [, amountsOut, maxBPTAmountIn] = defaultAbiCoder.decode(['uint256', 'uint256[]', 'uint256'], userData);
+        return { kind, amountsOut, maxBPTAmountIn };
+      }
+      case StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT: {
+        const [, bptAmountIn] = defaultAbiCoder.decode(['uint256', 'uint256'], userData);
+        return { kind, bptAmountIn };
+      }
+      default:
+        throw new Error('Unhandled exit kind');
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import { defaultAbiCoder } from '@ethersproject/abi';
 import { BigNumberish } from '@ethersproject/bignumber';
+import invariant from 'tiny-invariant';
 
 export enum StablePoolJoinKind {
   INIT = 0,
@@ -87,3 +88,217 @@ export class StablePoolEncoder {
   static exitExactBptInForTokensOut = (bptAmountIn: BigNumberish): string =>
     defaultAbiCoder.encode(['uint256', 'uint256'], [StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT, bptAmountIn]);
 }
+
+// Stable Pools share their join kinds across versions (with ALL_TOKENS_IN_FOR_EXACT_BPT_OUT only being supported from
+// ComposableStablePool V2 onwards), but their exit kinds are numbered differently. `StablePoolExitKind` above matches
+// ComposableStablePool V2 and later, while the legacy StablePool, MetaStablePool and StablePool V2 use the enum below.
+// The first deployment of ComposableStablePool only supports the first two entries of `StablePoolExitKind`.
+export enum LegacyStablePoolExitKind {
+  EXACT_BPT_IN_FOR_ONE_TOKEN_OUT = 0,
+  EXACT_BPT_IN_FOR_TOKENS_OUT,
+  BPT_IN_FOR_EXACT_TOKENS_OUT,
+}
+
+// These match the `PoolKind` values used by the relayer's `VaultActions` to tell Stable Pool versions apart.
+export enum StablePoolVersion {
+  // StablePool, MetaStablePool and StablePool V2, none of which hold their own BPT as a token.
+  Legacy = 'Legacy',
+  // The first deployment of ComposableStablePool, prior to versioning.
+  ComposableV1 = 'ComposableV1',
+  // ComposableStablePool V2 and every later version.
+  ComposableV2 = 'ComposableV2',
+}
+
+const STABLE_POOL_JOIN_KINDS: Record<StablePoolVersion, StablePoolJoinKind[]> = {
+  [StablePoolVersion.Legacy]: [
+    StablePoolJoinKind.INIT,
+    StablePoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT,
+    StablePoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT,
+  ],
+  [StablePoolVersion.ComposableV1]: [
+    StablePoolJoinKind.INIT,
+    StablePoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT,
+    StablePoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT,
+  ],
+  [StablePoolVersion.ComposableV2]: [
+    StablePoolJoinKind.INIT,
+    StablePoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT,
+    StablePoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT,
+    StablePoolJoinKind.ALL_TOKENS_IN_FOR_EXACT_BPT_OUT,
+  ],
+};
+
+// Maps each exit (named after its `StablePoolExitKind`) to the value each version expects, if it supports it at all.
+const STABLE_POOL_EXIT_KINDS: Record<StablePoolVersion, Partial<Record<StablePoolExitKind, number>>> = {
+  [StablePoolVersion.Legacy]: {
+    [StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT]: LegacyStablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT,
+    [StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT]: LegacyStablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT,
+    [StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT]: LegacyStablePoolExitKind.EXACT_BPT_IN_FOR_TOKENS_OUT,
+  },
+  [StablePoolVersion.ComposableV1]: {
+    [StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT]: StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT,
+    [StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT]: StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT,
+  },
+  [StablePoolVersion.ComposableV2]: {
+    [StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT]: StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT,
+    [StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT]: StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT,
+    [StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT]: StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT,
+  },
+};
+
+export class ComposableStablePoolEncoder {
+  /**
+   * Creates an encoder for a specific Stable Pool version.
+   *
+   * ComposableStablePools register their own BPT as one of their tokens, but most of their userData arguments refer to
+   * the other tokens only. If `bptIndex` is provided, amounts arrays and token indices are expected in the Pool's
+   * registered token order (i.e. as returned by `getPoolTokens`, including the BPT) and the BPT entry is removed when
+   * encoding. Otherwise, they are expected to already exclude the BPT.
+   *
+   * @param version - the version of the Stable Pool to encode userData for
+   * @param bptIndex - the index of the BPT in the Pool's registered tokens, if arguments include it
+   */
+  constructor(public readonly version: StablePoolVersion, public readonly bptIndex?: number) {
+    invariant(
+      version !== StablePoolVersion.Legacy || bptIndex === undefined,
+      'Legacy Stable Pools do not register their BPT'
+    );
+  }
+
+  /**
+   * Removes the BPT entry from an array sorted in the Pool's registered token order
+   * @param items - an array with one entry per registered token, including the BPT
+   * @param bptIndex - the index of the BPT in the Pool's registered tokens
+   */
+  static dropBptItem = <T>(items: T[], bptIndex: number): T[] => {
+    invariant(bptIndex < items.length, 'BPT index out of bounds');
+    return items.filter((_, i) => i !== bptIndex);
+  };
+
+  /**
+   * Inserts an entry for the BPT into an array that excludes it, so that it matches the Pool's registered tokens
+   * @param items - an array with one entry per token, excluding the BPT
+   * @param bptIndex - the index of the BPT in the Pool's registered tokens
+   * @param bptItem - the value to insert for the BPT
+   */
+  static addBptItem = <T>(items: T[], bptIndex: number, bptItem: T): T[] => {
+    invariant(bptIndex <= items.length, 'BPT index out of bounds');
+    return [...items.slice(0, bptIndex), bptItem, ...items.slice(bptIndex)];
+  };
+
+  /**
+   * Converts the index of a token in the Pool's registered tokens into its index in arrays that exclude the BPT
+   * @param index - the index of a (non-BPT) token in the Pool's registered tokens
+   * @param bptIndex - the index of the BPT in the Pool's registered tokens
+   */
+  static skipBptIndex = (index: number, bptIndex: number): number => {
+    invariant(index !== bptIndex, 'Cannot use the BPT index');
+    return index < bptIndex ? index : index - 1;
+  };
+
+  /**
+   * Encodes the userData parameter for providing the initial liquidity to a Stable Pool.
+   * Unlike other joins, ComposableStablePool initialization requires an amount for every registered token including
+   * the BPT (the value of which is ignored), so `amountsIn` is never modified.
+   * @param amountsIn - the amounts of tokens to send to the pool to form the initial balances
+   */
+  joinInit = (amountsIn: BigNumberish[]): string => {
+    this._checkJoinKind(StablePoolJoinKind.INIT);
+    return defaultAbiCoder.encode(['uint256', 'uint256[]'], [StablePoolJoinKind.INIT, amountsIn]);
+  };
+
+  /**
+   * Encodes the userData parameter for joining a Stable Pool with exact token inputs
+   * @param amountsIn - the amounts each of token to deposit in the pool as liquidity
+   * @param minimumBPT - the minimum acceptable BPT to receive in return for deposited tokens
+   */
+  joinExactTokensInForBPTOut = (amountsIn: BigNumberish[], minimumBPT: BigNumberish): string => {
+    this._checkJoinKind(StablePoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT);
+    return defaultAbiCoder.encode(
+      ['uint256', 'uint256[]', 'uint256'],
+      [StablePoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT, this._amounts(amountsIn), minimumBPT]
+    );
+  };
+
+  /**
+   * Encodes the userData parameter for joining a Stable Pool with a single token to receive an exact amount of BPT
+   * @param bptAmountOut - the amount of BPT to be minted
+   * @param enterTokenIndex - the index of the token to be provided as liquidity
+   */
+  joinTokenInForExactBPTOut = (bptAmountOut: BigNumberish, enterTokenIndex: number): string => {
+    this._checkJoinKind(StablePoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT);
+    return defaultAbiCoder.encode(
+      ['uint256', 'uint256', 'uint256'],
+      [StablePoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT, bptAmountOut, this._tokenIndex(enterTokenIndex)]
+    );
+  };
+
+  /**
+   * Encodes the userData parameter for joining a Stable Pool proportionally
+   * @param bptAmountOut - the amount of BPT to be minted
+   */
+  joinAllTokensInForExactBptOut = (bptAmountOut: BigNumberish): string => {
+    this._checkJoinKind(StablePoolJoinKind.ALL_TOKENS_IN_FOR_EXACT_BPT_OUT);
+    return defaultAbiCoder.encode(
+      ['uint256', 'uint256'],
+      [StablePoolJoinKind.ALL_TOKENS_IN_FOR_EXACT_BPT_OUT, bptAmountOut]
+    );
+  };
+
+  /**
+   * Encodes the userData parameter for exiting a Stable Pool by removing a single token in return for an exact amount of BPT
+   * @param bptAmountIn - the amount of BPT to be burned
+   * @param exitTokenIndex - the index of the token to removed from the pool
+   */
+  exitExactBPTInForOneTokenOut = (bptAmountIn: BigNumberish, exitTokenIndex: number): string =>
+    defaultAbiCoder.encode(
+      ['uint256', 'uint256', 'uint256'],
+      [this._exitKind(StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT), bptAmountIn, this._tokenIndex(exitTokenIndex)]
+    );
+
+  /**
+   * Encodes the userData parameter for exiting a Stable Pool by removing exact amounts of tokens
+   * @param amountsOut - the amounts of each token to be withdrawn from the pool
+   * @param maxBPTAmountIn - the maximum acceptable BPT to burn in return for withdrawn tokens
+   */
+  exitBPTInForExactTokensOut = (amountsOut: BigNumberish[], maxBPTAmountIn: BigNumberish): string =>
+    defaultAbiCoder.encode(
+      ['uint256', 'uint256[]', 'uint256'],
+      [this._exitKind(StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT), this._amounts(amountsOut), maxBPTAmountIn]
+    );
+
+  /**
+   * Encodes the userData parameter for exiting a Stable Pool proportionally.
+   * Note that the first deployment of ComposableStablePool can only be exited proportionally in recovery mode
+   * (see `BasePoolEncoder.recoveryModeExit`).
+   * @param bptAmountIn - the amount of BPT to burn in exchange for withdrawn tokens
+   */
+  exitExactBptInForTokensOut = (bptAmountIn: BigNumberish): string =>
+    defaultAbiCoder.encode(
+      ['uint256', 'uint256'],
+      [this._exitKind(StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT), bptAmountIn]
+    );
+
+  private _checkJoinKind(kind: StablePoolJoinKind): void {
+    if (!STABLE_POOL_JOIN_KINDS[this.version].includes(kind)) {
+      throw new Error(`${StablePoolJoinKind[kind]} join is not supported by ${this.version} Stable Pools`);
+    }
+  }
+
+  private _exitKind(kind: StablePoolExitKind): number {
+    const versionKind = STABLE_POOL_EXIT_KINDS[this.version][kind];
+    if (versionKind === undefined) {
+      throw new Error(`${StablePoolExitKind[kind]} exit is not supported by ${this.version} Stable Pools`);
+    }
+
+    return versionKind;
+  }
+
+  private _amounts(amounts: BigNumberish[]): BigNumberish[] {
+    return this.bptIndex === undefined ? amounts : ComposableStablePoolEncoder.dropBptItem(amounts, this.bptIndex);
+  }
+
+  private _tokenIndex(index: number): number {
+    return this.bptIndex === undefined ? index : ComposableStablePoolEncoder.skipBptIndex(index, this.bptIndex);
+  }
+}
@@ -1 +1,5 @@
 export * from './encoder';
+export * from './decoder';
+export * from './math';
+export * from './quoter';
+export * from './amplification';
@@ -0,0 +1,398 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { Zero } from '@ethersproject/constants';
+import { _revert } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+import { IntegerMath } from '../math/math';
+
+const sumOf = (balances: BigNumber[]): BigNumber =>
+  balances.reduce((sum, balance) => FixedPoint.add(sum, balance), Zero);
+
+/**
+ * An exact port of `StableMath.sol`: every function returns the same value the contract would (to the wei), and
+ * throws the same Balancer error code (e.g. `BAL#321` for `STABLE_INVARIANT_DIDNT_CONVERGE`) whenever the contract
+ * would revert. Arithmetic which is unchecked in the contract is left unchecked here as well.
+ *
+ * All amounts are expected to be upscaled to 18 decimals, and must not include the BPT of Composable Stable Pools.
+ * The amplification parameter is expected to include `AMP_PRECISION`, as returned by `getAmplificationParameter`.
+ * Unlike the contract, balance arrays are never mutated.
+ */
+export class StableMath {
+  static readonly MIN_AMP = 1;
+  static readonly MAX_AMP = 5000;
+  static readonly AMP_PRECISION = 1e3;
+
+  static readonly MAX_STABLE_TOKENS = 5;
+
+  // Number of Newton-Raphson iterations after which the contract gives up.
+  private static readonly MAX_ITERATIONS = 255;
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Computes the invariant given the current balances, using the Newton-Raphson approximation, rounding down.
+   * @param amplificationParameter - the amplification parameter, including `AMP_PRECISION`
+   * @param balances - the upscaled balances of the Pool's tokens
+   */
+  static calculateInvariant = (amplificationParameter: BigNumberish, balances: BigNumberish[]): BigNumber => {
+    const _balances = balances.map((balance) => BigNumber.from(balance));
+    const numTokens = _balances.length;
+
+    const sum = sumOf(_balances);
+    if (sum.isZero()) {
+      return Zero;
+    }
+
+    let prevInvariant: BigNumber;
+    let invariant = sum;
+    const ampTimesTotal = BigNumber.from(amplificationParameter).mul(numTokens);
+
+    for (let i = 0; i < StableMath.MAX_ITERATIONS; i++) {
+      let D_P = invariant;
+
+      for (let j = 0; j < numTokens; j++) {
+        // (D_P * invariant) / (balances[j] * numTokens)
+        D_P = IntegerMath.divDown(IntegerMath.mul(D_P, invariant), IntegerMath.mul(_balances[j], numTokens));
+      }
+
+      prevInvariant = invariant;
+
+      invariant = IntegerMath.divDown(
+        IntegerMath.mul(
+          // (ampTimesTotal * sum) / AMP_PRECISION + D_P * numTokens
+          FixedPoint.add(
+            IntegerMath.divDown(IntegerMath.mul(ampTimesTotal, sum), StableMath.AMP_PRECISION),
+            IntegerMath.mul(D_P, numTokens)
+          ),
+          invariant
+        ),
+        // ((ampTimesTotal - AMP_PRECISION) * invariant) / AMP_PRECISION + (numTokens + 1) * D_P
+        FixedPoint.add(
+          IntegerMath.divDown(
+            IntegerMath.mul(ampTimesTotal.sub(StableMath.AMP_PRECISION), invariant),
+            StableMath.AMP_PRECISION
+          ),
+          IntegerMath.mul(numTokens + 1, D_P)
+        )
+      );
+
+      if (invariant.sub(prevInvariant).abs().lte(1)) {
+        return invariant;
+      }
+    }
+
+    _revert('STABLE_INVARIANT_DIDNT_CONVERGE');
+  };
+
+  /**
+   * Computes how many tokens can be taken out of a pool if `tokenAmountIn` are sent, given the current balances.
+   * Swap fees are not included: `tokenAmountIn` is expected to have had them deducted already.
+   */
+  static calcOutGivenIn = (
+    amplificationParameter: BigNumberish,
+    balances: BigNumberish[],
+    tokenIndexIn: number,
+    tokenIndexOut: number,
+    tokenAmountIn: BigNumberish,
+    invariant: BigNumberish
+  ): BigNumber => {
+    // Amount out, so we round down overall.
+    const newBalances = balances.map((balance) => BigNumber.from(balance));
+    newBalances[tokenIndexIn] = FixedPoint.add(newBalances[tokenIndexIn], tokenAmountIn);
+
+    const finalBalanceOut = StableMath.getTokenBalanceGivenInvariantAndAllOtherBalances(
+      amplificationParameter,
+      newBalances,
+      invariant,
+      tokenIndexOut
+    );
+
+    return FixedPoint.sub(FixedPoint.sub(balances[tokenIndexOut], finalBalanceOut), 1);
+  };
+
+  /**
+   * Computes how many tokens must be sent to a pool in order to take `tokenAmountOut`, given the current balances.
+   * Swap fees are not included: they are expected to be added to the result.
+   */
+  static calcInGivenOut = (
+    amplificationParameter: BigNumberish,
+    balances: BigNumberish[],
+    tokenIndexIn: number,
+    tokenIndexOut: number,
+    tokenAmountOut: BigNumberish,
+    invariant: BigNumberish
+  ): BigNumber => {
+    // Amount in, so we round up overall.
+    const newBalances = balances.map((balance) => BigNumber.from(balance));
+    newBalances[tokenIndexOut] = FixedPoint.sub(newBalances[tokenIndexOut], tokenAmountOut);
+
+    const finalBalanceIn = StableMath.getTokenBalanceGivenInvariantAndAllOtherBalances(
+      amplificationParameter,
+      newBalances,
+      invariant,
+      tokenIndexIn
+    );
+
+    return FixedPoint.add(FixedPoint.sub(finalBalanceIn, balances[tokenIndexIn]), 1);
+  };
+
+  static calcBptOutGivenExactTokensIn = (
+    amp: BigNumberish,
+    balances: BigNumberish[],
+    amountsIn: BigNumberish[],
+    bptTotalSupply: BigNumberish,
+    currentInvariant: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // BPT out, so we round down overall.
+
+    // First loop calculates the sum of all token balances, which will be used to calculate
+    // the current weights of each token, relative to this sum
+    const sumBalances = sumOf(balances.map((balance) => BigNumber.from(balance)));
+
+    // Calculate the weighted balance ratio without considering fees
+    const balanceRatiosWithFee: BigNumber[] = [];
+    // The weighted sum of token balance ratios with fee
+    let invariantRatioWithFees = Zero;
+    for (let i = 0; i < balances.length; i++) {
+      const currentWeight = FixedPoint.divDown(balances[i], sumBalances);
+      balanceRatiosWithFee[i] = FixedPoint.divDown(FixedPoint.add(balances[i], amountsIn[i]), balances[i]);
+      invariantRatioWithFees = FixedPoint.add(
+        invariantRatioWithFees,
+        FixedPoint.mulDown(balanceRatiosWithFee[i], currentWeight)
+      );
+    }
+
+    // Second loop calculates new amounts in, taking into account the fee on the percentage excess
+    const newBalances: BigNumber[] = [];
+    for (let i = 0; i < balances.length; i++) {
+      let amountInWithoutFee: BigNumber;
+
+      // Check if the balance ratio is greater than the ideal ratio to charge fees or not
+      if (balanceRatiosWithFee[i].gt(invariantRatioWithFees)) {
+        const nonTaxableAmount = FixedPoint.mulDown(
+          balances[i],
+          FixedPoint.sub(invariantRatioWithFees, FixedPoint.ONE)
+        );
+        const taxableAmount = FixedPoint.sub(amountsIn[i], nonTaxableAmount);
+        amountInWithoutFee = FixedPoint.add(
+          nonTaxableAmount,
+          FixedPoint.mulDown(taxableAmount, FixedPoint.ONE.sub(swapFeePercentage))
+        );
+      } else {
+        amountInWithoutFee = BigNumber.from(amountsIn[i]);
+      }
+
+      newBalances[i] = FixedPoint.add(balances[i], amountInWithoutFee);
+    }
+
+    const newInvariant = StableMath.calculateInvariant(amp, newBalances);
+    const invariantRatio = FixedPoint.divDown(newInvariant, currentInvariant);
+
+    // If the invariant didn't increase for any reason, we simply don't mint BPT
+    if (invariantRatio.gt(FixedPoint.ONE)) {
+      return FixedPoint.mulDown(bptTotalSupply, invariantRatio.sub(FixedPoint.ONE));
+    } else {
+      return Zero;
+    }
+  };
+
+  static calcTokenInGivenExactBptOut = (
+    amp: BigNumberish,
+    balances: BigNumberish[],
+    tokenIndex: number,
+    bptAmountOut: BigNumberish,
+    bptTotalSupply: BigNumberish,
+    currentInvariant: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // Token in, so we round up overall.
+
+    const newInvariant = FixedPoint.mulUp(
+      FixedPoint.divUp(FixedPoint.add(bptTotalSupply, bptAmountOut), bptTotalSupply),
+      currentInvariant
+    );
+
+    // Calculate amount in without fee.
+    const newBalanceTokenIndex = StableMath.getTokenBalanceGivenInvariantAndAllOtherBalances(
+      amp,
+      balances,
+      newInvariant,
+      tokenIndex
+    );
+    const amountInWithoutFee = FixedPoint.sub(newBalanceTokenIndex, balances[tokenIndex]);
+
+    // First calculate the sum of all token balances, which will be used to calculate
+    // the current weight of each token
+    const sumBalances = sumOf(balances.map((balance) => BigNumber.from(balance)));
+
+    // We can now compute how much extra balance is being deposited and used in virtual swaps, and charge swap fees
+    // accordingly.
+    const currentWeight = FixedPoint.divDown(balances[tokenIndex], sumBalances);
+    const taxablePercentage = FixedPoint.complement(currentWeight);
+    const taxableAmount = FixedPoint.mulUp(amountInWithoutFee, taxablePercentage);
+    const nonTaxableAmount = FixedPoint.sub(amountInWithoutFee, taxableAmount);
+
+    return FixedPoint.add(nonTaxableAmount, FixedPoint.divUp(taxableAmount, FixedPoint.ONE.sub(swapFeePercentage)));
+  };
+
+  /*
+  Flow of calculations:
+  amountsTokenOut -> amountsOutProportional ->
+  amountOutPercentageExcess -> amountOutBeforeFee -> newInvariant -> amountBPTIn
+  */
+  static calcBptInGivenExactTokensOut = (
+    amp: BigNumberish,
+    balances: BigNumberish[],
+    amountsOut: BigNumberish[],
+    bptTotalSupply: BigNumberish,
+    currentInvariant: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // BPT in, so we round up overall.
+
+    // First loop calculates the sum of all token balances, which will be used to calculate
+    // the current weights of each token relative to this sum
+    const sumBalances = sumOf(balances.map((balance) => BigNumber.from(balance)));
+
+    // Calculate the weighted balance ratio without considering fees
+    const balanceRatiosWithoutFee: BigNumber[] = [];
+    let invariantRatioWithoutFees = Zero;
+    for (let i = 0; i < balances.length; i++) {
+      const currentWeight = FixedPoint.divUp(balances[i], sumBalances);
+      balanceRatiosWithoutFee[i] = FixedPoint.divUp(FixedPoint.sub(balances[i], amountsOut[i]), balances[i]);
+      invariantRatioWithoutFees = FixedPoint.add(
+        invariantRatioWithoutFees,
+        FixedPoint.mulUp(balanceRatiosWithoutFee[i], currentWeight)
+      );
+    }
+
+    // Second loop calculates new amounts in, taking into account the fee on the percentage excess
+    const newBalances: BigNumber[] = [];
+    for (let i = 0; i < balances.length; i++) {
+      // Swap fees are typically charged on 'token in', but there is no 'token in' here, so we apply it to
+      // 'token out'. This results in slightly larger price impact.
+
+      let amountOutWithFee: BigNumber;
+      if (invariantRatioWithoutFees.gt(balanceRatiosWithoutFee[i])) {
+        const nonTaxableAmount = FixedPoint.mulDown(balances[i], FixedPoint.complement(invariantRatioWithoutFees));
+        const taxableAmount = FixedPoint.sub(amountsOut[i], nonTaxableAmount);
+        amountOutWithFee = FixedPoint.add(
+          nonTaxableAmount,
+          FixedPoint.divUp(taxableAmount, FixedPoint.ONE.sub(swapFeePercentage))
+        );
+      } else {
+        amountOutWithFee = BigNumber.from(amountsOut[i]);
+      }
+
+      newBalances[i] = FixedPoint.sub(balances[i], amountOutWithFee);
+    }
+
+    const newInvariant = StableMath.calculateInvariant(amp, newBalances);
+    const invariantRatio = FixedPoint.divDown(newInvariant, currentInvariant);
+
+    // return amountBPTIn
+    return FixedPoint.mulUp(bptTotalSupply, FixedPoint.complement(invariantRatio));
+  };
+
+  static calcTokenOutGivenExactBptIn = (
+    amp: BigNumberish,
+    balances: BigNumberish[],
+    tokenIndex: number,
+    bptAmountIn: BigNumberish,
+    bptTotalSupply: BigNumberish,
+    currentInvariant: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // Token out, so we round down overall.
+
+    const newInvariant = FixedPoint.mulUp(
+      FixedPoint.divUp(FixedPoint.sub(bptTotalSupply, bptAmountIn), bptTotalSupply),
+      currentInvariant
+    );
+
+    // Calculate amount out without fee
+    const newBalanceTokenIndex = StableMath.getTokenBalanceGivenInvariantAndAllOtherBalances(
+      amp,
+      balances,
+      newInvariant,
+      tokenIndex
+    );
+    const amountOutWithoutFee = FixedPoint.sub(balances[tokenIndex], newBalanceTokenIndex);
+
+    // First calculate the sum of all token balances, which will be used to calculate
+    // the current weight of each token
+    const sumBalances = sumOf(balances.map((balance) => BigNumber.from(balance)));
+
+    // We can now compute how much excess balance is being withdrawn as a result of the virtual swaps, which result
+    // in swap fees.
+    const currentWeight = FixedPoint.divDown(balances[tokenIndex], sumBalances);
+    const taxablePercentage = FixedPoint.complement(currentWeight);
+
+    // Swap fees are typically charged on 'token in', but there is no 'token in' here, so we apply it
+    // to 'token out'. This results in slightly larger price impact. Fees are rounded up.
+    const taxableAmount = FixedPoint.mulUp(amountOutWithoutFee, taxablePercentage);
+    const nonTaxableAmount = FixedPoint.sub(amountOutWithoutFee, taxableAmount);
+
+    return FixedPoint.add(nonTaxableAmount, FixedPoint.mulDown(taxableAmount, FixedPoint.ONE.sub(swapFeePercentage)));
+  };
+
+  /**
+   * Computes the balance of the token at `tokenIndex` given all the other balances and the invariant, rounding up.
+   * The balance at `tokenIndex` itself is only used to seed the iteration.
+   */
+  static getTokenBalanceGivenInvariantAndAllOtherBalances = (
+    amplificationParameter: BigNumberish,
+    balances: BigNumberish[],
+    invariant: BigNumberish,
+    tokenIndex: number
+  ): BigNumber => {
+    // Rounds result up overall
+    const _balances = balances.map((balance) => BigNumber.from(balance));
+
+    const ampTimesTotal = BigNumber.from(amplificationParameter).mul(_balances.length);
+    let sum = _balances[0];
+    let P_D = _balances[0].mul(_balances.length);
+    for (let j = 1; j < _balances.length; j++) {
+      P_D = IntegerMath.divDown(IntegerMath.mul(IntegerMath.mul(P_D, _balances[j]), _balances.length), invariant);
+      sum = FixedPoint.add(sum, _balances[j]);
+    }
+    sum = sum.sub(_balances[tokenIndex]);
+
+    const inv2 = IntegerMath.mul(invariant, invariant);
+    // We remove the balance from c by multiplying it
+    const c = IntegerMath.mul(
+      IntegerMath.mul(IntegerMath.divUp(inv2, IntegerMath.mul(ampTimesTotal, P_D)), StableMath.AMP_PRECISION),
+      _balances[tokenIndex]
+    );
+    const b = FixedPoint.add(
+      sum,
+      IntegerMath.mul(IntegerMath.divDown(invariant, ampTimesTotal), StableMath.AMP_PRECISION)
+    );
+
+    // We iterate to find the balance
+    let prevTokenBalance: BigNumber;
+    // We multiply the first iteration outside the loop with the invariant to set the value of the
+    // initial approximation.
+    let tokenBalance = IntegerMath.divUp(FixedPoint.add(inv2, c), FixedPoint.add(invariant, b));
+
+    for (let i = 0; i < StableMath.MAX_ITERATIONS; i++) {
+      prevTokenBalance = tokenBalance;
+
+      tokenBalance = IntegerMath.divUp(
+        FixedPoint.add(IntegerMath.mul(tokenBalance, tokenBalance), c),
+        FixedPoint.sub(FixedPoint.add(IntegerMath.mul(tokenBalance, 2), b), invariant)
+      );
+
+      if (tokenBalance.sub(prevTokenBalance).abs().lte(1)) {
+        return tokenBalance;
+      }
+    }
+
+    _revert('STABLE_GET_BALANCE_DIDNT_CONVERGE');
+  };
+}
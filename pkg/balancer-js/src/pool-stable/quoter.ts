@@ -0,0 +1,114 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import invariant from 'tiny-invariant';
+import { _require } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+import { ScalingHelpers } from '../math/scaling';
+import { ComposableStablePoolEncoder } from './encoder';
+import { StableMath } from './math';
+
+export type ComposableStablePoolState = {
+  // Current amplification parameter, including `StableMath.AMP_PRECISION`
+  amplificationParameter: BigNumberish;
+  // Balances of all registered tokens (including BPT) as reported by the Vault, i.e. not upscaled
+  balances: BigNumberish[];
+  // Scaling factors of all registered tokens, including token rates (see `ScalingHelpers.computeScalingFactorWithRate`)
+  scalingFactors: BigNumberish[];
+  bptIndex: number;
+  swapFeePercentage: BigNumberish;
+};
+
+/**
+ * Computes exact quotes for swaps between the (non-BPT) tokens of a Composable Stable Pool, reproducing the scaling,
+ * rate and swap fee handling of `BaseGeneralPool` and `ComposableStablePool`.
+ *
+ * Token indices refer to the full set of registered tokens, including BPT, in the same way as the Vault's.
+ */
+export class ComposableStablePoolQuoter {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Returns the amount of `indexOut` tokens received in exchange for `amountIn` tokens of `indexIn`.
+   * @param pool - the state of the Pool
+   * @param indexIn - the registered index of the token sent to the Pool
+   * @param indexOut - the registered index of the token received from the Pool
+   * @param amountIn - the amount of tokens sent, before fees
+   */
+  static swapGivenIn = (
+    pool: ComposableStablePoolState,
+    indexIn: number,
+    indexOut: number,
+    amountIn: BigNumberish
+  ): BigNumber => {
+    ComposableStablePoolQuoter._validateIndexes(pool, indexIn, indexOut);
+
+    // Fees are subtracted before scaling, to reduce the complexity of the rounding direction analysis.
+    const amountInWithoutFee = FixedPoint.sub(amountIn, FixedPoint.mulUp(amountIn, pool.swapFeePercentage));
+    const scaledAmountIn = ScalingHelpers.upscale(amountInWithoutFee, pool.scalingFactors[indexIn]);
+
+    const { balances, currentInvariant } = ComposableStablePoolQuoter._scaledState(pool);
+    const amountOut = StableMath.calcOutGivenIn(
+      pool.amplificationParameter,
+      balances,
+      ComposableStablePoolEncoder.skipBptIndex(indexIn, pool.bptIndex),
+      ComposableStablePoolEncoder.skipBptIndex(indexOut, pool.bptIndex),
+      scaledAmountIn,
+      currentInvariant
+    );
+
+    // amountOut tokens are exiting the Pool, so we round down.
+    return ScalingHelpers.downscaleDown(amountOut, pool.scalingFactors[indexOut]);
+  };
+
+  /**
+   * Returns the amount of `indexIn` tokens (fees included) required in exchange for `amountOut` tokens of `indexOut`.
+   * @param pool - the state of the Pool
+   * @param indexIn - the registered index of the token sent to the Pool
+   * @param indexOut - the registered index of the token received from the Pool
+   * @param amountOut - the amount of tokens received
+   */
+  static swapGivenOut = (
+    pool: ComposableStablePoolState,
+    indexIn: number,
+    indexOut: number,
+    amountOut: BigNumberish
+  ): BigNumber => {
+    ComposableStablePoolQuoter._validateIndexes(pool, indexIn, indexOut);
+
+    const scaledAmountOut = ScalingHelpers.upscale(amountOut, pool.scalingFactors[indexOut]);
+
+    const { balances, currentInvariant } = ComposableStablePoolQuoter._scaledState(pool);
+    const amountIn = StableMath.calcInGivenOut(
+      pool.amplificationParameter,
+      balances,
+      ComposableStablePoolEncoder.skipBptIndex(indexIn, pool.bptIndex),
+      ComposableStablePoolEncoder.skipBptIndex(indexOut, pool.bptIndex),
+      scaledAmountOut,
+      currentInvariant
+    );
+
+    // amountIn tokens are entering the Pool, so we round up.
+    const downscaledAmountIn = ScalingHelpers.downscaleUp(amountIn, pool.scalingFactors[indexIn]);
+
+    // Fees are added after scaling happens, to reduce the complexity of the rounding direction analysis.
+    return FixedPoint.divUp(downscaledAmountIn, FixedPoint.complement(pool.swapFeePercentage));
+  };
+
+  private static _validateIndexes = (pool: ComposableStablePoolState, indexIn: number, indexOut: number): void => {
+    const totalTokens = pool.balances.length;
+    _require(indexIn < totalTokens && indexOut < totalTokens, 'OUT_OF_BOUNDS');
+    invariant(indexIn !== pool.bptIndex && indexOut !== pool.bptIndex, 'Swaps involving BPT are not supported');
+  };
+
+  private static _scaledState = (
+    pool: ComposableStablePoolState
+  ): { balances: BigNumber[]; currentInvariant: BigNumber } => {
+    const scaledBalances = ScalingHelpers.upscaleArray(pool.balances, pool.scalingFactors);
+    const balances = ComposableStablePoolEncoder.dropBptItem(scaledBalances, pool.bptIndex);
+    return { balances, currentInvariant: StableMath.calculateInvariant(pool.amplificationParameter, balances) };
+  };
+}
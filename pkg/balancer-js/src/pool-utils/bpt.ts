@@ -0,0 +1,155 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { Zero } from '@ethersproject/constants';
+import invariant from 'tiny-invariant';
+import { _require } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+import { ScalingHelpers } from '../math/scaling';
+import { PoolType, TotalSupplyType } from '../types';
+
+export type BptPoolState = {
+  type: PoolType;
+  // Balances of all registered tokens as reported by the Vault, including the BPT of composable Pools
+  balances: BigNumberish[];
+  // As returned by `getScalingFactors()`, including the BPT of composable Pools
+  scalingFactors: BigNumberish[];
+  // The registered index of the BPT in composable Pools (Managed, Composable Stable and Linear Pools)
+  bptIndex?: number;
+  // The supply of the type returned by `BptHelpers.getTotalSupplyType`
+  supply: BigNumberish;
+};
+
+/**
+ * Computes the token amounts of proportional joins and exits (`ALL_TOKENS_IN_FOR_EXACT_BPT_OUT` and
+ * `EXACT_BPT_IN_FOR_TOKENS_OUT`, as well as Recovery Mode exits), and values BPT from the prices of the Pool's tokens.
+ *
+ * Pools measure their BPT supply in different ways: composable Pools hold preminted BPT which is not in circulation,
+ * and most Pools owe protocol (or management) fees in the form of BPT which is minted before joins and exits. Using
+ * the wrong supply (typically `totalSupply()`) results in incorrect amounts, so `getTotalSupplyType` should be used to
+ * pick the right one.
+ */
+export class BptHelpers {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Returns the supply which Pools of type `poolType` use for proportional joins and exits, and which BPT should be
+   * valued against.
+   * @param poolType - the type of Pool
+   * @param recoveryMode - whether the supply is used for Recovery Mode exits, which ignore unminted fees
+   */
+  static getTotalSupplyType = (poolType: PoolType, recoveryMode = false): TotalSupplyType => {
+    switch (poolType) {
+      case PoolType.Weighted:
+        return recoveryMode ? TotalSupplyType.TotalSupply : TotalSupplyType.ActualSupply;
+      case PoolType.LiquidityBootstrapping:
+        return TotalSupplyType.TotalSupply;
+      case PoolType.Managed:
+      case PoolType.ComposableStable:
+        return recoveryMode ? TotalSupplyType.VirtualSupply : TotalSupplyType.ActualSupply;
+      case PoolType.Linear:
+        return TotalSupplyType.VirtualSupply;
+    }
+  };
+
+  /**
+   * Computes the amounts of each token required to join a Pool with `ALL_TOKENS_IN_FOR_EXACT_BPT_OUT`, rounding up as
+   * `BasePoolMath.computeProportionalAmountsIn` does.
+   * @param pool - the state of the Pool, with the supply returned by `getTotalSupplyType(pool.type)`
+   * @param bptAmountOut - the amount of BPT to receive
+   * @returns the amounts of all registered tokens, which are zero for the BPT of composable Pools
+   */
+  static getProportionalAmountsIn = (pool: BptPoolState, bptAmountOut: BigNumberish): BigNumber[] => {
+    invariant(pool.type !== PoolType.Linear, 'Linear Pools do not support proportional joins');
+
+    const { balances, scalingFactors } = BptHelpers._dropBpt(pool);
+    const upscaledBalances = ScalingHelpers.upscaleArray(balances, scalingFactors);
+
+    // Since we're computing amounts in, we round up overall.
+    const bptRatio = FixedPoint.divUp(bptAmountOut, pool.supply);
+    const amountsIn = upscaledBalances.map((balance, i) =>
+      ScalingHelpers.downscaleUp(FixedPoint.mulUp(balance, bptRatio), scalingFactors[i])
+    );
+
+    return BptHelpers._addBpt(pool, amountsIn);
+  };
+
+  /**
+   * Computes the amounts of each token received when exiting a Pool with `EXACT_BPT_IN_FOR_TOKENS_OUT` (or in Recovery
+   * Mode), rounding down as `BasePoolMath.computeProportionalAmountsOut` does.
+   *
+   * Recovery Mode exits ignore scaling factors. Note that Managed Pools only pay out their cash balances in Recovery
+   * Mode, so their balances should exclude any managed amounts.
+   * @param pool - the state of the Pool, with the supply returned by `getTotalSupplyType(pool.type, recoveryMode)`
+   * @param bptAmountIn - the amount of BPT to burn
+   * @param recoveryMode - whether this is a Recovery Mode exit
+   * @returns the amounts of all registered tokens, which are zero for the BPT of composable Pools
+   */
+  static getProportionalAmountsOut = (
+    pool: BptPoolState,
+    bptAmountIn: BigNumberish,
+    recoveryMode = false
+  ): BigNumber[] => {
+    invariant(
+      recoveryMode || pool.type !== PoolType.Linear,
+      'Linear Pools only support proportional exits in Recovery Mode'
+    );
+
+    const { balances, scalingFactors } = BptHelpers._dropBpt(pool);
+
+    // Since we're computing amounts out, we round down overall.
+    const bptRatio = FixedPoint.divDown(bptAmountIn, pool.supply);
+    const amountsOut = recoveryMode
+      ? balances.map((balance) => FixedPoint.mulDown(balance, bptRatio))
+      : ScalingHelpers.upscaleArray(balances, scalingFactors).map((balance, i) =>
+          ScalingHelpers.downscaleDown(FixedPoint.mulDown(balance, bptRatio), scalingFactors[i])
+        );
+
+    return BptHelpers._addBpt(pool, amountsOut);
+  };
+
+  /**
+   * Computes the price of one BPT from the prices of the Pool's tokens, rounding down.
+   * @param pool - the state of the Pool, with the supply returned by `getTotalSupplyType(pool.type)`
+   * @param prices - the prices of whole units of each registered token as 18 decimal fixed point values (the entry for
+   * the BPT of composable Pools is ignored)
+   * @param decimals - the decimals of each registered token
+   */
+  static getBptPrice = (pool: BptPoolState, prices: BigNumberish[], decimals: number[]): BigNumber => {
+    _require(
+      prices.length === pool.balances.length && decimals.length === pool.balances.length,
+      'INPUT_LENGTH_MISMATCH'
+    );
+
+    const value = pool.balances.reduce<BigNumber>((total, balance, i) => {
+      if (i === pool.bptIndex) return total;
+      const normalizedBalance = ScalingHelpers.upscale(balance, ScalingHelpers.computeScalingFactor(decimals[i]));
+      return FixedPoint.add(total, FixedPoint.mulDown(normalizedBalance, prices[i]));
+    }, Zero);
+
+    return FixedPoint.divDown(value, pool.supply);
+  };
+
+  private static _dropBpt = (pool: BptPoolState): { balances: BigNumberish[]; scalingFactors: BigNumberish[] } => {
+    _require(pool.balances.length === pool.scalingFactors.length, 'INPUT_LENGTH_MISMATCH');
+    invariant(
+      pool.bptIndex !== undefined ||
+        ![PoolType.Managed, PoolType.ComposableStable, PoolType.Linear].includes(pool.type),
+      'The BPT index of composable Pools must be provided'
+    );
+    if (pool.bptIndex === undefined) return { balances: pool.balances, scalingFactors: pool.scalingFactors };
+
+    return {
+      balances: pool.balances.filter((_, i) => i !== pool.bptIndex),
+      scalingFactors: pool.scalingFactors.filter((_, i) => i !== pool.bptIndex),
+    };
+  };
+
+  private static _addBpt = (pool: BptPoolState, amounts: BigNumber[]): BigNumber[] => {
+    if (pool.bptIndex === undefined) return amounts;
+    return [...amounts.slice(0, pool.bptIndex), Zero, ...amounts.slice(pool.bptIndex)];
+  };
+}
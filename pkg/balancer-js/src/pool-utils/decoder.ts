@@ -0,0 +1,44 @@
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { BigNumber } from '@ethersproject/bignumber';
+import { BasePoolExitKind } from './encoder';
+
+export type RecoveryModeExitRequest = {
+  kind: BasePoolExitKind.RECOVERY_MODE;
+  bptAmountIn: BigNumber;
+};
+
+export class BasePoolDecoder {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Extracts the join or exit kind from a userData parameter, which is always encoded in its first word
+   * @param userData - the encoded userData of a join or exit
+   * @returns the numeric join or exit kind
+   */
+  static kind = (userData: string): number => {
+    const [kind] = defaultAbiCoder.decode(['uint256'], userData);
+    return (kind as BigNumber).toNumber();
+  };
+
+  /**
+   * Tests whether a userData parameter encodes the special exit available to all Pools in recovery mode.
+   * This matches `BasePoolUserData.isRecoveryModeExitKind`, including the "no data" case.
+   * @param userData - the encoded userData of an exit
+   */
+  static isRecoveryModeExit = (userData: string): boolean =>
+    userData !== '0x' && BasePoolDecoder.kind(userData) === BasePoolExitKind.RECOVERY_MODE;
+
+  /**
+   * Decodes the userData parameter for exiting any Pool in recovery mode
+   * @param userData - the encoded userData, as produced by `BasePoolEncoder.recoveryModeExit`
+   */
+  static recoveryModeExit = (userData: string): RecoveryModeExitRequest => {
+    const [, bptAmountIn] = defaultAbiCoder.decode(['uint256', 'uint256'], userData);
+    return { kind: BasePoolExitKind.RECOVERY_MODE, bptAmountIn };
+  };
+}
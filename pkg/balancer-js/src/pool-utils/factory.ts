@@ -0,0 +1,30 @@
+import { getCreate2Address } from '@ethersproject/address';
+import { hexConcat } from '@ethersproject/bytes';
+import { keccak256 } from '@ethersproject/keccak256';
+
+export type PoolCreationCode =
+  // The factory's creation code as returned by `getCreationCode()`, or the code of the two contracts returned by
+  // `getCreationCodeContracts()`, which hold its two halves.
+  | { creationCode: string | [string, string]; constructorArgs: string }
+  // The hash of the creation code followed by the ABI encoded constructor arguments
+  | { initCodeHash: string };
+
+/**
+ * Predicts the address of a pool created by a factory deriving from `BaseSplitCodeFactory`, which deploys pools
+ * with CREATE2 using the creation code followed by the constructor arguments.
+ *
+ * Note that these factories pass `salt` to CREATE2 unchanged, so the address doesn't depend on the account calling
+ * the factory.
+ * @param factory - the address of the pool factory
+ * @param code - the creation code and ABI encoded constructor arguments, or the hash of both
+ * @param salt - the bytes32 salt passed to the factory's `create` function
+ * @returns the address the pool will be deployed at
+ */
+export const predictPoolAddress = (factory: string, code: PoolCreationCode, salt: string): string => {
+  const initCodeHash =
+    'initCodeHash' in code
+      ? code.initCodeHash
+      : keccak256(hexConcat([...([] as string[]).concat(code.creationCode), code.constructorArgs]));
+
+  return getCreate2Address(factory, salt, initCodeHash);
+};
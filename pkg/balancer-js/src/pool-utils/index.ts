@@ -1,2 +1,7 @@
 export * from './poolId';
+export * from './factory';
 export * from './encoder';
+export * from './decoder';
+export * from './userData';
+export * from './bpt';
+export * from './protocolFees';
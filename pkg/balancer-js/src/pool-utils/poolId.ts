@@ -1,7 +1,23 @@
-import { BigNumber } from '@ethersproject/bignumber';
+import { getAddress } from '@ethersproject/address';
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { hexConcat, hexValue, hexZeroPad } from '@ethersproject/bytes';
 import { PoolSpecialization } from '../types';
 import invariant from 'tiny-invariant';
 
+/**
+ * Builds a poolId from its components, as the Vault does when a pool is registered
+ * @param address - the pool's address
+ * @param specialization - the pool's specialization
+ * @param nonce - the number of pools registered in the Vault before this one
+ * @returns a bytes32 string of the pool's ID
+ */
+export const buildPoolId = (address: string, specialization: PoolSpecialization, nonce: BigNumberish): string => {
+  invariant(specialization in PoolSpecialization, 'Invalid pool specialization');
+  invariant(BigNumber.from(nonce).gte(0) && hexValue(nonce).length <= 22, 'Invalid pool nonce');
+
+  return hexConcat([getAddress(address), hexZeroPad(hexValue(specialization), 2), hexZeroPad(hexValue(nonce), 10)]);
+};
+
 /**
  * Splits a poolId into its components, i.e. pool address, pool specialization and its nonce
  * @param poolId - a bytes32 string of the pool's ID
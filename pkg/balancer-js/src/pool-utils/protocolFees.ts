@@ -0,0 +1,293 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { Zero } from '@ethersproject/constants';
+import invariant from 'tiny-invariant';
+import { FixedPoint } from '../math/fixedPoint';
+import { IntegerMath } from '../math/math';
+import { StableMath } from '../pool-stable/math';
+import { WeightedMath } from '../pool-weighted/math';
+import { ProtocolFeeType } from '../types';
+
+// The cached protocol fee percentages of a Pool, as returned by `getProtocolFeePercentageCache`. Missing fee types
+// are taken to be zero.
+export type ProtocolFeePercentages = Partial<Record<ProtocolFeeType, BigNumberish>>;
+
+export type WeightedPoolFeeState = {
+  // Balances upscaled with `getScalingFactors()`
+  balances: BigNumberish[];
+  normalizedWeights: BigNumberish[];
+  totalSupply: BigNumberish;
+  // As returned by `getLastPostJoinExitInvariant()`
+  lastPostJoinExitInvariant: BigNumberish;
+  // As returned by `getATHRateProduct()`
+  athRateProduct: BigNumberish;
+  // The current rate of each token's rate provider, or `undefined` for tokens without one. Pools with no rate
+  // providers are exempt from yield fees.
+  rates: (BigNumberish | undefined)[];
+};
+
+export type ComposableStableTokenRate = {
+  // As returned by `getTokenRateCache()`
+  rate: BigNumberish;
+  oldRate: BigNumberish;
+  // As returned by `isTokenExemptFromYieldProtocolFee()`
+  exemptFromYieldFees: boolean;
+};
+
+export type ComposableStablePoolFeeState = {
+  // Balances upscaled with `getScalingFactors()`, excluding the BPT
+  balances: BigNumberish[];
+  // `totalSupply()` minus the Pool's BPT balance in the Vault (as returned by `getPoolTokens`). Note that this is not
+  // `getActualSupply()`, which already includes the protocol fees being estimated.
+  virtualSupply: BigNumberish;
+  // As returned by `getLastJoinExitData()`
+  lastJoinExitAmplification: BigNumberish;
+  lastPostJoinExitInvariant: BigNumberish;
+  // The rate cache of each token (excluding the BPT), or `undefined` for tokens without a rate provider
+  tokenRates: (ComposableStableTokenRate | undefined)[];
+};
+
+export type ManagedPoolFeeState = {
+  // `totalSupply()` minus the cash and managed balances of the Pool's BPT in the Vault (as returned by
+  // `getPoolTokenInfo`). Note that this is not `getActualSupply()`, which already includes the AUM fees being estimated.
+  virtualSupply: BigNumberish;
+  // As returned by `getManagementAumFeeParams()`
+  aumFeePercentage: BigNumberish;
+  lastCollectionTimestamp: BigNumberish;
+};
+
+export type ProtocolFeeAmounts = {
+  // BPT due to the protocol for each fee type
+  swap: BigNumber;
+  yield: BigNumber;
+  aum: BigNumber;
+  // BPT minted to the ProtocolFeesCollector
+  protocol: BigNumber;
+  // BPT minted to the Pool owner as management AUM fees
+  manager: BigNumber;
+  // All BPT minted
+  total: BigNumber;
+};
+
+/**
+ * Estimates the BPT a Pool would mint in protocol fees if they were collected right now (e.g. by a join or exit), which
+ * is useful to account for fees which have accrued but not yet been minted.
+ *
+ * Weighted and Composable Stable Pools charge swap and yield fees on the growth of their invariant since the last join
+ * or exit, and mint a single amount of BPT for both: it is apportioned between the two fee types in proportion to
+ * their share of the Pool. Managed Pools charge AUM fees over the time elapsed since the last collection, and split
+ * them between the protocol and the Pool owner.
+ *
+ * All computations match those of the contracts to the wei, given the same state.
+ */
+export class ProtocolFeeEstimator {
+  // AUM fee percentages are yearly: this matches `365 days` in `ExternalAUMFees`.
+  private static readonly YEAR = 365 * 24 * 3600;
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Computes the protocol fees due by a Weighted Pool, as `WeightedPoolProtocolFees` does before joins and exits.
+   * @param pool - the state of the Pool
+   * @param percentages - the Pool's cached protocol fee percentages
+   */
+  static estimateWeightedPoolFees = (
+    pool: WeightedPoolFeeState,
+    percentages: ProtocolFeePercentages
+  ): ProtocolFeeAmounts => {
+    invariant(pool.balances.length === pool.normalizedWeights.length, 'balances and weights length mismatch');
+    invariant(pool.rates.length === pool.normalizedWeights.length, 'rates and weights length mismatch');
+
+    const currentInvariant = WeightedMath.calculateInvariant(pool.normalizedWeights, pool.balances);
+    const swapPercentage = ProtocolFeeEstimator._getProtocolOwnershipPercentage(
+      FixedPoint.divDown(currentInvariant, pool.lastPostJoinExitInvariant),
+      FixedPoint.ONE,
+      ProtocolFeeEstimator._getPercentage(percentages, ProtocolFeeType.Swap)
+    );
+
+    let yieldPercentage = Zero;
+    if (pool.rates.some((rate) => rate !== undefined)) {
+      const rateProduct = pool.rates.reduce<BigNumber>(
+        (product, rate, i) =>
+          FixedPoint.mulDown(
+            product,
+            rate === undefined ? FixedPoint.ONE : FixedPoint.powDown(rate, pool.normalizedWeights[i])
+          ),
+        FixedPoint.ONE
+      );
+
+      // Yield fees are only charged once the all time high rate product is exceeded.
+      if (rateProduct.gt(pool.athRateProduct)) {
+        yieldPercentage = ProtocolFeeEstimator._getProtocolOwnershipPercentage(
+          FixedPoint.divDown(rateProduct, pool.athRateProduct),
+          FixedPoint.ONE,
+          ProtocolFeeEstimator._getPercentage(percentages, ProtocolFeeType.Yield)
+        );
+      }
+    }
+
+    return ProtocolFeeEstimator._splitInvariantGrowthFees(pool.totalSupply, swapPercentage, yieldPercentage);
+  };
+
+  /**
+   * Computes the protocol fees due by a Composable Stable Pool, as `ComposableStablePoolProtocolFees` does before
+   * joins and exits.
+   * @param pool - the state of the Pool
+   * @param percentages - the Pool's cached protocol fee percentages
+   */
+  static estimateComposableStablePoolFees = (
+    pool: ComposableStablePoolFeeState,
+    percentages: ProtocolFeePercentages
+  ): ProtocolFeeAmounts => {
+    invariant(pool.balances.length === pool.tokenRates.length, 'balances and token rates length mismatch');
+
+    const amp = pool.lastJoinExitAmplification;
+    const rateProviders = pool.tokenRates.filter((rate): rate is ComposableStableTokenRate => rate !== undefined);
+    const noTokensExempt = rateProviders.every((rate) => !rate.exemptFromYieldFees);
+    const allTokensExempt = rateProviders.every((rate) => rate.exemptFromYieldFees);
+
+    // Undoing the rate changes of all tokens leaves only the growth due to swap fees, and undoing those of exempt
+    // tokens only leaves the growth on which fees are charged.
+    const totalGrowthInvariant = StableMath.calculateInvariant(amp, pool.balances);
+    const swapFeeGrowthInvariant = StableMath.calculateInvariant(amp, ProtocolFeeEstimator._adjustBalances(pool, true));
+    let totalNonExemptGrowthInvariant: BigNumber;
+    if (noTokensExempt) {
+      totalNonExemptGrowthInvariant = totalGrowthInvariant;
+    } else if (allTokensExempt) {
+      totalNonExemptGrowthInvariant = swapFeeGrowthInvariant;
+    } else {
+      totalNonExemptGrowthInvariant = StableMath.calculateInvariant(amp, ProtocolFeeEstimator._adjustBalances(pool));
+    }
+
+    const swapFeeGrowthInvariantDelta = IntegerMath.max(swapFeeGrowthInvariant.sub(pool.lastPostJoinExitInvariant), 0);
+    const nonExemptYieldGrowthInvariantDelta = IntegerMath.max(
+      totalNonExemptGrowthInvariant.sub(swapFeeGrowthInvariant),
+      0
+    );
+
+    const swapPercentage = FixedPoint.mulDown(
+      FixedPoint.divDown(swapFeeGrowthInvariantDelta, totalGrowthInvariant),
+      ProtocolFeeEstimator._getPercentage(percentages, ProtocolFeeType.Swap)
+    );
+    const yieldPercentage = FixedPoint.mulDown(
+      FixedPoint.divDown(nonExemptYieldGrowthInvariantDelta, totalGrowthInvariant),
+      ProtocolFeeEstimator._getPercentage(percentages, ProtocolFeeType.Yield)
+    );
+
+    return ProtocolFeeEstimator._splitInvariantGrowthFees(pool.virtualSupply, swapPercentage, yieldPercentage);
+  };
+
+  /**
+   * Computes the AUM fees due by a Managed Pool, as `ManagedPoolSettings` does when collecting them. The protocol takes
+   * its share of these (rounding up), and the rest is paid to the Pool owner.
+   * @param pool - the state of the Pool
+   * @param percentages - the Pool's cached protocol fee percentages
+   * @param timestamp - the time at which fees are collected
+   */
+  static estimateManagedPoolAumFees = (
+    pool: ManagedPoolFeeState,
+    percentages: ProtocolFeePercentages,
+    timestamp: BigNumberish
+  ): ProtocolFeeAmounts => {
+    const bptAmount = ProtocolFeeEstimator.getAumFeesBptAmount(
+      pool.virtualSupply,
+      timestamp,
+      pool.lastCollectionTimestamp,
+      pool.aumFeePercentage
+    );
+
+    const protocolBptAmount = FixedPoint.mulUp(
+      bptAmount,
+      ProtocolFeeEstimator._getPercentage(percentages, ProtocolFeeType.Aum)
+    );
+
+    return {
+      swap: Zero,
+      yield: Zero,
+      aum: protocolBptAmount,
+      protocol: protocolBptAmount,
+      manager: bptAmount.sub(protocolBptAmount),
+      total: bptAmount,
+    };
+  };
+
+  /**
+   * Computes the BPT to mint in AUM fees accrued since the last collection, as `ExternalAUMFees.getAumFeesBptAmount`
+   * does. The yearly fee is converted to BPT and then scaled by the elapsed time, assuming a constant supply.
+   * @param totalSupply - the supply of the Pool
+   * @param currentTime - the time at which fees are collected
+   * @param lastCollection - the time of the last collection
+   * @param annualAumFeePercentage - the yearly AUM fee percentage
+   */
+  static getAumFeesBptAmount = (
+    totalSupply: BigNumberish,
+    currentTime: BigNumberish,
+    lastCollection: BigNumberish,
+    annualAumFeePercentage: BigNumberish
+  ): BigNumber => {
+    const elapsedTime = BigNumber.from(currentTime).sub(lastCollection);
+    if (elapsedTime.lte(0) || BigNumber.from(annualAumFeePercentage).isZero()) return Zero;
+
+    const annualBptAmount = ProtocolFeeEstimator.bptForPoolOwnershipPercentage(totalSupply, annualAumFeePercentage);
+    return IntegerMath.divDown(IntegerMath.mul(annualBptAmount, elapsedTime), ProtocolFeeEstimator.YEAR);
+  };
+
+  /**
+   * Computes the BPT to mint so that its holder owns `poolOwnershipPercentage` of the Pool, as
+   * `ExternalFees.bptForPoolOwnershipPercentage` does.
+   * @param totalSupply - the supply of the Pool before minting
+   * @param poolOwnershipPercentage - the share of the Pool to mint, as an 18 decimal fixed point number
+   */
+  static bptForPoolOwnershipPercentage = (
+    totalSupply: BigNumberish,
+    poolOwnershipPercentage: BigNumberish
+  ): BigNumber =>
+    IntegerMath.divDown(
+      IntegerMath.mul(totalSupply, poolOwnershipPercentage),
+      FixedPoint.complement(poolOwnershipPercentage)
+    );
+
+  // A port of `InvariantGrowthProtocolSwapFees.getProtocolOwnershipPercentage`
+  private static _getProtocolOwnershipPercentage = (
+    invariantGrowthRatio: BigNumber,
+    supplyGrowthRatio: BigNumber,
+    protocolFeePercentage: BigNumber
+  ): BigNumber => {
+    if (supplyGrowthRatio.gte(invariantGrowthRatio) || protocolFeePercentage.isZero()) return Zero;
+
+    return FixedPoint.mulDown(
+      FixedPoint.sub(FixedPoint.ONE, FixedPoint.divDown(supplyGrowthRatio, invariantGrowthRatio)),
+      protocolFeePercentage
+    );
+  };
+
+  // Mints a single amount of BPT for swap and yield fees as the contracts do, and apportions it between them.
+  private static _splitInvariantGrowthFees = (
+    totalSupply: BigNumberish,
+    swapPercentage: BigNumber,
+    yieldPercentage: BigNumber
+  ): ProtocolFeeAmounts => {
+    const totalPercentage = swapPercentage.add(yieldPercentage);
+    const total = ProtocolFeeEstimator.bptForPoolOwnershipPercentage(totalSupply, totalPercentage);
+    const swap = total.isZero() ? Zero : total.mul(swapPercentage).div(totalPercentage);
+
+    return { swap, yield: total.sub(swap), aum: Zero, protocol: total, manager: Zero, total };
+  };
+
+  // Computes `balance * oldRate / currentRate` for exempt tokens, or for all tokens with a rate provider if
+  // `ignoreExemptFlags` is set. This undoes the effect of rate changes since the last join or exit.
+  private static _adjustBalances = (pool: ComposableStablePoolFeeState, ignoreExemptFlags = false): BigNumber[] =>
+    pool.balances.map((balance, i) => {
+      const tokenRate = pool.tokenRates[i];
+      return tokenRate !== undefined && (tokenRate.exemptFromYieldFees || ignoreExemptFlags)
+        ? IntegerMath.divDown(IntegerMath.mul(balance, tokenRate.oldRate), tokenRate.rate)
+        : BigNumber.from(balance);
+    });
+
+  private static _getPercentage = (percentages: ProtocolFeePercentages, feeType: ProtocolFeeType): BigNumber =>
+    BigNumber.from(percentages[feeType] ?? 0);
+}
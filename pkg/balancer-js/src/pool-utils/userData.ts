@@ -0,0 +1,71 @@
+import { StablePoolDecoder, StablePoolExitRequest, StablePoolJoinRequest } from '../pool-stable/decoder';
+import { StablePoolVersion } from '../pool-stable/encoder';
+import {
+  ManagedPoolDecoder,
+  ManagedPoolExitRequest,
+  ManagedPoolJoinRequest,
+  WeightedPoolDecoder,
+  WeightedPoolExitRequest,
+  WeightedPoolJoinRequest,
+} from '../pool-weighted/decoder';
+
+export enum PoolFamily {
+  Weighted = 'Weighted',
+  Managed = 'Managed',
+  Stable = 'Stable',
+}
+
+export type JoinPoolUserData = {
+  [PoolFamily.Weighted]: WeightedPoolJoinRequest;
+  [PoolFamily.Managed]: ManagedPoolJoinRequest;
+  [PoolFamily.Stable]: StablePoolJoinRequest;
+};
+
+export type ExitPoolUserData = {
+  [PoolFamily.Weighted]: WeightedPoolExitRequest;
+  [PoolFamily.Managed]: ManagedPoolExitRequest;
+  [PoolFamily.Stable]: StablePoolExitRequest;
+};
+
+/**
+ * Decodes the userData parameter of a `JoinPoolRequest` into the join it performs
+ * @param userData - the encoded userData
+ * @param family - the family of the Pool being joined, which determines how join kinds are numbered
+ * @returns an object with the join kind and its decoded arguments
+ */
+export const decodeJoinPoolUserData = <F extends PoolFamily>(userData: string, family: F): JoinPoolUserData[F] => {
+  switch (family) {
+    case PoolFamily.Weighted:
+      return WeightedPoolDecoder.join(userData) as JoinPoolUserData[F];
+    case PoolFamily.Managed:
+      return ManagedPoolDecoder.join(userData) as JoinPoolUserData[F];
+    case PoolFamily.Stable:
+      return StablePoolDecoder.join(userData) as JoinPoolUserData[F];
+    default:
+      throw new Error('Unknown pool family');
+  }
+};
+
+/**
+ * Decodes the userData parameter of an `ExitPoolRequest` into the exit it performs, including recovery mode exits
+ * @param userData - the encoded userData
+ * @param family - the family of the Pool being exited, which determines how exit kinds are numbered
+ * @param stableVersion - the version of Stable Pools, whose exit kinds are numbered differently across versions
+ * @returns an object with the exit kind and its decoded arguments
+ */
+export const decodeExitPoolUserData = <F extends PoolFamily>(
+  userData: string,
+  family: F,
+  stableVersion?: StablePoolVersion
+): ExitPoolUserData[F] => {
+  switch (family) {
+    case PoolFamily.Weighted:
+      return WeightedPoolDecoder.exit(userData) as ExitPoolUserData[F];
+    case PoolFamily.Managed:
+      return ManagedPoolDecoder.exit(userData) as ExitPoolUserData[F];
+    case PoolFamily.Stable:
+      return StablePoolDecoder.exit(userData, stableVersion) as ExitPoolUserData[F];
+    default:
+      throw new Error('Unknown pool family');
+  }
+};
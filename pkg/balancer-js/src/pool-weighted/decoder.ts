@@ -0,0 +1,126 @@
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { BigNumber } from '@ethersproject/bignumber';
+import { BasePoolDecoder, RecoveryModeExitRequest } from '../pool-utils/decoder';
+import { WeightedPoolExitKind, WeightedPoolJoinKind } from './encoder';
+
+export type WeightedPoolJoinRequest =
+  | { kind: WeightedPoolJoinKind.INIT; amountsIn: BigNumber[] }
+  | { kind: WeightedPoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT; amountsIn: BigNumber[]; minimumBPT: BigNumber }
+  | { kind: WeightedPoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT; bptAmountOut: BigNumber; enterTokenIndex: number }
+  | { kind: WeightedPoolJoinKind.ALL_TOKENS_IN_FOR_EXACT_BPT_OUT; bptAmountOut: BigNumber };
+
+export type WeightedPoolExitRequest =
+  | { kind: WeightedPoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT; bptAmountIn: BigNumber; exitTokenIndex: number }
+  | { kind: WeightedPoolExitKind.EXACT_BPT_IN_FOR_TOKENS_OUT; bptAmountIn: BigNumber }
+  | { kind: WeightedPoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT; amountsOut: BigNumber[]; maxBPTAmountIn: BigNumber }
+  | RecoveryModeExitRequest;
+
+export type ManagedPoolJoinRequest =
+  | WeightedPoolJoinRequest
+  | { kind: WeightedPoolJoinKind.ADD_TOKEN; amountIn: BigNumber };
+
+export type ManagedPoolExitRequest =
+  | WeightedPoolExitRequest
+  | { kind: WeightedPoolExitKind.REMOVE_TOKEN; tokenIndex: number };
+
+export class WeightedPoolDecoder {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Decodes the userData parameter of a join into a WeightedPool
+   * @param userData - the encoded userData, as produced by `WeightedPoolEncoder`
+   * @returns the join kind together with its decoded arguments
+   */
+  static join = (userData: string): WeightedPoolJoinRequest => {
+    const kind = BasePoolDecoder.kind(userData);
+    switch (kind) {
+      case WeightedPoolJoinKind.INIT: {
+        const [, amountsIn] = defaultAbiCoder.decode(['uint256', 'uint256[]'], userData);
+        return { kind, amountsIn };
+      }
+      case WeightedPoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT: {
+        const [, amountsIn, minimumBPT] = defaultAbiCoder.decode(['uint256', 'uint256[]', 'uint256'], userData);
+        return { kind, amountsIn, minimumBPT };
+      }
+      case WeightedPoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT: {
+        const [, bptAmountOut, enterTokenIndex] = defaultAbiCoder.decode(['uint256', 'uint256', 'uint256'], userData);
+        return { kind, bptAmountOut, enterTokenIndex: enterTokenIndex.toNumber() };
+      }
+      case WeightedPoolJoinKind.ALL_TOKENS_IN_FOR_EXACT_BPT_OUT: {
+        const [, bptAmountOut] = defaultAbiCoder.decode(['uint256', 'uint256'], userData);
+        return { kind, bptAmountOut };
+      }
+      default:
+        throw new Error('Unhandled join kind');
+    }
+  };
+
+  /**
+   * Decodes the userData parameter of an exit from a WeightedPool, including the recovery mode exit
+   * @param userData - the encoded userData, as produced by `WeightedPoolEncoder` or `BasePoolEncoder`
+   * @returns the exit kind together with its decoded arguments
+   */
+  static exit = (userData: string): WeightedPoolExitRequest => {
+    if (BasePoolDecoder.isRecoveryModeExit(userData)) return BasePoolDecoder.recoveryModeExit(userData);
+
+    const kind = BasePoolDecoder.kind(userData);
+    switch (kind) {
+      case WeightedPoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT: {
+        const [, bptAmountIn, exitTokenIndex] = defaultAbiCoder.decode(['uint256', 'uint256', 'uint256'], userData);
+        return { kind, bptAmountIn, exitTokenIndex: exitTokenIndex.toNumber() };
+      }
+      case WeightedPoolExitKind.EXACT_BPT_IN_FOR_TOKENS_OUT: {
+        const [, bptAmountIn] = defaultAbiCoder.decode(['uint256', 'uint256'], userData);
+        return { kind, bptAmountIn };
+      }
+      case WeightedPoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT: {
+        const [, amountsOut, maxBPTAmountIn] = defaultAbiCoder.decode(['uint256', 'uint256[]', 'uint256'], userData);
+        return { kind, amountsOut, maxBPTAmountIn };
+      }
+      default:
+        throw new Error('Unhandled exit kind');
+    }
+  };
+}
+
+export class ManagedPoolDecoder {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Decodes the userData parameter of a join into a ManagedPool.
+   * This accepts every WeightedPool join kind, plus the legacy join used to add a token.
+   * @param userData - the encoded userData
+   */
+  static join = (userData: string): ManagedPoolJoinRequest => {
+    if (BasePoolDecoder.kind(userData) === WeightedPoolJoinKind.ADD_TOKEN) {
+      const [, amountIn] = defaultAbiCoder.decode(['uint256', 'uint256'], userData);
+      return { kind: WeightedPoolJoinKind.ADD_TOKEN, amountIn };
+    }
+
+    return WeightedPoolDecoder.join(userData);
+  };
+
+  /**
+   * Decodes the userData parameter of an exit from a ManagedPool.
+   * This accepts every WeightedPool exit kind, plus the legacy exit used to remove a token.
+   * @param userData - the encoded userData, as produced by `WeightedPoolEncoder` or `ManagedPoolEncoder`
+   */
+  static exit = (userData: string): ManagedPoolExitRequest => {
+    if (BasePoolDecoder.kind(userData) === WeightedPoolExitKind.REMOVE_TOKEN) {
+      const [, tokenIndex] = defaultAbiCoder.decode(['uint256', 'uint256'], userData);
+      return { kind: WeightedPoolExitKind.REMOVE_TOKEN, tokenIndex: tokenIndex.toNumber() };
+    }
+
+    return WeightedPoolDecoder.exit(userData);
+  };
+}
@@ -1,2 +1,7 @@
 export * from './encoder';
+export * from './decoder';
+export * from './math';
 export * from './normalizedWeights';
+export * from './managedPoolActions';
+export * from './lbp';
+export * from './quoter';
@@ -0,0 +1,320 @@
+import { getAddress } from '@ethersproject/address';
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { Zero } from '@ethersproject/constants';
+import invariant from 'tiny-invariant';
+import { _require } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+import { MAX_MANAGED_SWAP_FEE_PERCENTAGE, MAX_MANAGED_TOKENS, MIN_SWAP_FEE_PERCENTAGE, MIN_TOKENS } from './limits';
+import { WeightedMath } from './math';
+
+export type GradualWeightSchedule = {
+  // The Pool's tokens as registered in the Vault
+  tokens: string[];
+  // The Pool's balances, upscaled to 18 decimals
+  balances: BigNumberish[];
+  startWeights: BigNumberish[];
+  endWeights: BigNumberish[];
+  startTime: BigNumberish;
+  endTime: BigNumberish;
+  swapFeePercentage: BigNumberish;
+  // Liquidity Bootstrapping Pools store weights compressed, which loses some precision: this defaults to true.
+  // Managed Pools store them uncompressed, and should set this to false.
+  compressedWeights?: boolean;
+};
+
+export type GradualWeightScheduleLimits = {
+  // The largest change in any single weight allowed over one day, as an 18 decimal fixed point value
+  maxWeightChangePerDay?: BigNumberish;
+};
+
+export type LBPBuy = {
+  timestamp: BigNumberish;
+  // The amount of the token used to buy, upscaled to 18 decimals and including swap fees
+  amountIn: BigNumberish;
+};
+
+export type LBPPricePoint = {
+  timestamp: BigNumber;
+  normalizedWeights: BigNumber[];
+  // Balances after the buy has been executed
+  balances: BigNumber[];
+  amountIn: BigNumber;
+  amountOut: BigNumber;
+  // Spot prices of the bought token, in units of the token used to buy it
+  spotPriceBefore: BigNumber;
+  spotPriceAfter: BigNumber;
+};
+
+// These match the storage layout of `LiquidityBootstrappingPoolStorageLib`.
+const START_WEIGHT_BIT_LENGTH = 31;
+const END_WEIGHT_BIT_LENGTH = 16;
+
+// LBPs share the minimum token count and swap fee of Managed Pools, but allow fewer tokens and lower swap fees.
+const MAX_LBP_TOKENS = 4;
+const MAX_LBP_SWAP_FEE_PERCENTAGE = FixedPoint.ONE.div(10); // 10%
+
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * Plans gradual weight changes of Liquidity Bootstrapping Pools (and Managed Pools), computing weights and spot prices
+ * at any point in time exactly as the Pool would (including `GradualValueChange` rounding), and simulating the price
+ * path of a sale.
+ *
+ * The schedule describes the Pool as it is when the weight change starts: its balances are then only modified by
+ * simulated swaps.
+ */
+export class LBPPlanner {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Validates a schedule, throwing the encoded Balancer error the Pool would revert with on creation or when calling
+   * `updateWeightsGradually` (e.g. `BAL#302` for `MIN_WEIGHT`).
+   *
+   * Pools do not limit how fast weights change: `WEIGHT_CHANGE_TOO_FAST` is only raised if `limits` sets a maximum.
+   * @param schedule - the weight change to validate
+   * @param limits - optional limits imposed by the sale's design
+   */
+  static validate = (schedule: GradualWeightSchedule, limits: GradualWeightScheduleLimits = {}): void => {
+    const { tokens, balances, startWeights, endWeights } = schedule;
+    const compressed = LBPPlanner._isCompressed(schedule);
+
+    _require(tokens.length >= MIN_TOKENS, 'MIN_TOKENS');
+    _require(tokens.length <= (compressed ? MAX_LBP_TOKENS : MAX_MANAGED_TOKENS), 'MAX_TOKENS');
+    _require(
+      balances.length === tokens.length && startWeights.length === tokens.length && endWeights.length === tokens.length,
+      'INPUT_LENGTH_MISMATCH'
+    );
+
+    const swapFeePercentage = BigNumber.from(schedule.swapFeePercentage);
+    const maxSwapFeePercentage = compressed ? MAX_LBP_SWAP_FEE_PERCENTAGE : MAX_MANAGED_SWAP_FEE_PERCENTAGE;
+    _require(swapFeePercentage.gte(MIN_SWAP_FEE_PERCENTAGE), 'MIN_SWAP_FEE_PERCENTAGE');
+    _require(swapFeePercentage.lte(maxSwapFeePercentage), 'MAX_SWAP_FEE_PERCENTAGE');
+
+    LBPPlanner._validateWeights(startWeights);
+    LBPPlanner._validateWeights(endWeights);
+
+    const startTime = BigNumber.from(schedule.startTime);
+    const endTime = BigNumber.from(schedule.endTime);
+    _require(startTime.lte(endTime), 'GRADUAL_UPDATE_TIME_TRAVEL');
+
+    if (limits.maxWeightChangePerDay !== undefined) {
+      const maxChange = BigNumber.from(limits.maxWeightChangePerDay);
+      const duration = endTime.sub(startTime);
+      startWeights.forEach((startWeight, i) => {
+        const change = BigNumber.from(startWeight).sub(endWeights[i]).abs();
+        // The change is compared to the maximum rate over the full duration, to avoid rounding the rate itself.
+        _require(change.mul(SECONDS_PER_DAY).lte(maxChange.mul(duration)), 'WEIGHT_CHANGE_TOO_FAST');
+      });
+    }
+  };
+
+  /**
+   * Returns how far along the weight change is at `timestamp`, as an 18 decimal fixed point value where 0 means the
+   * change has not yet started, and `FixedPoint.ONE` means it has completed. Matches
+   * `GradualValueChange.calculateValueChangeProgress`.
+   */
+  static getWeightChangeProgress = (
+    startTime: BigNumberish,
+    endTime: BigNumberish,
+    timestamp: BigNumberish
+  ): BigNumber => {
+    const now = BigNumber.from(timestamp);
+    if (now.gte(endTime)) {
+      return FixedPoint.ONE;
+    } else if (now.lte(startTime)) {
+      return Zero;
+    }
+
+    return FixedPoint.divDown(now.sub(startTime), BigNumber.from(endTime).sub(startTime));
+  };
+
+  /**
+   * Interpolates between `startValue` and `endValue`, rounding as `GradualValueChange.interpolateValue` does.
+   * @param pctProgress - as returned by `getWeightChangeProgress`
+   */
+  static interpolateValue = (
+    startValue: BigNumberish,
+    endValue: BigNumberish,
+    pctProgress: BigNumberish
+  ): BigNumber => {
+    const start = BigNumber.from(startValue);
+    const end = BigNumber.from(endValue);
+    if (BigNumber.from(pctProgress).gte(FixedPoint.ONE) || start.eq(end)) return end;
+    if (BigNumber.from(pctProgress).isZero()) return start;
+
+    return start.gt(end)
+      ? start.sub(FixedPoint.mulDown(pctProgress, start.sub(end)))
+      : start.add(FixedPoint.mulDown(pctProgress, end.sub(start)));
+  };
+
+  /**
+   * Returns the normalized weights the Pool would report via `getNormalizedWeights()` at `timestamp`.
+   *
+   * Note that weights of Liquidity Bootstrapping Pools lose precision when stored, and may therefore not add up to
+   * exactly `FixedPoint.ONE`.
+   */
+  static getNormalizedWeights = (schedule: GradualWeightSchedule, timestamp: BigNumberish): BigNumber[] => {
+    const pctProgress = LBPPlanner.getWeightChangeProgress(schedule.startTime, schedule.endTime, timestamp);
+    const compressed = LBPPlanner._isCompressed(schedule);
+
+    return schedule.startWeights.map((startWeight, i) => {
+      const endWeight = schedule.endWeights[i];
+      return compressed
+        ? LBPPlanner.interpolateValue(
+            LBPPlanner._roundTrip(startWeight, START_WEIGHT_BIT_LENGTH),
+            LBPPlanner._roundTrip(endWeight, END_WEIGHT_BIT_LENGTH),
+            pctProgress
+          )
+        : LBPPlanner.interpolateValue(startWeight, endWeight, pctProgress);
+    });
+  };
+
+  /**
+   * Computes the spot price of `tokenOut` in units of `tokenIn` at `timestamp`, including swap fees: that is, the
+   * amount of `tokenIn` that must be paid for each unit of `tokenOut` when swapping infinitesimal amounts.
+   * @param balances - the Pool's upscaled balances, defaulting to the ones in the schedule
+   */
+  static getSpotPrice = (
+    schedule: GradualWeightSchedule,
+    tokenIn: string,
+    tokenOut: string,
+    timestamp: BigNumberish,
+    balances: BigNumberish[] = schedule.balances
+  ): BigNumber => {
+    const indexIn = LBPPlanner._indexOf(schedule, tokenIn);
+    const indexOut = LBPPlanner._indexOf(schedule, tokenOut);
+    const weights = LBPPlanner.getNormalizedWeights(schedule, timestamp);
+
+    return LBPPlanner._spotPrice(
+      balances[indexIn],
+      weights[indexIn],
+      balances[indexOut],
+      weights[indexOut],
+      schedule.swapFeePercentage
+    );
+  };
+
+  /**
+   * Simulates a sale by executing `buys` in order as `GIVEN_IN` swaps of `tokenIn` for `tokenOut`, returning the
+   * state of the Pool after each of them.
+   *
+   * Swaps are computed as the Pool would, so a buy larger than the maximum in ratio throws `BAL#304`. Protocol fees
+   * are not modeled.
+   * @param buys - the stream of buys, sorted by timestamp (see `buildBuyStream`)
+   */
+  static simulate = (
+    schedule: GradualWeightSchedule,
+    tokenIn: string,
+    tokenOut: string,
+    buys: LBPBuy[]
+  ): LBPPricePoint[] => {
+    const indexIn = LBPPlanner._indexOf(schedule, tokenIn);
+    const indexOut = LBPPlanner._indexOf(schedule, tokenOut);
+    invariant(indexIn !== indexOut, 'Cannot swap a token for itself');
+
+    const balances = schedule.balances.map((balance) => BigNumber.from(balance));
+    let lastTimestamp = BigNumber.from(0);
+
+    return buys.map((buy) => {
+      const timestamp = BigNumber.from(buy.timestamp);
+      invariant(timestamp.gte(lastTimestamp), 'Buys must be sorted by timestamp');
+      lastTimestamp = timestamp;
+
+      const weights = LBPPlanner.getNormalizedWeights(schedule, timestamp);
+      const spotPriceBefore = LBPPlanner._spotPrice(
+        balances[indexIn],
+        weights[indexIn],
+        balances[indexOut],
+        weights[indexOut],
+        schedule.swapFeePercentage
+      );
+
+      // Fees are subtracted before computing the amount out, as in the Pool.
+      const amountIn = BigNumber.from(buy.amountIn);
+      const amountOut = WeightedMath.calcOutGivenIn(
+        balances[indexIn],
+        weights[indexIn],
+        balances[indexOut],
+        weights[indexOut],
+        FixedPoint.mulDown(amountIn, FixedPoint.complement(schedule.swapFeePercentage))
+      );
+
+      balances[indexIn] = balances[indexIn].add(amountIn);
+      balances[indexOut] = FixedPoint.sub(balances[indexOut], amountOut);
+
+      const spotPriceAfter = LBPPlanner._spotPrice(
+        balances[indexIn],
+        weights[indexIn],
+        balances[indexOut],
+        weights[indexOut],
+        schedule.swapFeePercentage
+      );
+
+      return {
+        timestamp,
+        normalizedWeights: weights,
+        balances: [...balances],
+        amountIn,
+        amountOut,
+        spotPriceBefore,
+        spotPriceAfter,
+      };
+    });
+  };
+
+  /**
+   * Builds a stream of buys of the same size, placed every `interval` seconds from `startTime` up to `endTime`.
+   */
+  static buildBuyStream = (
+    startTime: BigNumberish,
+    endTime: BigNumberish,
+    interval: BigNumberish,
+    amountIn: BigNumberish
+  ): LBPBuy[] => {
+    invariant(BigNumber.from(interval).gt(0), 'Interval must be positive');
+
+    const buys: LBPBuy[] = [];
+    for (let timestamp = BigNumber.from(startTime); timestamp.lte(endTime); timestamp = timestamp.add(interval)) {
+      buys.push({ timestamp, amountIn });
+    }
+    return buys;
+  };
+
+  private static _spotPrice = (
+    balanceIn: BigNumberish,
+    weightIn: BigNumberish,
+    balanceOut: BigNumberish,
+    weightOut: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // The price is (balanceIn / weightIn) / (balanceOut / weightOut), grossed up by the swap fee.
+    const numerator = FixedPoint.divUp(balanceIn, weightIn);
+    const denominator = FixedPoint.divDown(balanceOut, weightOut);
+    return FixedPoint.divUp(FixedPoint.divUp(numerator, denominator), FixedPoint.complement(swapFeePercentage));
+  };
+
+  private static _validateWeights = (weights: BigNumberish[]) => {
+    weights.forEach((weight) => _require(BigNumber.from(weight).gte(WeightedMath.MIN_WEIGHT), 'MIN_WEIGHT'));
+    _require(weights.reduce<BigNumber>(FixedPoint.add, Zero).eq(FixedPoint.ONE), 'NORMALIZED_WEIGHT_INVARIANT');
+  };
+
+  // Compresses and decompresses a weight, as in `ValueCompression` with a maximum value of `FixedPoint.ONE`.
+  private static _roundTrip = (weight: BigNumberish, bitLength: number): BigNumber => {
+    const maxCompressedValue = BigNumber.from(2).pow(bitLength).sub(1);
+    const compressed = BigNumber.from(weight).mul(maxCompressedValue).div(FixedPoint.ONE);
+    return compressed.mul(FixedPoint.ONE).div(maxCompressedValue);
+  };
+
+  private static _isCompressed = (schedule: GradualWeightSchedule): boolean => schedule.compressedWeights ?? true;
+
+  private static _indexOf = (schedule: GradualWeightSchedule, token: string): number => {
+    const index = schedule.tokens.findIndex((t) => getAddress(t) === getAddress(token));
+    _require(index !== -1, 'INVALID_TOKEN');
+    return index;
+  };
+}
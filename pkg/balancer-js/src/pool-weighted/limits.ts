@@ -0,0 +1,8 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { FixedPoint } from '../math/fixedPoint';
+
+// Limits shared by Managed Pools and LBPs, matching `ManagedPoolSettings`. LBPs have lower maximums (see `LBPPlanner`).
+export const MIN_TOKENS = 2;
+export const MAX_MANAGED_TOKENS = 50;
+export const MIN_SWAP_FEE_PERCENTAGE = BigNumber.from(10).pow(12); // 0.0001%
+export const MAX_MANAGED_SWAP_FEE_PERCENTAGE = FixedPoint.ONE.mul(95).div(100); // 95%
@@ -0,0 +1,335 @@
+import { Interface } from '@ethersproject/abi';
+import { getAddress } from '@ethersproject/address';
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { AddressZero, Zero } from '@ethersproject/constants';
+import { _require, _revert } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+import { BalancerErrors } from '../utils/errors';
+import { MAX_MANAGED_SWAP_FEE_PERCENTAGE, MAX_MANAGED_TOKENS, MIN_SWAP_FEE_PERCENTAGE, MIN_TOKENS } from './limits';
+import { WeightedMath } from './math';
+
+export type ManagedPoolState = {
+  // The address of the Pool, i.e. its BPT
+  address: string;
+  // The Pool's tokens as registered in the Vault, excluding the BPT
+  tokens: string[];
+  // As returned by `getNormalizedWeights()`
+  normalizedWeights: BigNumberish[];
+  // As returned by `getGradualWeightUpdateParams()`
+  weightChangeStartTime: BigNumberish;
+  weightChangeEndTime: BigNumberish;
+  // As returned by `getActualSupply()`: zero if the Pool has not been initialized
+  actualSupply: BigNumberish;
+};
+
+export type ManagedPoolActionResult = { data: string } | { error: string };
+
+const managedPoolInterface = new Interface([
+  'function updateWeightsGradually(uint256 startTime, uint256 endTime, address[] tokens, uint256[] endWeights)',
+  'function updateSwapFeeGradually(uint256 startTime, uint256 endTime, uint256 startSwapFeePercentage, uint256 endSwapFeePercentage)',
+  'function setJoinExitEnabled(bool joinExitEnabled)',
+  'function setSwapEnabled(bool swapEnabled)',
+  'function addAllowedAddress(address member)',
+  'function removeAllowedAddress(address member)',
+  'function setMustAllowlistLPs(bool mustAllowlistLPs)',
+  'function addToken(address tokenToAdd, address assetManager, uint256 tokenToAddNormalizedWeight, uint256 mintAmount, address recipient)',
+  'function removeToken(address tokenToRemove, uint256 burnAmount, address sender)',
+  'function setManagementAumFeePercentage(uint256 managementAumFeePercentage)',
+  'function setCircuitBreakers(address[] tokens, uint256[] bptPrices, uint256[] lowerBoundPercentages, uint256[] upperBoundPercentages)',
+]);
+
+// These match the limits in `ManagedPoolSettings` and `CircuitBreakerStorageLib`.
+const MAX_MANAGEMENT_AUM_FEE_PERCENTAGE = FixedPoint.ONE.mul(95).div(100); // 95%
+const MIN_BOUND_PERCENTAGE = FixedPoint.ONE.div(10); // 0.1
+const MAX_BOUND_PERCENTAGE = FixedPoint.ONE.mul(10); // 10.0
+
+/**
+ * Builds the calldata of the owner-only actions of Managed Pools, performing the same validation as the Pool would.
+ *
+ * Invalid inputs throw the encoded Balancer error the Pool would revert with (e.g. `BAL#348`), so that failed
+ * transactions can be avoided. Checks which depend on state not described by `ManagedPoolState` (such as the Pool
+ * being paused, or token balances) are not performed.
+ */
+export class ManagedPoolActions {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Runs a builder, returning the name of the Balancer error it raises instead of throwing.
+   * @param build - a function calling one of the `ManagedPoolActions` builders
+   * @returns either the calldata, or the name of the error the Pool would revert with (e.g. `MIN_WEIGHT`)
+   */
+  static tryBuild = (build: () => string): ManagedPoolActionResult => {
+    try {
+      return { data: build() };
+    } catch (error) {
+      const message = (error as Error).message;
+      if (!BalancerErrors.isErrorCode(message)) throw error;
+      return { error: BalancerErrors.parseErrorCode(message) };
+    }
+  };
+
+  /**
+   * Encodes a call to `updateWeightsGradually`.
+   * @param pool - the current state of the Pool
+   * @param startTime - the timestamp when the weight change will begin, fast-forwarded to `timestamp` if in the past
+   * @param endTime - the timestamp when the weight change will end
+   * @param tokens - the Pool's tokens, in the same order as registered in the Vault
+   * @param endWeights - the normalized weights of each token at the end of the change
+   * @param timestamp - the timestamp of the block the call is expected to be included in
+   */
+  static updateWeightsGradually = (
+    pool: ManagedPoolState,
+    startTime: BigNumberish,
+    endTime: BigNumberish,
+    tokens: string[],
+    endWeights: BigNumberish[],
+    timestamp: BigNumberish
+  ): string => {
+    _require(tokens.length === pool.tokens.length && tokens.length === endWeights.length, 'INPUT_LENGTH_MISMATCH');
+    pool.tokens.forEach((token, i) => _require(getAddress(token) === getAddress(tokens[i]), 'TOKENS_MISMATCH'));
+
+    ManagedPoolActions._resolveStartTime(startTime, endTime, timestamp);
+    ManagedPoolActions._validateWeights(endWeights);
+
+    return managedPoolInterface.encodeFunctionData('updateWeightsGradually', [startTime, endTime, tokens, endWeights]);
+  };
+
+  /**
+   * Encodes a call to `updateSwapFeeGradually`.
+   * @param startTime - the timestamp when the swap fee change will begin, fast-forwarded to `timestamp` if in the past
+   * @param endTime - the timestamp when the swap fee change will end
+   * @param startSwapFeePercentage - the swap fee at the start of the change
+   * @param endSwapFeePercentage - the swap fee at the end of the change
+   * @param timestamp - the timestamp of the block the call is expected to be included in
+   */
+  static updateSwapFeeGradually = (
+    startTime: BigNumberish,
+    endTime: BigNumberish,
+    startSwapFeePercentage: BigNumberish,
+    endSwapFeePercentage: BigNumberish,
+    timestamp: BigNumberish
+  ): string => {
+    ManagedPoolActions._resolveStartTime(startTime, endTime, timestamp);
+    [startSwapFeePercentage, endSwapFeePercentage].forEach((swapFeePercentage) => {
+      _require(BigNumber.from(swapFeePercentage).gte(MIN_SWAP_FEE_PERCENTAGE), 'MIN_SWAP_FEE_PERCENTAGE');
+      _require(BigNumber.from(swapFeePercentage).lte(MAX_MANAGED_SWAP_FEE_PERCENTAGE), 'MAX_SWAP_FEE_PERCENTAGE');
+    });
+
+    return managedPoolInterface.encodeFunctionData('updateSwapFeeGradually', [
+      startTime,
+      endTime,
+      startSwapFeePercentage,
+      endSwapFeePercentage,
+    ]);
+  };
+
+  /**
+   * Encodes a call to `setJoinExitEnabled`.
+   */
+  static setJoinExitEnabled = (joinExitEnabled: boolean): string =>
+    managedPoolInterface.encodeFunctionData('setJoinExitEnabled', [joinExitEnabled]);
+
+  /**
+   * Encodes a call to `setSwapEnabled`.
+   */
+  static setSwapEnabled = (swapEnabled: boolean): string =>
+    managedPoolInterface.encodeFunctionData('setSwapEnabled', [swapEnabled]);
+
+  /**
+   * Encodes a call to `addAllowedAddress`.
+   * @param member - the address to add to the LP allowlist
+   * @param isAllowlisted - whether `member` is already in the allowlist, as returned by `isAddressOnAllowlist`
+   */
+  static addAllowedAddress = (member: string, isAllowlisted = false): string => {
+    _require(!isAllowlisted, 'ADDRESS_ALREADY_ALLOWLISTED');
+    return managedPoolInterface.encodeFunctionData('addAllowedAddress', [member]);
+  };
+
+  /**
+   * Encodes a call to `removeAllowedAddress`.
+   * @param member - the address to remove from the LP allowlist
+   * @param isAllowlisted - whether `member` is in the allowlist, as returned by `isAddressOnAllowlist`
+   */
+  static removeAllowedAddress = (member: string, isAllowlisted = true): string => {
+    _require(isAllowlisted, 'ADDRESS_NOT_ALLOWLISTED');
+    return managedPoolInterface.encodeFunctionData('removeAllowedAddress', [member]);
+  };
+
+  /**
+   * Encodes a call to `setMustAllowlistLPs`.
+   */
+  static setMustAllowlistLPs = (mustAllowlistLPs: boolean): string =>
+    managedPoolInterface.encodeFunctionData('setMustAllowlistLPs', [mustAllowlistLPs]);
+
+  /**
+   * Encodes a call to `addToken`. The weights of the existing tokens are scaled down to make room for the new one.
+   * @param pool - the current state of the Pool
+   * @param tokenToAdd - the token to add
+   * @param assetManager - the Asset Manager of the new token
+   * @param tokenToAddNormalizedWeight - the normalized weight of the new token
+   * @param mintAmount - the amount of BPT to mint to `recipient`
+   * @param recipient - the recipient of the minted BPT
+   * @param timestamp - the timestamp of the block the call is expected to be included in
+   */
+  static addToken = (
+    pool: ManagedPoolState,
+    tokenToAdd: string,
+    assetManager: string,
+    tokenToAddNormalizedWeight: BigNumberish,
+    mintAmount: BigNumberish,
+    recipient: string,
+    timestamp: BigNumberish
+  ): string => {
+    _require(BigNumber.from(pool.actualSupply).gt(0), 'UNINITIALIZED');
+    _require(pool.tokens.length + 1 <= MAX_MANAGED_TOKENS, 'MAX_TOKENS');
+    _require(getAddress(tokenToAdd) !== getAddress(pool.address), 'ADD_OR_REMOVE_BPT');
+    ManagedPoolActions._ensureNoWeightChange(pool, timestamp);
+    _require(ManagedPoolActions._indexOf(pool, tokenToAdd) === -1, 'TOKEN_ALREADY_REGISTERED');
+
+    // Existing weights are multiplied by `1 - new token weight`, with the new token absorbing any rounding error.
+    const newWeights = pool.normalizedWeights.map((weight) =>
+      FixedPoint.mulDown(weight, FixedPoint.sub(FixedPoint.ONE, tokenToAddNormalizedWeight))
+    );
+    newWeights.push(FixedPoint.sub(FixedPoint.ONE, newWeights.reduce<BigNumber>(FixedPoint.add, Zero)));
+    ManagedPoolActions._validateWeights(newWeights);
+
+    return managedPoolInterface.encodeFunctionData('addToken', [
+      tokenToAdd,
+      assetManager,
+      tokenToAddNormalizedWeight,
+      mintAmount,
+      recipient,
+    ]);
+  };
+
+  /**
+   * Encodes a call to `removeToken`. The weights of the remaining tokens are scaled up to fill the removed one's.
+   *
+   * Note that the Pool's whole balance of the token must have been withdrawn beforehand, e.g. by exiting with
+   * `ManagedPoolEncoder.exitForRemoveToken`.
+   * @param pool - the current state of the Pool
+   * @param tokenToRemove - the token to remove
+   * @param burnAmount - the amount of BPT to burn from `sender`
+   * @param sender - the account whose BPT is burned
+   * @param timestamp - the timestamp of the block the call is expected to be included in
+   */
+  static removeToken = (
+    pool: ManagedPoolState,
+    tokenToRemove: string,
+    burnAmount: BigNumberish,
+    sender: string,
+    timestamp: BigNumberish
+  ): string => {
+    _require(BigNumber.from(pool.actualSupply).gt(0), 'UNINITIALIZED');
+    _require(pool.tokens.length - 1 >= MIN_TOKENS, 'MIN_TOKENS');
+    _require(getAddress(tokenToRemove) !== getAddress(pool.address), 'ADD_OR_REMOVE_BPT');
+    ManagedPoolActions._ensureNoWeightChange(pool, timestamp);
+
+    const index = ManagedPoolActions._indexOf(pool, tokenToRemove);
+    _require(index !== -1, 'TOKEN_NOT_REGISTERED');
+
+    // The Vault moves the last token into the removed token's position, and the remaining weights are divided by
+    // `1 - removed token weight`, with the last token absorbing any rounding error.
+    const weights = [...pool.normalizedWeights];
+    const [removedWeight] = weights.splice(index, 1, weights[weights.length - 1]);
+    weights.pop();
+
+    const newWeights = weights.map((weight) =>
+      FixedPoint.divDown(weight, FixedPoint.sub(FixedPoint.ONE, removedWeight))
+    );
+    const newWeightSum = newWeights.reduce<BigNumber>(FixedPoint.add, Zero);
+    newWeights[newWeights.length - 1] = newWeights[newWeights.length - 1].add(FixedPoint.ONE.sub(newWeightSum));
+    ManagedPoolActions._validateWeights(newWeights);
+
+    _require(BigNumber.from(burnAmount).isZero() || sender !== AddressZero, 'BURN_FROM_ZERO');
+
+    return managedPoolInterface.encodeFunctionData('removeToken', [tokenToRemove, burnAmount, sender]);
+  };
+
+  /**
+   * Encodes a call to `setManagementAumFeePercentage`.
+   * @param managementAumFeePercentage - the yearly percentage of the Pool's value paid to the manager
+   */
+  static setManagementAumFeePercentage = (managementAumFeePercentage: BigNumberish): string => {
+    _require(
+      BigNumber.from(managementAumFeePercentage).lte(MAX_MANAGEMENT_AUM_FEE_PERCENTAGE),
+      'MAX_MANAGEMENT_AUM_FEE_PERCENTAGE'
+    );
+    return managedPoolInterface.encodeFunctionData('setManagementAumFeePercentage', [managementAumFeePercentage]);
+  };
+
+  /**
+   * Encodes a call to `setCircuitBreakers`. A bound of zero disables the circuit breaker in that direction.
+   * @param pool - the current state of the Pool
+   * @param tokens - the tokens whose circuit breakers are set
+   * @param bptPrices - the BPT price of each token, computed with unscaled balances
+   * @param lowerBoundPercentages - the lower bound of each circuit breaker, between 0.1 and 1
+   * @param upperBoundPercentages - the upper bound of each circuit breaker, between the lower bound and 10
+   */
+  static setCircuitBreakers = (
+    pool: ManagedPoolState,
+    tokens: string[],
+    bptPrices: BigNumberish[],
+    lowerBoundPercentages: BigNumberish[],
+    upperBoundPercentages: BigNumberish[]
+  ): string => {
+    _require(
+      tokens.length === lowerBoundPercentages.length &&
+        tokens.length === upperBoundPercentages.length &&
+        tokens.length === bptPrices.length,
+      'INPUT_LENGTH_MISMATCH'
+    );
+
+    tokens.forEach((token, i) => {
+      // Tokens not in the Pool (including the BPT) have a weight of zero
+      _require(ManagedPoolActions._indexOf(pool, token) !== -1, 'INVALID_TOKEN');
+
+      const lowerBound = BigNumber.from(lowerBoundPercentages[i]);
+      const upperBound = BigNumber.from(upperBoundPercentages[i]);
+      _require(
+        lowerBound.isZero() || (lowerBound.gte(MIN_BOUND_PERCENTAGE) && lowerBound.lte(FixedPoint.ONE)),
+        'INVALID_CIRCUIT_BREAKER_BOUNDS'
+      );
+      _require(upperBound.lte(MAX_BOUND_PERCENTAGE), 'INVALID_CIRCUIT_BREAKER_BOUNDS');
+      _require(upperBound.isZero() || upperBound.gte(lowerBound), 'INVALID_CIRCUIT_BREAKER_BOUNDS');
+    });
+
+    return managedPoolInterface.encodeFunctionData('setCircuitBreakers', [
+      tokens,
+      bptPrices,
+      lowerBoundPercentages,
+      upperBoundPercentages,
+    ]);
+  };
+
+  // Mirrors `GradualValueChange.resolveStartTime`.
+  private static _resolveStartTime = (startTime: BigNumberish, endTime: BigNumberish, timestamp: BigNumberish) => {
+    const resolvedStartTime = BigNumber.from(startTime).gt(timestamp) ? startTime : timestamp;
+    _require(BigNumber.from(resolvedStartTime).lte(endTime), 'GRADUAL_UPDATE_TIME_TRAVEL');
+  };
+
+  // Mirrors `ManagedPoolAddRemoveTokenLib._ensureNoWeightChange`.
+  private static _ensureNoWeightChange = (pool: ManagedPoolState, timestamp: BigNumberish) => {
+    if (BigNumber.from(timestamp).lt(pool.weightChangeEndTime)) {
+      _revert(
+        BigNumber.from(timestamp).lt(pool.weightChangeStartTime)
+          ? 'CHANGE_TOKENS_PENDING_WEIGHT_CHANGE'
+          : 'CHANGE_TOKENS_DURING_WEIGHT_CHANGE'
+      );
+    }
+  };
+
+  // Mirrors the checks in `ManagedPoolSettings._startGradualWeightChange`.
+  private static _validateWeights = (weights: BigNumberish[]) => {
+    weights.forEach((weight) => _require(BigNumber.from(weight).gte(WeightedMath.MIN_WEIGHT), 'MIN_WEIGHT'));
+    _require(weights.reduce<BigNumber>(FixedPoint.add, Zero).eq(FixedPoint.ONE), 'NORMALIZED_WEIGHT_INVARIANT');
+  };
+
+  private static _indexOf = (pool: ManagedPoolState, token: string): number =>
+    pool.tokens.findIndex((poolToken) => getAddress(poolToken) === getAddress(token));
+}
@@ -0,0 +1,360 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE, Zero } from '@ethersproject/constants';
+import { _require } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+
+/**
+ * An exact port of `WeightedMath.sol`: every function returns the same value the contract would (to the wei), and
+ * throws the same Balancer error code (e.g. `BAL#304` for `MAX_IN_RATIO`) whenever the contract would revert.
+ *
+ * All amounts are expected to be upscaled to 18 decimals, and weights to be normalized.
+ */
+export class WeightedMath {
+  // A minimum normalized weight imposes a maximum weight ratio. We need this due to limitations in the
+  // implementation of the power function, as these ratios are often exponents.
+  static readonly MIN_WEIGHT = ONE.div(100);
+  // Having a minimum normalized weight imposes a limit on the maximum number of tokens;
+  // i.e., the largest possible pool is one where all tokens have exactly the minimum weight.
+  static readonly MAX_WEIGHTED_TOKENS = 100;
+
+  // Swap limits: amounts swapped may not be larger than this percentage of total balance.
+  static readonly MAX_IN_RATIO = ONE.mul(3).div(10);
+  static readonly MAX_OUT_RATIO = ONE.mul(3).div(10);
+
+  // Invariant growth limit: non-proportional joins cannot cause the invariant to increase by more than this ratio.
+  static readonly MAX_INVARIANT_RATIO = ONE.mul(3);
+  // Invariant shrink limit: non-proportional exits cannot cause the invariant to decrease by less than this ratio.
+  static readonly MIN_INVARIANT_RATIO = ONE.mul(7).div(10);
+
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Computes the invariant of a Weighted Pool, rounding down.
+   * @param normalizedWeights - the normalized weights of the Pool's tokens
+   * @param balances - the upscaled balances of the Pool's tokens
+   */
+  static calculateInvariant = (normalizedWeights: BigNumberish[], balances: BigNumberish[]): BigNumber => {
+    let invariant = FixedPoint.ONE;
+    for (let i = 0; i < normalizedWeights.length; i++) {
+      invariant = FixedPoint.mulDown(invariant, FixedPoint.powDown(balances[i], normalizedWeights[i]));
+    }
+
+    _require(invariant.gt(0), 'ZERO_INVARIANT');
+    return invariant;
+  };
+
+  /**
+   * Computes how many tokens can be taken out of a pool if `amountIn` are sent, given the current balances and weights.
+   * Swap fees are not included: `amountIn` is expected to have had them deducted already.
+   */
+  static calcOutGivenIn = (
+    balanceIn: BigNumberish,
+    weightIn: BigNumberish,
+    balanceOut: BigNumberish,
+    weightOut: BigNumberish,
+    amountIn: BigNumberish
+  ): BigNumber => {
+    // Amount out, so we round down overall.
+
+    // The multiplication rounds down, and the subtrahend (power) rounds up (so the base rounds up too).
+    // Because bI / (bI + aI) <= 1, the exponent rounds down.
+
+    // Cannot exceed maximum in ratio
+    _require(BigNumber.from(amountIn).lte(FixedPoint.mulDown(balanceIn, WeightedMath.MAX_IN_RATIO)), 'MAX_IN_RATIO');
+
+    const denominator = FixedPoint.add(balanceIn, amountIn);
+    const base = FixedPoint.divUp(balanceIn, denominator);
+    const exponent = FixedPoint.divDown(weightIn, weightOut);
+    const power = FixedPoint.powUp(base, exponent);
+
+    return FixedPoint.mulDown(balanceOut, FixedPoint.complement(power));
+  };
+
+  /**
+   * Computes how many tokens must be sent to a pool in order to take `amountOut`, given the current balances and
+   * weights. Swap fees are not included: they are expected to be added to the result.
+   */
+  static calcInGivenOut = (
+    balanceIn: BigNumberish,
+    weightIn: BigNumberish,
+    balanceOut: BigNumberish,
+    weightOut: BigNumberish,
+    amountOut: BigNumberish
+  ): BigNumber => {
+    // Amount in, so we round up overall.
+
+    // The multiplication rounds up, and the power rounds up (so the base rounds up too).
+    // Because b0 / (b0 - a0) >= 1, the exponent rounds up.
+
+    // Cannot exceed maximum out ratio
+    _require(
+      BigNumber.from(amountOut).lte(FixedPoint.mulDown(balanceOut, WeightedMath.MAX_OUT_RATIO)),
+      'MAX_OUT_RATIO'
+    );
+
+    const base = FixedPoint.divUp(balanceOut, FixedPoint.sub(balanceOut, amountOut));
+    const exponent = FixedPoint.divUp(weightOut, weightIn);
+    const power = FixedPoint.powUp(base, exponent);
+
+    // Because the base is larger than one (and the power rounds up), the power should always be larger than one, so
+    // the following subtraction should never revert.
+    const ratio = FixedPoint.sub(power, FixedPoint.ONE);
+
+    return FixedPoint.mulUp(balanceIn, ratio);
+  };
+
+  static calcBptOutGivenExactTokensIn = (
+    balances: BigNumberish[],
+    normalizedWeights: BigNumberish[],
+    amountsIn: BigNumberish[],
+    bptTotalSupply: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // BPT out, so we round down overall.
+
+    const balanceRatiosWithFee: BigNumber[] = [];
+
+    let invariantRatioWithFees = Zero;
+    for (let i = 0; i < balances.length; i++) {
+      balanceRatiosWithFee[i] = FixedPoint.divDown(FixedPoint.add(balances[i], amountsIn[i]), balances[i]);
+      invariantRatioWithFees = FixedPoint.add(
+        invariantRatioWithFees,
+        FixedPoint.mulDown(balanceRatiosWithFee[i], normalizedWeights[i])
+      );
+    }
+
+    // Swap fees are charged on all tokens that are being added in a larger proportion than the overall invariant
+    // increase.
+    let invariantRatio = FixedPoint.ONE;
+    for (let i = 0; i < balances.length; i++) {
+      let amountInWithoutFee: BigNumber;
+
+      if (balanceRatiosWithFee[i].gt(invariantRatioWithFees)) {
+        // invariantRatioWithFees might be less than FixedPoint.ONE in edge scenarios due to rounding error,
+        // particularly if the weights don't exactly add up to 100%.
+        const nonTaxableAmount = invariantRatioWithFees.gt(FixedPoint.ONE)
+          ? FixedPoint.mulDown(balances[i], invariantRatioWithFees.sub(FixedPoint.ONE))
+          : Zero;
+        const swapFee = FixedPoint.mulUp(FixedPoint.sub(amountsIn[i], nonTaxableAmount), swapFeePercentage);
+        amountInWithoutFee = FixedPoint.sub(amountsIn[i], swapFee);
+      } else {
+        amountInWithoutFee = BigNumber.from(amountsIn[i]);
+
+        // If a token's amount in is not being charged a swap fee then it might be zero (e.g. when joining a
+        // Pool with only a subset of tokens). In this case, the `invariantRatio` will not change at all.
+        if (amountInWithoutFee.isZero()) continue;
+      }
+
+      const balanceRatio = FixedPoint.divDown(FixedPoint.add(balances[i], amountInWithoutFee), balances[i]);
+
+      invariantRatio = FixedPoint.mulDown(invariantRatio, FixedPoint.powDown(balanceRatio, normalizedWeights[i]));
+    }
+
+    return invariantRatio.gt(FixedPoint.ONE)
+      ? FixedPoint.mulDown(bptTotalSupply, invariantRatio.sub(FixedPoint.ONE))
+      : Zero;
+  };
+
+  static calcBptOutGivenExactTokenIn = (
+    balance: BigNumberish,
+    normalizedWeight: BigNumberish,
+    amountIn: BigNumberish,
+    bptTotalSupply: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // BPT out, so we round down overall.
+
+    let amountInWithoutFee: BigNumber;
+    const balanceRatioWithFee = FixedPoint.divDown(FixedPoint.add(balance, amountIn), balance);
+
+    // The use of `normalizedWeight.complement()` assumes that the sum of all weights equals FixedPoint.ONE.
+    const invariantRatioWithFees = FixedPoint.add(
+      FixedPoint.mulDown(balanceRatioWithFee, normalizedWeight),
+      FixedPoint.complement(normalizedWeight)
+    );
+
+    if (balanceRatioWithFee.gt(invariantRatioWithFees)) {
+      const nonTaxableAmount = invariantRatioWithFees.gt(FixedPoint.ONE)
+        ? FixedPoint.mulDown(balance, invariantRatioWithFees.sub(FixedPoint.ONE))
+        : Zero;
+      const taxableAmount = FixedPoint.sub(amountIn, nonTaxableAmount);
+      const swapFee = FixedPoint.mulUp(taxableAmount, swapFeePercentage);
+
+      amountInWithoutFee = FixedPoint.add(nonTaxableAmount, FixedPoint.sub(taxableAmount, swapFee));
+    } else {
+      amountInWithoutFee = BigNumber.from(amountIn);
+      // If a token's amount in is not being charged a swap fee then it might be zero.
+      // In this case, it's clear that the sender should receive no BPT.
+      if (amountInWithoutFee.isZero()) return Zero;
+    }
+
+    const balanceRatio = FixedPoint.divDown(FixedPoint.add(balance, amountInWithoutFee), balance);
+
+    const invariantRatio = FixedPoint.powDown(balanceRatio, normalizedWeight);
+
+    return invariantRatio.gt(FixedPoint.ONE)
+      ? FixedPoint.mulDown(bptTotalSupply, invariantRatio.sub(FixedPoint.ONE))
+      : Zero;
+  };
+
+  static calcTokenInGivenExactBptOut = (
+    balance: BigNumberish,
+    normalizedWeight: BigNumberish,
+    bptAmountOut: BigNumberish,
+    bptTotalSupply: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // Token in, so we round up overall.
+
+    // Calculate the factor by which the invariant will increase after minting BPTAmountOut
+    const invariantRatio = FixedPoint.divUp(FixedPoint.add(bptTotalSupply, bptAmountOut), bptTotalSupply);
+    _require(invariantRatio.lte(WeightedMath.MAX_INVARIANT_RATIO), 'MAX_OUT_BPT_FOR_TOKEN_IN');
+
+    // Calculate by how much the token balance has to increase to match the invariantRatio
+    const balanceRatio = FixedPoint.powUp(invariantRatio, FixedPoint.divUp(FixedPoint.ONE, normalizedWeight));
+
+    const amountInWithoutFee = FixedPoint.mulUp(balance, FixedPoint.sub(balanceRatio, FixedPoint.ONE));
+
+    // We can now compute how much extra balance is being deposited and used in virtual swaps, and charge swap fees
+    // accordingly.
+    const taxableAmount = FixedPoint.mulUp(amountInWithoutFee, FixedPoint.complement(normalizedWeight));
+    const nonTaxableAmount = FixedPoint.sub(amountInWithoutFee, taxableAmount);
+
+    const taxableAmountPlusFees = FixedPoint.divUp(taxableAmount, FixedPoint.complement(swapFeePercentage));
+
+    return FixedPoint.add(nonTaxableAmount, taxableAmountPlusFees);
+  };
+
+  static calcBptInGivenExactTokensOut = (
+    balances: BigNumberish[],
+    normalizedWeights: BigNumberish[],
+    amountsOut: BigNumberish[],
+    bptTotalSupply: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // BPT in, so we round up overall.
+
+    const balanceRatiosWithoutFee: BigNumber[] = [];
+    let invariantRatioWithoutFees = Zero;
+    for (let i = 0; i < balances.length; i++) {
+      balanceRatiosWithoutFee[i] = FixedPoint.divUp(FixedPoint.sub(balances[i], amountsOut[i]), balances[i]);
+      invariantRatioWithoutFees = FixedPoint.add(
+        invariantRatioWithoutFees,
+        FixedPoint.mulUp(balanceRatiosWithoutFee[i], normalizedWeights[i])
+      );
+    }
+
+    let invariantRatio = FixedPoint.ONE;
+    for (let i = 0; i < balances.length; i++) {
+      // Swap fees are typically charged on 'token in', but there is no 'token in' here, so we apply it to
+      // 'token out'. This results in slightly larger price impact.
+
+      let amountOutWithFee: BigNumber;
+      if (invariantRatioWithoutFees.gt(balanceRatiosWithoutFee[i])) {
+        const nonTaxableAmount = FixedPoint.mulDown(balances[i], FixedPoint.complement(invariantRatioWithoutFees));
+        const taxableAmount = FixedPoint.sub(amountsOut[i], nonTaxableAmount);
+        const taxableAmountPlusFees = FixedPoint.divUp(taxableAmount, FixedPoint.complement(swapFeePercentage));
+
+        amountOutWithFee = FixedPoint.add(nonTaxableAmount, taxableAmountPlusFees);
+      } else {
+        amountOutWithFee = BigNumber.from(amountsOut[i]);
+        // If a token's amount out is not being charged a swap fee then it might be zero (e.g. when exiting a
+        // Pool with only a subset of tokens). In this case, the `invariantRatio` will not change at all.
+        if (amountOutWithFee.isZero()) continue;
+      }
+
+      const balanceRatio = FixedPoint.divDown(FixedPoint.sub(balances[i], amountOutWithFee), balances[i]);
+
+      invariantRatio = FixedPoint.mulDown(invariantRatio, FixedPoint.powDown(balanceRatio, normalizedWeights[i]));
+    }
+
+    return FixedPoint.mulUp(bptTotalSupply, FixedPoint.complement(invariantRatio));
+  };
+
+  static calcBptInGivenExactTokenOut = (
+    balance: BigNumberish,
+    normalizedWeight: BigNumberish,
+    amountOut: BigNumberish,
+    bptTotalSupply: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // BPT in, so we round up overall.
+
+    const balanceRatioWithoutFee = FixedPoint.divUp(FixedPoint.sub(balance, amountOut), balance);
+
+    const invariantRatioWithoutFees = FixedPoint.add(
+      FixedPoint.mulUp(balanceRatioWithoutFee, normalizedWeight),
+      FixedPoint.complement(normalizedWeight)
+    );
+
+    let amountOutWithFee: BigNumber;
+    if (invariantRatioWithoutFees.gt(balanceRatioWithoutFee)) {
+      // Swap fees are typically charged on 'token in', but there is no 'token in' here, so we apply it to
+      // 'token out'. This results in slightly larger price impact.
+
+      const nonTaxableAmount = FixedPoint.mulDown(balance, FixedPoint.complement(invariantRatioWithoutFees));
+      const taxableAmount = FixedPoint.sub(amountOut, nonTaxableAmount);
+      const taxableAmountPlusFees = FixedPoint.divUp(taxableAmount, FixedPoint.complement(swapFeePercentage));
+
+      amountOutWithFee = FixedPoint.add(nonTaxableAmount, taxableAmountPlusFees);
+    } else {
+      amountOutWithFee = BigNumber.from(amountOut);
+      // If a token's amount out is not being charged a swap fee then it might be zero.
+      // In this case, it's clear that the sender should not send any BPT.
+      if (amountOutWithFee.isZero()) return Zero;
+    }
+
+    const balanceRatio = FixedPoint.divDown(FixedPoint.sub(balance, amountOutWithFee), balance);
+
+    const invariantRatio = FixedPoint.powDown(balanceRatio, normalizedWeight);
+
+    return FixedPoint.mulUp(bptTotalSupply, FixedPoint.complement(invariantRatio));
+  };
+
+  static calcTokenOutGivenExactBptIn = (
+    balance: BigNumberish,
+    normalizedWeight: BigNumberish,
+    bptAmountIn: BigNumberish,
+    bptTotalSupply: BigNumberish,
+    swapFeePercentage: BigNumberish
+  ): BigNumber => {
+    // Token out, so we round down overall. The multiplication rounds down, but the power rounds up (so the base
+    // rounds up). Because (totalBPT - bptIn) / totalBPT <= 1, the exponent rounds down.
+
+    // Calculate the factor by which the invariant will decrease after burning BPTAmountIn
+    const invariantRatio = FixedPoint.divUp(FixedPoint.sub(bptTotalSupply, bptAmountIn), bptTotalSupply);
+    _require(invariantRatio.gte(WeightedMath.MIN_INVARIANT_RATIO), 'MIN_BPT_IN_FOR_TOKEN_OUT');
+
+    // Calculate by how much the token balance has to decrease to match invariantRatio
+    const balanceRatio = FixedPoint.powUp(invariantRatio, FixedPoint.divDown(FixedPoint.ONE, normalizedWeight));
+
+    // Because of rounding up, balanceRatio can be greater than one. Using complement prevents reverts.
+    const amountOutWithoutFee = FixedPoint.mulDown(balance, FixedPoint.complement(balanceRatio));
+
+    // We can now compute how much excess balance is being withdrawn as a result of the virtual swaps, which result
+    // in swap fees. Fees are rounded up.
+    const taxableAmount = FixedPoint.mulUp(amountOutWithoutFee, FixedPoint.complement(normalizedWeight));
+    const nonTaxableAmount = FixedPoint.sub(amountOutWithoutFee, taxableAmount);
+    const taxableAmountMinusFees = FixedPoint.mulUp(taxableAmount, FixedPoint.complement(swapFeePercentage));
+
+    return FixedPoint.add(nonTaxableAmount, taxableAmountMinusFees);
+  };
+
+  /**
+   * Calculate the amount of BPT which should be minted when adding a new token to the Pool.
+   *
+   * Note that normalizedWeight is set that it corresponds to the desired weight of this token *after* adding it.
+   * @param totalSupply - the total supply of the Pool's BPT.
+   * @param normalizedWeight - the normalized weight of the token to be added (normalized relative to final weights)
+   */
+  static calcBptOutAddToken = (totalSupply: BigNumberish, normalizedWeight: BigNumberish): BigNumber => {
+    const weightSumRatio = FixedPoint.divDown(FixedPoint.ONE, FixedPoint.sub(FixedPoint.ONE, normalizedWeight));
+
+    return FixedPoint.mulDown(totalSupply, FixedPoint.sub(weightSumRatio, FixedPoint.ONE));
+  };
+}
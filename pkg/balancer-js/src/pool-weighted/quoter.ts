@@ -0,0 +1,93 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { _require } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+import { ScalingHelpers } from '../math/scaling';
+import { WeightedMath } from './math';
+
+export type WeightedPoolState = {
+  // Balances of the Pool's tokens as reported by the Vault, i.e. not upscaled
+  balances: BigNumberish[];
+  // As returned by `getNormalizedWeights()`
+  normalizedWeights: BigNumberish[];
+  // As returned by `getScalingFactors()`
+  scalingFactors: BigNumberish[];
+  swapFeePercentage: BigNumberish;
+};
+
+/**
+ * Computes exact quotes for swaps on Weighted Pools, reproducing the scaling and swap fee handling of
+ * `BaseMinimalSwapInfoPool`.
+ */
+export class WeightedPoolQuoter {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Returns the amount of `indexOut` tokens received in exchange for `amountIn` tokens of `indexIn`.
+   * @param pool - the state of the Pool
+   * @param indexIn - the index of the token sent to the Pool
+   * @param indexOut - the index of the token received from the Pool
+   * @param amountIn - the amount of tokens sent, before fees
+   */
+  static swapGivenIn = (
+    pool: WeightedPoolState,
+    indexIn: number,
+    indexOut: number,
+    amountIn: BigNumberish
+  ): BigNumber => {
+    WeightedPoolQuoter._validateIndexes(pool, indexIn, indexOut);
+
+    // Fees are subtracted before scaling, to reduce the complexity of the rounding direction analysis.
+    const amountInWithoutFee = FixedPoint.sub(amountIn, FixedPoint.mulUp(amountIn, pool.swapFeePercentage));
+
+    const amountOut = WeightedMath.calcOutGivenIn(
+      ScalingHelpers.upscale(pool.balances[indexIn], pool.scalingFactors[indexIn]),
+      pool.normalizedWeights[indexIn],
+      ScalingHelpers.upscale(pool.balances[indexOut], pool.scalingFactors[indexOut]),
+      pool.normalizedWeights[indexOut],
+      ScalingHelpers.upscale(amountInWithoutFee, pool.scalingFactors[indexIn])
+    );
+
+    // amountOut tokens are exiting the Pool, so we round down.
+    return ScalingHelpers.downscaleDown(amountOut, pool.scalingFactors[indexOut]);
+  };
+
+  /**
+   * Returns the amount of `indexIn` tokens (fees included) required in exchange for `amountOut` tokens of `indexOut`.
+   * @param pool - the state of the Pool
+   * @param indexIn - the index of the token sent to the Pool
+   * @param indexOut - the index of the token received from the Pool
+   * @param amountOut - the amount of tokens received
+   */
+  static swapGivenOut = (
+    pool: WeightedPoolState,
+    indexIn: number,
+    indexOut: number,
+    amountOut: BigNumberish
+  ): BigNumber => {
+    WeightedPoolQuoter._validateIndexes(pool, indexIn, indexOut);
+
+    const amountIn = WeightedMath.calcInGivenOut(
+      ScalingHelpers.upscale(pool.balances[indexIn], pool.scalingFactors[indexIn]),
+      pool.normalizedWeights[indexIn],
+      ScalingHelpers.upscale(pool.balances[indexOut], pool.scalingFactors[indexOut]),
+      pool.normalizedWeights[indexOut],
+      ScalingHelpers.upscale(amountOut, pool.scalingFactors[indexOut])
+    );
+
+    // amountIn tokens are entering the Pool, so we round up.
+    const downscaledAmountIn = ScalingHelpers.downscaleUp(amountIn, pool.scalingFactors[indexIn]);
+
+    // Fees are added after scaling happens, to reduce the complexity of the rounding direction analysis.
+    return FixedPoint.divUp(downscaledAmountIn, FixedPoint.complement(pool.swapFeePercentage));
+  };
+
+  private static _validateIndexes = (pool: WeightedPoolState, indexIn: number, indexOut: number): void => {
+    const totalTokens = pool.balances.length;
+    _require(indexIn < totalTokens && indexOut < totalTokens && indexIn !== indexOut, 'OUT_OF_BOUNDS');
+  };
+}
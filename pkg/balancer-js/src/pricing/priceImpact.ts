@@ -0,0 +1,445 @@
+import { getAddress } from '@ethersproject/address';
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { Zero } from '@ethersproject/constants';
+import invariant from 'tiny-invariant';
+import { _require } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+import { IntegerMath } from '../math/math';
+import { ScalingHelpers } from '../math/scaling';
+import { LinearPoolQuoter, LinearPoolState } from '../pool-linear/quoter';
+import { ComposableStablePoolEncoder } from '../pool-stable/encoder';
+import { StableMath } from '../pool-stable/math';
+import { ComposableStablePoolQuoter, ComposableStablePoolState } from '../pool-stable/quoter';
+import { WeightedPoolQuoter, WeightedPoolState } from '../pool-weighted/quoter';
+import { BatchSwapStep, SwapKind } from '../types';
+
+export enum PricedPoolType {
+  Weighted = 'Weighted',
+  ComposableStable = 'ComposableStable',
+  Linear = 'Linear',
+}
+
+// `tokens` are the Pool's registered tokens (including BPT where applicable), in the same order as its balances. They
+// are only used to resolve the assets of batch swaps.
+export type PricedPool =
+  | { type: PricedPoolType.Weighted; tokens: string[]; state: WeightedPoolState }
+  | { type: PricedPoolType.ComposableStable; tokens: string[]; state: ComposableStablePoolState }
+  | { type: PricedPoolType.Linear; tokens: string[]; state: LinearPoolState };
+
+export type PriceImpact = {
+  amountIn: BigNumber;
+  amountOut: BigNumber;
+  // Prices are amounts of token in per token out, including swap fees (see `PriceImpactCalculator`)
+  spotPrice: BigNumber;
+  effectivePrice: BigNumber;
+  // The relative increase of the effective price over the spot price, as an 18 decimal fixed point value
+  priceImpact: BigNumber;
+  // The price impact in basis points, which may lose precision as it is converted to a floating point number
+  priceImpactBps: number;
+};
+
+export type BatchSwapPriceImpact = PriceImpact & {
+  // The asset deltas `queryBatchSwap` would return
+  deltas: BigNumber[];
+  assetInIndex: number;
+  assetOutIndex: number;
+};
+
+type ScaledSpotPrice = {
+  // The spot price between upscaled amounts
+  price: BigNumber;
+  scalingFactorIn: BigNumber;
+  scalingFactorOut: BigNumber;
+};
+
+const BPS = FixedPoint.ONE.div(10000);
+
+/**
+ * Computes spot prices, effective prices and price impact of swaps and batch swaps across Weighted, Composable Stable
+ * and Linear Pools. Swap amounts are computed by each Pool type's quoter, and are therefore exact.
+ *
+ * Prices are 18 decimal fixed point ratios between raw token amounts (i.e. not adjusted for decimals), so that they
+ * can be chained across Pools. To get the price between whole tokens, multiply them by 10^(decimalsOut - decimalsIn).
+ * The spot price is the marginal price of an infinitesimal swap, including swap fees: price impact is then the
+ * relative amount by which the effective price of a swap exceeds it. Price impact is computed from the swap amounts
+ * directly, and is not affected by the precision of the prices returned.
+ */
+export class PriceImpactCalculator {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Returns the amount of `indexIn` tokens paid per `indexOut` token for infinitesimal swaps, swap fees included.
+   * @param pool - the Pool and its state
+   * @param indexIn - the registered index of the token sent to the Pool
+   * @param indexOut - the registered index of the token received from the Pool
+   */
+  static getSpotPrice = (pool: PricedPool, indexIn: number, indexOut: number): BigNumber => {
+    const { price, scalingFactorIn, scalingFactorOut } = PriceImpactCalculator._scaledSpotPrice(
+      pool,
+      indexIn,
+      indexOut
+    );
+    return IntegerMath.divUp(IntegerMath.mul(price, scalingFactorOut), scalingFactorIn);
+  };
+
+  /**
+   * Returns the amount calculated by the Pool for a swap: the amount out for `GivenIn` swaps, and the amount in (fees
+   * included) for `GivenOut` swaps.
+   */
+  static querySwap = (
+    pool: PricedPool,
+    kind: SwapKind,
+    indexIn: number,
+    indexOut: number,
+    amount: BigNumberish
+  ): BigNumber => {
+    switch (pool.type) {
+      case PricedPoolType.Weighted:
+        return kind === SwapKind.GivenIn
+          ? WeightedPoolQuoter.swapGivenIn(pool.state, indexIn, indexOut, amount)
+          : WeightedPoolQuoter.swapGivenOut(pool.state, indexIn, indexOut, amount);
+      case PricedPoolType.ComposableStable:
+        return kind === SwapKind.GivenIn
+          ? ComposableStablePoolQuoter.swapGivenIn(pool.state, indexIn, indexOut, amount)
+          : ComposableStablePoolQuoter.swapGivenOut(pool.state, indexIn, indexOut, amount);
+      case PricedPoolType.Linear:
+        return LinearPoolQuoter.swap(pool.state, kind, indexIn, indexOut, amount);
+    }
+  };
+
+  /**
+   * Returns the amount of `indexIn` tokens paid per `indexOut` token in a swap, fees included.
+   * @param amount - the amount given, i.e. the amount in for `GivenIn` swaps and the amount out for `GivenOut` swaps
+   */
+  static getEffectivePrice = (
+    pool: PricedPool,
+    kind: SwapKind,
+    indexIn: number,
+    indexOut: number,
+    amount: BigNumberish
+  ): BigNumber => PriceImpactCalculator.getSwapPriceImpact(pool, kind, indexIn, indexOut, amount).effectivePrice;
+
+  /**
+   * Computes the prices and price impact of a swap. Dust swaps whose amounts round down to zero cannot be priced, and
+   * are rejected.
+   * @param amount - the amount given, i.e. the amount in for `GivenIn` swaps and the amount out for `GivenOut` swaps
+   */
+  static getSwapPriceImpact = (
+    pool: PricedPool,
+    kind: SwapKind,
+    indexIn: number,
+    indexOut: number,
+    amount: BigNumberish
+  ): PriceImpact => {
+    const amountCalculated = PriceImpactCalculator.querySwap(pool, kind, indexIn, indexOut, amount);
+    const idealAmountCalculated = PriceImpactCalculator._idealSwap(pool, kind, indexIn, indexOut, amount);
+
+    return kind === SwapKind.GivenIn
+      ? PriceImpactCalculator._priceImpact(amount, amountCalculated, amount, idealAmountCalculated)
+      : PriceImpactCalculator._priceImpact(amountCalculated, amount, idealAmountCalculated, amount);
+  };
+
+  /**
+   * Computes the prices and price impact of a batch swap, executing its steps as the Vault would: steps with an
+   * amount of zero use the amount calculated by the previous one, and Pools used more than once see the balances left
+   * by the previous steps. Spot prices are always those before the batch swap.
+   *
+   * The spot price is that of the batch swap's route, weighted by the amounts sent through each path. Batch swaps must
+   * have a single token in and a single token out: ETH is not supported, and must be replaced by WETH.
+   * @param kind - the kind of batch swap
+   * @param swaps - the swap steps, as in `batchSwap`
+   * @param assets - the assets referenced by the swap steps
+   * @param pools - the Pools used by the swap steps, keyed by Pool id
+   */
+  static getBatchSwapPriceImpact = (
+    kind: SwapKind,
+    swaps: BatchSwapStep[],
+    assets: string[],
+    pools: Record<string, PricedPool>
+  ): BatchSwapPriceImpact => {
+    // Spot prices are those before the batch swap, while swap amounts are computed using the balances left by previous
+    // steps.
+    const initialStates = new Map<string, PricedPool>();
+    Object.entries(pools).forEach(([poolId, pool]) => initialStates.set(poolId.toLowerCase(), pool));
+    const states = new Map(initialStates);
+
+    const deltas = assets.map(() => Zero);
+    const idealDeltas = assets.map(() => Zero);
+
+    let previousTokenCalculated = '';
+    let previousAmountCalculated = Zero;
+    let previousIdealAmountCalculated = Zero;
+
+    swaps.forEach((step, i) => {
+      _require(step.assetInIndex < assets.length && step.assetOutIndex < assets.length, 'OUT_OF_BOUNDS');
+      const tokenIn = getAddress(assets[step.assetInIndex]);
+      const tokenOut = getAddress(assets[step.assetOutIndex]);
+      _require(tokenIn !== tokenOut, 'CANNOT_SWAP_SAME_TOKEN');
+
+      let amount = BigNumber.from(step.amount);
+      let idealAmount = amount;
+      if (amount.isZero()) {
+        _require(i > 0, 'UNKNOWN_AMOUNT_IN_FIRST_SWAP');
+        _require(
+          previousTokenCalculated === (kind === SwapKind.GivenIn ? tokenIn : tokenOut),
+          'MALCONSTRUCTED_MULTIHOP_SWAP'
+        );
+        amount = previousAmountCalculated;
+        idealAmount = previousIdealAmountCalculated;
+      }
+
+      const pool = states.get(step.poolId.toLowerCase());
+      invariant(pool !== undefined, `Pool ${step.poolId} not found`);
+      const indexIn = PriceImpactCalculator._indexOf(pool, tokenIn);
+      const indexOut = PriceImpactCalculator._indexOf(pool, tokenOut);
+
+      const amountCalculated = PriceImpactCalculator.querySwap(pool, kind, indexIn, indexOut, amount);
+      const idealAmountCalculated = PriceImpactCalculator._idealSwap(
+        initialStates.get(step.poolId.toLowerCase()) as PricedPool,
+        kind,
+        indexIn,
+        indexOut,
+        idealAmount
+      );
+
+      const [amountIn, amountOut] = kind === SwapKind.GivenIn ? [amount, amountCalculated] : [amountCalculated, amount];
+      const [idealAmountIn, idealAmountOut] =
+        kind === SwapKind.GivenIn ? [idealAmount, idealAmountCalculated] : [idealAmountCalculated, idealAmount];
+
+      deltas[step.assetInIndex] = deltas[step.assetInIndex].add(amountIn);
+      deltas[step.assetOutIndex] = deltas[step.assetOutIndex].sub(amountOut);
+      idealDeltas[step.assetInIndex] = idealDeltas[step.assetInIndex].add(idealAmountIn);
+      idealDeltas[step.assetOutIndex] = idealDeltas[step.assetOutIndex].sub(idealAmountOut);
+
+      states.set(
+        step.poolId.toLowerCase(),
+        PriceImpactCalculator._afterSwap(pool, indexIn, indexOut, amountIn, amountOut)
+      );
+
+      previousTokenCalculated = kind === SwapKind.GivenIn ? tokenOut : tokenIn;
+      previousAmountCalculated = amountCalculated;
+      previousIdealAmountCalculated = idealAmountCalculated;
+    });
+
+    const assetInIndex = deltas.findIndex((delta) => delta.gt(0));
+    const assetOutIndex = deltas.findIndex((delta) => delta.lt(0));
+    invariant(
+      deltas.filter((delta) => !delta.isZero()).length === 2 && assetInIndex !== -1 && assetOutIndex !== -1,
+      'Batch swaps must have a single token in and out'
+    );
+
+    return {
+      ...PriceImpactCalculator._priceImpact(
+        deltas[assetInIndex],
+        deltas[assetOutIndex].abs(),
+        idealDeltas[assetInIndex],
+        idealDeltas[assetOutIndex].abs()
+      ),
+      deltas,
+      assetInIndex,
+      assetOutIndex,
+    };
+  };
+
+  private static _priceImpact = (
+    amountIn: BigNumberish,
+    amountOut: BigNumberish,
+    idealAmountIn: BigNumberish,
+    idealAmountOut: BigNumberish
+  ): PriceImpact => {
+    // Dust swaps may round down to nothing, leaving no price to compare against.
+    invariant(
+      [amountOut, idealAmountIn, idealAmountOut].every((amount) => !BigNumber.from(amount).isZero()),
+      'Swap is too small to be priced: its amounts round down to zero'
+    );
+
+    const spotPrice = IntegerMath.divUp(IntegerMath.mul(idealAmountIn, FixedPoint.ONE), idealAmountOut);
+    const effectivePrice = IntegerMath.divUp(IntegerMath.mul(amountIn, FixedPoint.ONE), amountOut);
+
+    // effectivePrice / spotPrice - 1, computed from the amounts to avoid the rounding of the prices.
+    const priceRatio = BigNumber.from(amountIn)
+      .mul(idealAmountOut)
+      .mul(FixedPoint.ONE)
+      .div(BigNumber.from(amountOut).mul(idealAmountIn));
+    const priceImpact = priceRatio.sub(FixedPoint.ONE);
+
+    return {
+      amountIn: BigNumber.from(amountIn),
+      amountOut: BigNumber.from(amountOut),
+      spotPrice,
+      effectivePrice,
+      priceImpact,
+      // Impacts are unbounded, so they are not converted with `toNumber`, which throws above 2^53.
+      priceImpactBps: Number(priceImpact.toString()) / Number(BPS.toString()),
+    };
+  };
+
+  // Returns the amount calculated if the swap were executed at the spot price.
+  private static _idealSwap = (
+    pool: PricedPool,
+    kind: SwapKind,
+    indexIn: number,
+    indexOut: number,
+    amount: BigNumberish
+  ): BigNumber => {
+    const { price, scalingFactorIn, scalingFactorOut } = PriceImpactCalculator._scaledSpotPrice(
+      pool,
+      indexIn,
+      indexOut
+    );
+
+    // amountOut = amountIn * scalingFactorIn / (price * scalingFactorOut), in fixed point terms.
+    return kind === SwapKind.GivenIn
+      ? BigNumber.from(amount).mul(scalingFactorIn).mul(FixedPoint.ONE).div(price.mul(scalingFactorOut))
+      : IntegerMath.divUp(BigNumber.from(amount).mul(price).mul(scalingFactorOut), FixedPoint.ONE.mul(scalingFactorIn));
+  };
+
+  private static _scaledSpotPrice = (pool: PricedPool, indexIn: number, indexOut: number): ScaledSpotPrice => {
+    switch (pool.type) {
+      case PricedPoolType.Weighted:
+        return PriceImpactCalculator._weightedSpotPrice(pool.state, indexIn, indexOut);
+      case PricedPoolType.ComposableStable:
+        return PriceImpactCalculator._stableSpotPrice(pool.state, indexIn, indexOut);
+      case PricedPoolType.Linear:
+        return PriceImpactCalculator._linearSpotPrice(pool.state, indexIn, indexOut);
+    }
+  };
+
+  private static _weightedSpotPrice = (pool: WeightedPoolState, indexIn: number, indexOut: number): ScaledSpotPrice => {
+    const totalTokens = pool.balances.length;
+    _require(indexIn < totalTokens && indexOut < totalTokens && indexIn !== indexOut, 'OUT_OF_BOUNDS');
+
+    const scalingFactorIn = BigNumber.from(pool.scalingFactors[indexIn]);
+    const scalingFactorOut = BigNumber.from(pool.scalingFactors[indexOut]);
+
+    // (balanceIn / weightIn) / (balanceOut / weightOut), rounding up as it is a price paid.
+    const numerator = FixedPoint.divUp(
+      ScalingHelpers.upscale(pool.balances[indexIn], scalingFactorIn),
+      pool.normalizedWeights[indexIn]
+    );
+    const denominator = FixedPoint.divDown(
+      ScalingHelpers.upscale(pool.balances[indexOut], scalingFactorOut),
+      pool.normalizedWeights[indexOut]
+    );
+    const price = FixedPoint.divUp(
+      FixedPoint.divUp(numerator, denominator),
+      FixedPoint.complement(pool.swapFeePercentage)
+    );
+
+    return { price, scalingFactorIn, scalingFactorOut };
+  };
+
+  private static _stableSpotPrice = (
+    pool: ComposableStablePoolState,
+    indexIn: number,
+    indexOut: number
+  ): ScaledSpotPrice => {
+    const totalTokens = pool.balances.length;
+    _require(indexIn < totalTokens && indexOut < totalTokens && indexIn !== indexOut, 'OUT_OF_BOUNDS');
+    invariant(indexIn !== pool.bptIndex && indexOut !== pool.bptIndex, 'Swaps involving BPT are not supported');
+
+    const scaledBalances = ScalingHelpers.upscaleArray(pool.balances, pool.scalingFactors);
+    const balances = ComposableStablePoolEncoder.dropBptItem(scaledBalances, pool.bptIndex);
+    const invariantValue = StableMath.calculateInvariant(pool.amplificationParameter, balances);
+
+    // The price is the ratio of the partial derivatives of the invariant equation
+    //   A * n^n * S + D = A * D * n^n + D^(n+1) / (n^n * P)
+    // with respect to each balance: that is, (A * n^n + D_P / x_out) / (A * n^n + D_P / x_in), where
+    // D_P = D^(n+1) / (n^n * P). This is computed exactly using integer arithmetic.
+    const numTokens = balances.length;
+    const ampTimesTotal = BigNumber.from(pool.amplificationParameter).mul(numTokens);
+    const productTerm = balances.reduce((product, balance) => product.mul(balance).mul(numTokens), BigNumber.from(1));
+    const invariantTerm = invariantValue.pow(numTokens + 1).mul(StableMath.AMP_PRECISION);
+
+    const balanceIn = balances[ComposableStablePoolEncoder.skipBptIndex(indexIn, pool.bptIndex)];
+    const balanceOut = balances[ComposableStablePoolEncoder.skipBptIndex(indexOut, pool.bptIndex)];
+    const numerator = balanceIn.mul(ampTimesTotal.mul(productTerm).mul(balanceOut).add(invariantTerm));
+    const denominator = balanceOut.mul(ampTimesTotal.mul(productTerm).mul(balanceIn).add(invariantTerm));
+
+    const price = FixedPoint.divUp(
+      IntegerMath.divUp(numerator.mul(FixedPoint.ONE), denominator),
+      FixedPoint.complement(pool.swapFeePercentage)
+    );
+
+    return {
+      price,
+      scalingFactorIn: BigNumber.from(pool.scalingFactors[indexIn]),
+      scalingFactorOut: BigNumber.from(pool.scalingFactors[indexOut]),
+    };
+  };
+
+  private static _linearSpotPrice = (pool: LinearPoolState, indexIn: number, indexOut: number): ScaledSpotPrice => {
+    const totalTokens = pool.balances.length;
+    _require(indexIn < totalTokens && indexOut < totalTokens && indexIn !== indexOut, 'OUT_OF_BOUNDS');
+
+    const scalingFactors = LinearPoolQuoter.getScalingFactors(pool);
+    const mainBalance = ScalingHelpers.upscale(pool.balances[pool.mainIndex], scalingFactors[pool.mainIndex]);
+
+    // Nominal main balances grow faster than real ones below the lower target, and slower above the upper target. The
+    // slope depends on whether the main balance increases or decreases, as it changes at the targets.
+    const slope = (increasing: boolean): BigNumber => {
+      const belowLower = increasing ? mainBalance.lt(pool.lowerTarget) : mainBalance.lte(pool.lowerTarget);
+      const aboveUpper = increasing ? mainBalance.gte(pool.upperTarget) : mainBalance.gt(pool.upperTarget);
+      if (belowLower) return FixedPoint.add(FixedPoint.ONE, pool.swapFeePercentage);
+      if (aboveUpper) return FixedPoint.sub(FixedPoint.ONE, pool.swapFeePercentage);
+      return FixedPoint.ONE;
+    };
+
+    // BPT is initially minted one to one with the nominal balances.
+    const rate = BigNumber.from(pool.virtualSupply).isZero() ? FixedPoint.ONE : LinearPoolQuoter.getRate(pool);
+
+    let price: BigNumber;
+    if (indexIn === pool.mainIndex) {
+      const nominalPrice = indexOut === pool.bptIndex ? rate : FixedPoint.ONE;
+      price = FixedPoint.divUp(nominalPrice, slope(true));
+    } else if (indexOut === pool.mainIndex) {
+      const nominalPrice = indexIn === pool.bptIndex ? FixedPoint.divUp(FixedPoint.ONE, rate) : FixedPoint.ONE;
+      price = FixedPoint.mulUp(nominalPrice, slope(false));
+    } else {
+      price = indexOut === pool.bptIndex ? rate : FixedPoint.divUp(FixedPoint.ONE, rate);
+    }
+
+    return { price, scalingFactorIn: scalingFactors[indexIn], scalingFactorOut: scalingFactors[indexOut] };
+  };
+
+  // Returns the Pool's state after a swap, as updated by the Vault.
+  private static _afterSwap = (
+    pool: PricedPool,
+    indexIn: number,
+    indexOut: number,
+    amountIn: BigNumber,
+    amountOut: BigNumber
+  ): PricedPool => {
+    const balances = pool.state.balances.map((balance, i) => {
+      if (i === indexIn) return BigNumber.from(balance).add(amountIn);
+      if (i === indexOut) return BigNumber.from(balance).sub(amountOut);
+      return BigNumber.from(balance);
+    });
+
+    switch (pool.type) {
+      case PricedPoolType.Weighted:
+        return { ...pool, state: { ...pool.state, balances } };
+      case PricedPoolType.ComposableStable:
+        return { ...pool, state: { ...pool.state, balances } };
+      case PricedPoolType.Linear: {
+        // BPT sent to the Pool is no longer in circulation, and BPT taken from it enters circulation.
+        const { bptIndex } = pool.state;
+        const virtualSupply = BigNumber.from(pool.state.virtualSupply)
+          .sub(indexIn === bptIndex ? amountIn : Zero)
+          .add(indexOut === bptIndex ? amountOut : Zero);
+        return { ...pool, state: { ...pool.state, balances, virtualSupply } };
+      }
+    }
+  };
+
+  private static _indexOf = (pool: PricedPool, token: string): number => {
+    const index = pool.tokens.findIndex((t) => getAddress(t) === token);
+    _require(index !== -1, 'TOKEN_NOT_REGISTERED');
+    return index;
+  };
+}
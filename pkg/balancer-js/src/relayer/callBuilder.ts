@@ -0,0 +1,623 @@
+import { defaultAbiCoder, Interface } from '@ethersproject/abi';
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import invariant from 'tiny-invariant';
+import { BasePoolDecoder } from '../pool-utils/decoder';
+import { LegacyStablePoolExitKind, StablePoolExitKind, StablePoolJoinKind } from '../pool-stable/encoder';
+import { WeightedPoolExitKind } from '../pool-weighted/encoder';
+import {
+  BatchSwapStep,
+  ExitPoolRequest,
+  FundManagement,
+  JoinPoolRequest,
+  SingleSwap,
+  SwapKind,
+  UserBalanceOp,
+} from '../types';
+import { getReferenceKey, isChainedReference, isTemporaryChainedReference } from './chainedReferences';
+
+// These match the `PoolKind` values used by the relayer's `VaultActions` to process chained references in userData.
+export enum RelayerPoolKind {
+  WEIGHTED = 0,
+  LEGACY_STABLE,
+  COMPOSABLE_STABLE,
+  COMPOSABLE_STABLE_V2,
+}
+
+// The exits in which `VaultActions` replaces a chained reference, for each Pool kind. These are the exits given an exact
+// BPT amount in, numbered as each Pool kind does.
+const CHAINED_REFERENCE_EXIT_KINDS: Record<RelayerPoolKind, number[]> = {
+  [RelayerPoolKind.WEIGHTED]: [
+    WeightedPoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT,
+    WeightedPoolExitKind.EXACT_BPT_IN_FOR_TOKENS_OUT,
+  ],
+  [RelayerPoolKind.LEGACY_STABLE]: [
+    LegacyStablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT,
+    LegacyStablePoolExitKind.EXACT_BPT_IN_FOR_TOKENS_OUT,
+  ],
+  [RelayerPoolKind.COMPOSABLE_STABLE]: [StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT],
+  [RelayerPoolKind.COMPOSABLE_STABLE_V2]: [
+    StablePoolExitKind.EXACT_BPT_IN_FOR_ONE_TOKEN_OUT,
+    StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT,
+  ],
+};
+
+export type OutputReference = {
+  index: number;
+  key: BigNumberish;
+};
+
+export type RelayerCall = {
+  // The calldata to be passed to `BalancerRelayer.multicall`
+  data: string;
+  // The chained references whose values are set by this call
+  outputReferences: BigNumber[];
+};
+
+export type RelayerSwapParams = {
+  singleSwap: SingleSwap;
+  funds: FundManagement;
+  limit: BigNumberish;
+  deadline: BigNumberish;
+  value: BigNumberish;
+  outputReference: BigNumberish;
+};
+
+export type RelayerBatchSwapParams = {
+  kind: SwapKind;
+  swaps: BatchSwapStep[];
+  assets: string[];
+  funds: FundManagement;
+  limits: BigNumberish[];
+  deadline: BigNumberish;
+  value: BigNumberish;
+  outputReferences: OutputReference[];
+};
+
+export type RelayerManageUserBalanceParams = {
+  ops: UserBalanceOp[];
+  value: BigNumberish;
+  outputReferences: OutputReference[];
+};
+
+export type RelayerJoinPoolParams = {
+  poolId: string;
+  kind: RelayerPoolKind;
+  sender: string;
+  recipient: string;
+  joinPoolRequest: JoinPoolRequest;
+  value: BigNumberish;
+  outputReference: BigNumberish;
+};
+
+export type RelayerExitPoolParams = {
+  poolId: string;
+  kind: RelayerPoolKind;
+  sender: string;
+  recipient: string;
+  exitPoolRequest: ExitPoolRequest;
+  outputReferences: OutputReference[];
+};
+
+export type RelayerGaugeTransferParams = {
+  gauge: string;
+  sender: string;
+  recipient: string;
+  amount: BigNumberish;
+};
+
+export type RelayerGaugeMintParams = {
+  gauges: string[];
+  outputReference: BigNumberish;
+};
+
+export type RelayerGaugeSetMinterApprovalParams = {
+  approval: boolean;
+  user: string;
+  deadline: BigNumberish;
+  v: BigNumberish;
+  r: string;
+  s: string;
+};
+
+export type RelayerVaultPermitParams = {
+  token: string;
+  owner: string;
+  value: BigNumberish;
+  deadline: BigNumberish;
+  v: BigNumberish;
+  r: string;
+  s: string;
+};
+
+export type RelayerVaultPermitDAIParams = {
+  token: string;
+  holder: string;
+  nonce: BigNumberish;
+  expiry: BigNumberish;
+  allowed: boolean;
+  v: BigNumberish;
+  r: string;
+  s: string;
+};
+
+export type RelayerWrapParams = {
+  wrappedToken: string;
+  sender: string;
+  recipient: string;
+  amount: BigNumberish;
+  outputReference: BigNumberish;
+};
+
+export type RelayerAaveWrapParams = {
+  staticToken: string;
+  sender: string;
+  recipient: string;
+  amount: BigNumberish;
+  // Whether the underlying token (as opposed to the aToken) is wrapped or unwrapped
+  useUnderlying: boolean;
+  outputReference: BigNumberish;
+};
+
+export type RelayerEulerWrapParams = RelayerWrapParams & {
+  eulerProtocol: string;
+};
+
+export type RelayerLidoWrapParams = {
+  sender: string;
+  recipient: string;
+  amount: BigNumberish;
+  outputReference: BigNumberish;
+};
+
+export type RelayerLidoStakeParams = {
+  recipient: string;
+  amount: BigNumberish;
+  outputReference: BigNumberish;
+};
+
+const SINGLE_SWAP =
+  'tuple(bytes32 poolId, uint8 kind, address assetIn, address assetOut, uint256 amount, bytes userData)';
+const BATCH_SWAP_STEP =
+  'tuple(bytes32 poolId, uint256 assetInIndex, uint256 assetOutIndex, uint256 amount, bytes userData)';
+const FUNDS = 'tuple(address sender, bool fromInternalBalance, address recipient, bool toInternalBalance)';
+const USER_BALANCE_OP = 'tuple(uint8 kind, address asset, uint256 amount, address sender, address recipient)';
+const JOIN_REQUEST = 'tuple(address[] assets, uint256[] maxAmountsIn, bytes userData, bool fromInternalBalance)';
+const EXIT_REQUEST = 'tuple(address[] assets, uint256[] minAmountsOut, bytes userData, bool toInternalBalance)';
+const OUTPUT_REFERENCES = 'tuple(uint256 index, uint256 key)[]';
+
+// Wrapping libraries which share the same interface for wrapping and unwrapping.
+const WRAPPER_FUNCTIONS = [
+  'wrapCompoundV2',
+  'unwrapCompoundV2',
+  'wrapERC4626',
+  'unwrapERC4626',
+  'unwrapEuler',
+  'wrapGearbox',
+  'unwrapGearbox',
+  'wrapReaperVaultToken',
+  'unwrapReaperVaultToken',
+  'wrapShareToken',
+  'unwrapShareToken',
+  'wrapTetu',
+  'unwrapTetu',
+  'wrapUnbuttonToken',
+  'unwrapUnbuttonToken',
+  'wrapYearn',
+  'unwrapYearn',
+] as const;
+
+type WrapperFunction = (typeof WRAPPER_FUNCTIONS)[number];
+
+const relayerLibrary = new Interface([
+  'function approveVault(address token, uint256 amount)',
+  'function peekChainedReferenceValue(uint256 ref) returns (uint256 value)',
+  'function setRelayerApproval(address relayer, bool approved, bytes authorisation)',
+  // VaultActions
+  `function swap(${SINGLE_SWAP} singleSwap, ${FUNDS} funds, uint256 limit, uint256 deadline, uint256 value, uint256 outputReference)`,
+  `function batchSwap(uint8 kind, ${BATCH_SWAP_STEP}[] swaps, address[] assets, ${FUNDS} funds, int256[] limits, uint256 deadline, uint256 value, ${OUTPUT_REFERENCES} outputReferences)`,
+  `function manageUserBalance(${USER_BALANCE_OP}[] ops, uint256 value, ${OUTPUT_REFERENCES} outputReferences)`,
+  `function joinPool(bytes32 poolId, uint8 kind, address sender, address recipient, ${JOIN_REQUEST} request, uint256 value, uint256 outputReference)`,
+  `function exitPool(bytes32 poolId, uint8 kind, address sender, address recipient, ${EXIT_REQUEST} request, ${OUTPUT_REFERENCES} outputReferences)`,
+  // GaugeActions
+  'function gaugeDeposit(address gauge, address sender, address recipient, uint256 amount)',
+  'function gaugeWithdraw(address gauge, address sender, address recipient, uint256 amount)',
+  'function gaugeMint(address[] gauges, uint256 outputReference)',
+  'function gaugeSetMinterApproval(bool approval, address user, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function gaugeClaimRewards(address[] gauges)',
+  'function gaugeCheckpoint(address user, address[] gauges)',
+  // VaultPermit
+  'function vaultPermit(address token, address owner, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function vaultPermitDAI(address token, address holder, uint256 nonce, uint256 expiry, bool allowed, uint8 v, bytes32 r, bytes32 s)',
+  // Wrapping libraries
+  ...WRAPPER_FUNCTIONS.map(
+    (name) =>
+      `function ${name}(address wrappedToken, address sender, address recipient, uint256 amount, uint256 outputReference)`
+  ),
+  'function wrapAaveDynamicToken(address staticToken, address sender, address recipient, uint256 amount, bool fromUnderlying, uint256 outputReference)',
+  'function unwrapAaveStaticToken(address staticToken, address sender, address recipient, uint256 amount, bool toUnderlying, uint256 outputReference)',
+  'function wrapEuler(address wrappedToken, address eulerProtocol, address sender, address recipient, uint256 amount, uint256 outputReference)',
+  'function wrapStETH(address sender, address recipient, uint256 amount, uint256 outputReference)',
+  'function unwrapWstETH(address sender, address recipient, uint256 amount, uint256 outputReference)',
+  'function stakeETH(address recipient, uint256 amount, uint256 outputReference)',
+  'function stakeETHAndWrap(address recipient, uint256 amount, uint256 outputReference)',
+]);
+
+const relayerEntrypoint = new Interface(['function multicall(bytes[] data) payable returns (bytes[] results)']);
+
+/**
+ * Composes the calls of a `BalancerRelayer.multicall`, with one typed method per action of the `BatchRelayerLibrary`.
+ *
+ * Every method returns the calldata of its step along with the chained references it sets. The builder keeps track
+ * of which references hold a value at each step, and throws if a reference is consumed before being produced (or
+ * after being consumed, for temporary references).
+ *
+ * @example
+ * const builder = new RelayerCallBuilder();
+ * builder.wrapERC4626({ wrappedToken, sender, recipient: relayer, amount, outputReference: wrappedRef });
+ * builder.joinPool({ ..., joinPoolRequest: { ..., userData: encodeJoin([wrappedRef]) }, outputReference: bptRef });
+ * builder.gaugeDeposit({ gauge, sender: relayer, recipient: user, amount: bptRef });
+ * await relayer.multicall(builder.getCalls());
+ */
+export class RelayerCallBuilder {
+  private readonly _calls: RelayerCall[] = [];
+  // Keys of the chained references which currently hold a value. Temporary and read-only references with the same key
+  // share the same storage slot, so they are tracked together.
+  private readonly _availableReferenceKeys = new Set<string>();
+
+  /**
+   * Returns the calldata of every step, in order, as expected by `BalancerRelayer.multicall`.
+   */
+  getCalls = (): string[] => this._calls.map(({ data }) => data);
+
+  /**
+   * Returns the calldata for `BalancerRelayer.multicall` with all of the steps.
+   */
+  encodeMulticall = (): string => relayerEntrypoint.encodeFunctionData('multicall', [this.getCalls()]);
+
+  // BaseRelayerLibrary
+
+  approveVault = (token: string, amount: BigNumberish): RelayerCall =>
+    this._addCall(relayerLibrary.encodeFunctionData('approveVault', [token, amount]), [amount], []);
+
+  peekChainedReferenceValue = (ref: BigNumberish): RelayerCall =>
+    // Peeking does not clear temporary references, so it is neither a consumption nor a production.
+    this._addCall(relayerLibrary.encodeFunctionData('peekChainedReferenceValue', [ref]), [], []);
+
+  setRelayerApproval = (relayer: string, approved: boolean, authorisation: string): RelayerCall =>
+    this._addCall(relayerLibrary.encodeFunctionData('setRelayerApproval', [relayer, approved, authorisation]), [], []);
+
+  // VaultActions
+
+  swap = (params: RelayerSwapParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('swap', [
+        params.singleSwap,
+        params.funds,
+        params.limit,
+        params.deadline,
+        params.value,
+        params.outputReference,
+      ]),
+      [params.singleSwap.amount],
+      [params.outputReference]
+    );
+
+  batchSwap = (params: RelayerBatchSwapParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('batchSwap', [
+        params.kind,
+        params.swaps,
+        params.assets,
+        params.funds,
+        params.limits,
+        params.deadline,
+        params.value,
+        params.outputReferences,
+      ]),
+      params.swaps.map(({ amount }) => amount),
+      RelayerCallBuilder._outputReferenceKeys(params.outputReferences, params.assets.length)
+    );
+
+  manageUserBalance = (params: RelayerManageUserBalanceParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('manageUserBalance', [params.ops, params.value, params.outputReferences]),
+      params.ops.map(({ amount }) => amount),
+      RelayerCallBuilder._outputReferenceKeys(params.outputReferences, params.ops.length)
+    );
+
+  joinPool = (params: RelayerJoinPoolParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('joinPool', [
+        params.poolId,
+        params.kind,
+        params.sender,
+        params.recipient,
+        params.joinPoolRequest,
+        params.value,
+        params.outputReference,
+      ]),
+      RelayerCallBuilder._joinReferenceInputs(params.joinPoolRequest.userData),
+      [params.outputReference]
+    );
+
+  exitPool = (params: RelayerExitPoolParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('exitPool', [
+        params.poolId,
+        params.kind,
+        params.sender,
+        params.recipient,
+        params.exitPoolRequest,
+        params.outputReferences,
+      ]),
+      RelayerCallBuilder._exitReferenceInputs(params.kind, params.exitPoolRequest.userData),
+      RelayerCallBuilder._outputReferenceKeys(params.outputReferences, params.exitPoolRequest.assets.length)
+    );
+
+  // GaugeActions
+
+  gaugeDeposit = (params: RelayerGaugeTransferParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('gaugeDeposit', [params.gauge, params.sender, params.recipient, params.amount]),
+      [params.amount],
+      []
+    );
+
+  gaugeWithdraw = (params: RelayerGaugeTransferParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('gaugeWithdraw', [
+        params.gauge,
+        params.sender,
+        params.recipient,
+        params.amount,
+      ]),
+      [params.amount],
+      []
+    );
+
+  gaugeMint = (params: RelayerGaugeMintParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('gaugeMint', [params.gauges, params.outputReference]),
+      [],
+      [params.outputReference]
+    );
+
+  gaugeSetMinterApproval = (params: RelayerGaugeSetMinterApprovalParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('gaugeSetMinterApproval', [
+        params.approval,
+        params.user,
+        params.deadline,
+        params.v,
+        params.r,
+        params.s,
+      ]),
+      [],
+      []
+    );
+
+  gaugeClaimRewards = (gauges: string[]): RelayerCall =>
+    this._addCall(relayerLibrary.encodeFunctionData('gaugeClaimRewards', [gauges]), [], []);
+
+  gaugeCheckpoint = (user: string, gauges: string[]): RelayerCall =>
+    this._addCall(relayerLibrary.encodeFunctionData('gaugeCheckpoint', [user, gauges]), [], []);
+
+  // VaultPermit
+
+  vaultPermit = (params: RelayerVaultPermitParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('vaultPermit', [
+        params.token,
+        params.owner,
+        params.value,
+        params.deadline,
+        params.v,
+        params.r,
+        params.s,
+      ]),
+      [],
+      []
+    );
+
+  vaultPermitDAI = (params: RelayerVaultPermitDAIParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('vaultPermitDAI', [
+        params.token,
+        params.holder,
+        params.nonce,
+        params.expiry,
+        params.allowed,
+        params.v,
+        params.r,
+        params.s,
+      ]),
+      [],
+      []
+    );
+
+  // Wrapping libraries
+
+  wrapAaveDynamicToken = (params: RelayerAaveWrapParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('wrapAaveDynamicToken', [
+        params.staticToken,
+        params.sender,
+        params.recipient,
+        params.amount,
+        params.useUnderlying,
+        params.outputReference,
+      ]),
+      [params.amount],
+      [params.outputReference]
+    );
+
+  unwrapAaveStaticToken = (params: RelayerAaveWrapParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('unwrapAaveStaticToken', [
+        params.staticToken,
+        params.sender,
+        params.recipient,
+        params.amount,
+        params.useUnderlying,
+        params.outputReference,
+      ]),
+      [params.amount],
+      [params.outputReference]
+    );
+
+  wrapEuler = (params: RelayerEulerWrapParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('wrapEuler', [
+        params.wrappedToken,
+        params.eulerProtocol,
+        params.sender,
+        params.recipient,
+        params.amount,
+        params.outputReference,
+      ]),
+      [params.amount],
+      [params.outputReference]
+    );
+
+  unwrapEuler = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('unwrapEuler', params);
+
+  wrapCompoundV2 = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('wrapCompoundV2', params);
+
+  unwrapCompoundV2 = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('unwrapCompoundV2', params);
+
+  wrapERC4626 = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('wrapERC4626', params);
+
+  unwrapERC4626 = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('unwrapERC4626', params);
+
+  wrapGearbox = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('wrapGearbox', params);
+
+  unwrapGearbox = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('unwrapGearbox', params);
+
+  wrapReaperVaultToken = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('wrapReaperVaultToken', params);
+
+  unwrapReaperVaultToken = (params: RelayerWrapParams): RelayerCall =>
+    this._wrapperCall('unwrapReaperVaultToken', params);
+
+  wrapShareToken = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('wrapShareToken', params);
+
+  unwrapShareToken = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('unwrapShareToken', params);
+
+  wrapTetu = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('wrapTetu', params);
+
+  unwrapTetu = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('unwrapTetu', params);
+
+  wrapUnbuttonToken = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('wrapUnbuttonToken', params);
+
+  unwrapUnbuttonToken = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('unwrapUnbuttonToken', params);
+
+  wrapYearn = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('wrapYearn', params);
+
+  unwrapYearn = (params: RelayerWrapParams): RelayerCall => this._wrapperCall('unwrapYearn', params);
+
+  wrapStETH = (params: RelayerLidoWrapParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('wrapStETH', [
+        params.sender,
+        params.recipient,
+        params.amount,
+        params.outputReference,
+      ]),
+      [params.amount],
+      [params.outputReference]
+    );
+
+  unwrapWstETH = (params: RelayerLidoWrapParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('unwrapWstETH', [
+        params.sender,
+        params.recipient,
+        params.amount,
+        params.outputReference,
+      ]),
+      [params.amount],
+      [params.outputReference]
+    );
+
+  stakeETH = (params: RelayerLidoStakeParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('stakeETH', [params.recipient, params.amount, params.outputReference]),
+      [params.amount],
+      [params.outputReference]
+    );
+
+  stakeETHAndWrap = (params: RelayerLidoStakeParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData('stakeETHAndWrap', [params.recipient, params.amount, params.outputReference]),
+      [params.amount],
+      [params.outputReference]
+    );
+
+  private _wrapperCall = (name: WrapperFunction, params: RelayerWrapParams): RelayerCall =>
+    this._addCall(
+      relayerLibrary.encodeFunctionData(name, [
+        params.wrappedToken,
+        params.sender,
+        params.recipient,
+        params.amount,
+        params.outputReference,
+      ]),
+      [params.amount],
+      [params.outputReference]
+    );
+
+  /**
+   * Records a call, checking that every chained reference among `inputs` currently holds a value, and marking the
+   * chained references among `outputs` as holding one. Values which are not chained references are ignored.
+   */
+  private _addCall = (data: string, inputs: BigNumberish[], outputs: BigNumberish[]): RelayerCall => {
+    inputs.filter(isChainedReference).forEach((input) => {
+      const key = getReferenceKey(input).toString();
+      invariant(
+        this._availableReferenceKeys.has(key),
+        `Chained reference ${BigNumber.from(input).toHexString()} is read before being set`
+      );
+
+      // Temporary references clear their slot after being read, which also clears any read-only alias.
+      if (isTemporaryChainedReference(input)) this._availableReferenceKeys.delete(key);
+    });
+
+    const outputReferences = outputs.filter(isChainedReference).map((output) => BigNumber.from(output));
+    outputReferences.forEach((reference) => this._availableReferenceKeys.add(getReferenceKey(reference).toString()));
+
+    const call = { data, outputReferences };
+    this._calls.push(call);
+    return call;
+  };
+
+  /**
+   * Returns the keys of an array of output references, checking that they are all valid as `VaultActions` requires.
+   */
+  private static _outputReferenceKeys = (outputReferences: OutputReference[], length: number): BigNumberish[] =>
+    outputReferences.map(({ index, key }) => {
+      invariant(isChainedReference(key), 'invalid chained reference');
+      invariant(index < length, 'output reference index out of bounds');
+      return key;
+    });
+
+  /**
+   * Returns the amounts in of a join's userData, which `VaultActions` replaces if they are chained references. This is
+   * only done for `EXACT_TOKENS_IN_FOR_BPT_OUT` joins, which all Pool kinds number and encode alike.
+   */
+  private static _joinReferenceInputs = (userData: string): BigNumberish[] => {
+    if (BasePoolDecoder.kind(userData) !== StablePoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT) return [];
+
+    const [, amountsIn] = defaultAbiCoder.decode(['uint256', 'uint256[]'], userData);
+    return amountsIn;
+  };
+
+  /**
+   * Returns the BPT amount in of an exit's userData, which `VaultActions` replaces if it is a chained reference. This is
+   * only done for the exits in `CHAINED_REFERENCE_EXIT_KINDS`, all of which encode it right after the exit kind.
+   */
+  private static _exitReferenceInputs = (kind: RelayerPoolKind, userData: string): BigNumberish[] => {
+    if (!CHAINED_REFERENCE_EXIT_KINDS[kind].includes(BasePoolDecoder.kind(userData))) return [];
+
+    const [, bptAmountIn] = defaultAbiCoder.decode(['uint256', 'uint256'], userData);
+    return [bptAmountIn];
+  };
+}
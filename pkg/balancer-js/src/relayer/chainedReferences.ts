@@ -0,0 +1,147 @@
+import { Interface } from '@ethersproject/abi';
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { hexDataSlice } from '@ethersproject/bytes';
+import invariant from 'tiny-invariant';
+
+// Chained references are uint256 values whose most significant bits hold a magic prefix, and whose remaining bits hold
+// the key identifying the storage slot where the value is kept. See `BaseRelayerLibrary`.
+export const CHAINED_REFERENCE_TEMP_PREFIX = 'ba10'; // Temporary reference: it is deleted after a read.
+export const CHAINED_REFERENCE_READONLY_PREFIX = 'ba11'; // Read-only reference: it is not deleted after a read.
+
+const padPrefix = (prefix: string): BigNumber => BigNumber.from(`0x${prefix.padEnd(64, '0')}`);
+
+// Any value starting with 0xba1 is a chained reference, and those starting with 0xba10 are temporary.
+const CHAINED_REFERENCE_MASK = padPrefix('fff');
+const TEMPORARY_CHAINED_REFERENCE_MASK = padPrefix('ffff');
+// The key is stored in the bits not covered by the (two byte) prefix.
+const REFERENCE_KEY_MASK = BigNumber.from(2).pow(240).sub(1);
+
+export type ChainedReferenceOptions = {
+  // Temporary references are cleared after being read, while read-only ones are kept for later reads.
+  temporary?: boolean;
+};
+
+/**
+ * Creates a chained reference for `key`, matching the encoding expected by `BaseRelayerLibrary`.
+ * @param key - the key of the reference, which determines the storage slot holding its value
+ * @param options - whether the reference is temporary (the default) or read-only
+ */
+export const toChainedReference = (
+  key: BigNumberish,
+  { temporary = true }: ChainedReferenceOptions = {}
+): BigNumber => {
+  invariant(BigNumber.from(key).gte(0) && BigNumber.from(key).lte(REFERENCE_KEY_MASK), 'reference key out of bounds');
+  const prefix = temporary ? CHAINED_REFERENCE_TEMP_PREFIX : CHAINED_REFERENCE_READONLY_PREFIX;
+  return padPrefix(prefix).add(key);
+};
+
+/**
+ * Tests whether `value` is a chained reference (either temporary or read-only), as `_isChainedReference` does.
+ */
+export const isChainedReference = (value: BigNumberish): boolean =>
+  BigNumber.from(value).and(CHAINED_REFERENCE_MASK).eq(padPrefix(CHAINED_REFERENCE_TEMP_PREFIX));
+
+/**
+ * Tests whether `value` is a temporary chained reference, as `_isTemporaryChainedReference` does.
+ */
+export const isTemporaryChainedReference = (value: BigNumberish): boolean =>
+  BigNumber.from(value).and(TEMPORARY_CHAINED_REFERENCE_MASK).eq(padPrefix(CHAINED_REFERENCE_TEMP_PREFIX));
+
+/**
+ * Returns the key of a chained reference, removing its prefix as `_removeReferencePrefix` does. Temporary and
+ * read-only references with the same key share the same storage slot.
+ */
+export const getReferenceKey = (ref: BigNumberish): BigNumber => {
+  invariant(isChainedReference(ref), 'not a chained reference');
+  return BigNumber.from(ref).and(REFERENCE_KEY_MASK);
+};
+
+/**
+ * Hands out chained references with unique keys, so that the references used across a multicall never collide.
+ * Optionally, references can be given a label to make traces easier to read.
+ */
+export class ChainedReferenceAllocator {
+  private _nextKey: BigNumber;
+  private readonly _labels = new Map<string, string>();
+
+  /**
+   * @param firstKey - the key of the first reference to be allocated
+   */
+  constructor(firstKey: BigNumberish = 0) {
+    this._nextKey = BigNumber.from(firstKey);
+  }
+
+  /**
+   * Returns a new chained reference, whose key has not been allocated before.
+   * @param options - whether the reference is temporary (the default) or read-only
+   * @param label - a description of the value held by the reference
+   */
+  allocate = (options: ChainedReferenceOptions = {}, label?: string): BigNumber => {
+    const reference = toChainedReference(this._nextKey, options);
+    if (label !== undefined) this._labels.set(this._nextKey.toString(), label);
+
+    this._nextKey = this._nextKey.add(1);
+    return reference;
+  };
+
+  /**
+   * Returns the label the reference was allocated with, if any.
+   */
+  getLabel = (ref: BigNumberish): string | undefined => this._labels.get(getReferenceKey(ref).toString());
+}
+
+export type ChainedReferenceTraceEntry = {
+  // Position of the `peekChainedReferenceValue` call in the multicall
+  callIndex: number;
+  reference: BigNumber;
+  key: BigNumber;
+  temporary: boolean;
+  value: BigNumber;
+  label?: string;
+};
+
+const peekInterface = new Interface(['function peekChainedReferenceValue(uint256 ref) returns (uint256 value)']);
+const PEEK_SELECTOR = peekInterface.getSighash('peekChainedReferenceValue');
+
+/**
+ * Extracts the values read by every `peekChainedReferenceValue` call in a multicall.
+ * @param calls - the calldata passed to `BalancerRelayer.multicall`
+ * @param results - the values returned by `BalancerRelayer.multicall` (e.g. through a static call)
+ * @param allocator - the allocator used to create the references, to include their labels in the trace
+ */
+export const decodeChainedReferenceTrace = (
+  calls: string[],
+  results: string[],
+  allocator?: ChainedReferenceAllocator
+): ChainedReferenceTraceEntry[] => {
+  invariant(calls.length === results.length, 'calls and results length mismatch');
+
+  const trace: ChainedReferenceTraceEntry[] = [];
+  calls.forEach((data, callIndex) => {
+    if (hexDataSlice(data, 0, 4) !== PEEK_SELECTOR) return;
+
+    const [reference] = peekInterface.decodeFunctionData('peekChainedReferenceValue', data);
+    const [value] = peekInterface.decodeFunctionResult('peekChainedReferenceValue', results[callIndex]);
+    trace.push({
+      callIndex,
+      reference,
+      key: getReferenceKey(reference),
+      temporary: isTemporaryChainedReference(reference),
+      value,
+      label: allocator?.getLabel(reference),
+    });
+  });
+
+  return trace;
+};
+
+/**
+ * Renders a chained reference trace with one line per read value, e.g. `#2 key 1 (temporary, BPT out): 1000`.
+ */
+export const formatChainedReferenceTrace = (trace: ChainedReferenceTraceEntry[]): string =>
+  trace
+    .map(({ callIndex, key, temporary, value, label }) => {
+      const description = [temporary ? 'temporary' : 'read-only', ...(label !== undefined ? [label] : [])].join(', ');
+      return `#${callIndex} key ${key.toString()} (${description}): ${value.toString()}`;
+    })
+    .join('\n');
@@ -0,0 +1,2 @@
+export * from './callBuilder';
+export * from './chainedReferences';
@@ -0,0 +1,2 @@
+export * from './poolData';
+export * from './swapRouter';
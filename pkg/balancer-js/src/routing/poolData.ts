@@ -0,0 +1,216 @@
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import invariant from 'tiny-invariant';
+import { ScalingHelpers } from '../math/scaling';
+import { PricedPool, PricedPoolType } from '../pricing/priceImpact';
+import { SwapFeeType, TotalSupplyType } from '../types';
+
+// The Pools to query, in the same order as the `poolIds` passed to `getPoolData`. `tokens` are the Pool's registered
+// tokens (including BPT where applicable), as returned by the Vault's `getPoolTokens`.
+export type PoolDataQueryPool =
+  | { id: string; type: PricedPoolType.Weighted; tokens: string[] }
+  | { id: string; type: PricedPoolType.ComposableStable; tokens: string[]; bptIndex: number }
+  | {
+      id: string;
+      type: PricedPoolType.Linear;
+      tokens: string[];
+      mainIndex: number;
+      wrappedIndex: number;
+      bptIndex: number;
+      // Linear Pools' scaling factors are derived from their tokens' decimals, as the wrapped token rate is queried
+      // separately
+      mainDecimals: number;
+      wrappedDecimals: number;
+    };
+
+// Matches `PoolDataQueryConfig` in `BalancerPoolDataQueries`
+export type PoolDataQueryConfig = {
+  loadTokenBalanceUpdatesAfterBlock: boolean;
+  loadTotalSupply: boolean;
+  loadSwapFees: boolean;
+  loadLinearWrappedTokenRates: boolean;
+  loadLinearTargets: boolean;
+  loadNormalizedWeights: boolean;
+  loadScalingFactors: boolean;
+  loadAmps: boolean;
+  loadRates: boolean;
+  blockNumber: BigNumberish;
+  totalSupplyTypes: TotalSupplyType[];
+  swapFeeTypes: SwapFeeType[];
+  linearPoolIdxs: number[];
+  weightedPoolIdxs: number[];
+  scalingFactorPoolIdxs: number[];
+  ampPoolIdxs: number[];
+  ratePoolIdxs: number[];
+};
+
+// The values returned by `getPoolData`
+export type PoolDataQueryResult = {
+  balances: BigNumberish[][];
+  totalSupplies: BigNumberish[];
+  swapFees: BigNumberish[];
+  linearWrappedTokenRates: BigNumberish[];
+  linearTargets: BigNumberish[][];
+  weights: BigNumberish[][];
+  scalingFactors: BigNumberish[][];
+  amps: BigNumberish[];
+  rates: BigNumberish[];
+  ignoreIdxs: BigNumberish[];
+};
+
+// The values returned by `getPoolStatus`
+export type PoolStatusQueryResult = {
+  isPaused: boolean[];
+  inRecoveryMode: boolean[];
+};
+
+export type RoutablePool = PricedPool & {
+  id: string;
+  isPaused?: boolean;
+  inRecoveryMode?: boolean;
+};
+
+/**
+ * Builds queries for `BalancerPoolDataQueries` and converts their results into Pool states which can be quoted and
+ * routed through.
+ *
+ * @example
+ * const config = PoolDataQueries.getPoolDataConfig(pools);
+ * const data = await poolDataQueries.getPoolData(pools.map((pool) => pool.id), config);
+ * const status = await poolDataQueries.getPoolStatus(pools.map((pool) => pool.id), {
+ *   loadInRecoveryMode: true,
+ *   loadIsPaused: true,
+ * });
+ * const routablePools = PoolDataQueries.parsePoolData(pools, data, status);
+ */
+export class PoolDataQueries {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  /**
+   * Returns the `getPoolData` config which loads all the data required to quote swaps on `pools`.
+   * @param pools - the Pools to query
+   * @param blockNumber - only the balances of Pools updated after this block are loaded: the default loads all of them
+   */
+  static getPoolDataConfig = (pools: PoolDataQueryPool[], blockNumber: BigNumberish = 0): PoolDataQueryConfig => {
+    const idxsOf = (types: PricedPoolType[]): number[] =>
+      pools.flatMap((pool, i) => (types.includes(pool.type) ? [i] : []));
+
+    return {
+      loadTokenBalanceUpdatesAfterBlock: true,
+      loadTotalSupply: true,
+      loadSwapFees: true,
+      loadLinearWrappedTokenRates: true,
+      loadLinearTargets: true,
+      loadNormalizedWeights: true,
+      loadScalingFactors: true,
+      loadAmps: true,
+      loadRates: false,
+      blockNumber,
+      // Only Linear Pools use their supply to price swaps. It is loaded for all Pools nonetheless, as Pools with a
+      // supply of zero are uninitialized and therefore ignored.
+      totalSupplyTypes: pools.map(({ type }) =>
+        type === PricedPoolType.Linear ? TotalSupplyType.VirtualSupply : TotalSupplyType.TotalSupply
+      ),
+      swapFeeTypes: pools.map(() => SwapFeeType.SwapFeePercentage),
+      linearPoolIdxs: idxsOf([PricedPoolType.Linear]),
+      weightedPoolIdxs: idxsOf([PricedPoolType.Weighted]),
+      scalingFactorPoolIdxs: idxsOf([PricedPoolType.Weighted, PricedPoolType.ComposableStable]),
+      ampPoolIdxs: idxsOf([PricedPoolType.ComposableStable]),
+      ratePoolIdxs: [],
+    };
+  };
+
+  /**
+   * Converts the results of `getPoolData` (and optionally `getPoolStatus`) queried with the config returned by
+   * `getPoolDataConfig` into Pool states.
+   *
+   * Pools in `ignoreIdxs` are skipped, as are Pools for which no balances were loaded (i.e. those not updated after the
+   * config's block number).
+   * @param pools - the queried Pools
+   * @param data - the values returned by `getPoolData`
+   * @param status - the values returned by `getPoolStatus`
+   */
+  static parsePoolData = (
+    pools: PoolDataQueryPool[],
+    data: PoolDataQueryResult,
+    status?: PoolStatusQueryResult
+  ): RoutablePool[] => {
+    invariant(data.balances.length === pools.length, 'Pool data length mismatch');
+
+    const config = PoolDataQueries.getPoolDataConfig(pools);
+    const ignoreIdxs = data.ignoreIdxs.map((idx) => BigNumber.from(idx).toNumber());
+
+    // Values which are only loaded for some Pools are indexed by the position of the Pool in the relevant idxs array.
+    const valueOf = <T>(values: T[], idxs: number[], poolIdx: number): T => values[idxs.indexOf(poolIdx)];
+
+    return pools.flatMap((pool, i): RoutablePool[] => {
+      const balances = data.balances[i];
+      if (ignoreIdxs.includes(i) || balances.length === 0) return [];
+
+      const poolStatus = { isPaused: status?.isPaused[i], inRecoveryMode: status?.inRecoveryMode[i] };
+      const swapFeePercentage = data.swapFees[i];
+
+      switch (pool.type) {
+        case PricedPoolType.Weighted:
+          return [
+            {
+              id: pool.id,
+              type: pool.type,
+              tokens: pool.tokens,
+              state: {
+                balances,
+                normalizedWeights: valueOf(data.weights, config.weightedPoolIdxs, i),
+                scalingFactors: valueOf(data.scalingFactors, config.scalingFactorPoolIdxs, i),
+                swapFeePercentage,
+              },
+              ...poolStatus,
+            },
+          ];
+        case PricedPoolType.ComposableStable:
+          return [
+            {
+              id: pool.id,
+              type: pool.type,
+              tokens: pool.tokens,
+              state: {
+                amplificationParameter: valueOf(data.amps, config.ampPoolIdxs, i),
+                balances,
+                scalingFactors: valueOf(data.scalingFactors, config.scalingFactorPoolIdxs, i),
+                bptIndex: pool.bptIndex,
+                swapFeePercentage,
+              },
+              ...poolStatus,
+            },
+          ];
+        case PricedPoolType.Linear: {
+          const [lowerTarget, upperTarget] = valueOf(data.linearTargets, config.linearPoolIdxs, i);
+          return [
+            {
+              id: pool.id,
+              type: pool.type,
+              tokens: pool.tokens,
+              state: {
+                balances,
+                mainIndex: pool.mainIndex,
+                wrappedIndex: pool.wrappedIndex,
+                bptIndex: pool.bptIndex,
+                mainScalingFactor: ScalingHelpers.computeScalingFactor(pool.mainDecimals),
+                wrappedScalingFactor: ScalingHelpers.computeScalingFactor(pool.wrappedDecimals),
+                wrappedTokenRate: valueOf(data.linearWrappedTokenRates, config.linearPoolIdxs, i),
+                lowerTarget,
+                upperTarget,
+                swapFeePercentage,
+                virtualSupply: data.totalSupplies[i],
+              },
+              ...poolStatus,
+            },
+          ];
+        }
+      }
+    });
+  };
+}
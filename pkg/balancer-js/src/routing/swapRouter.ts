@@ -0,0 +1,250 @@
+import { getAddress } from '@ethersproject/address';
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import invariant from 'tiny-invariant';
+import { PricedPool, PricedPoolType, PriceImpactCalculator, BatchSwapPriceImpact } from '../pricing/priceImpact';
+import { BatchSwap, BatchSwapStep, FundManagement, SwapKind } from '../types';
+import { BatchSwapBuilder, BatchSwapBuilderOptions } from '../utils/batchSwap';
+import { RoutablePool } from './poolData';
+
+export type SwapRouterOptions = {
+  // The maximum number of Pools swapped through by each path
+  maxHops?: number;
+  // The maximum number of paths the swap amount may be split across
+  maxPaths?: number;
+  // The number of equal parts the swap amount is split into when distributing it across paths
+  splitSteps?: number;
+};
+
+export type SwapPath = {
+  poolIds: string[];
+  // The tokens along the path, from the token in to the token out
+  tokens: string[];
+  // The part of the swap amount sent through this path
+  amount: BigNumber;
+};
+
+export type SwapRoute = BatchSwapPriceImpact & {
+  kind: SwapKind;
+  paths: SwapPath[];
+  // The arguments of `queryBatchSwap` which reproduce the route
+  swaps: BatchSwapStep[];
+  assets: string[];
+};
+
+type Hop = {
+  pool: RoutablePool;
+  indexIn: number;
+  indexOut: number;
+  tokenIn: string;
+  tokenOut: string;
+};
+
+const DEFAULT_MAX_HOPS = 3;
+const DEFAULT_MAX_PATHS = 4;
+const DEFAULT_SPLIT_STEPS = 10;
+
+/**
+ * Finds the best routes for swaps across a set of Pools, entirely offline: Pool states are typically obtained from
+ * `BalancerPoolDataQueries` (see `PoolDataQueries`). Paused Pools and Pools in Recovery Mode are never routed through.
+ *
+ * Candidate paths of up to `maxHops` Pools are ranked by the amount they quote for the whole swap, and the best
+ * `maxPaths` of them are then combined by greedily allocating each of `splitSteps` parts of the swap amount to the
+ * path which improves the overall result the most. Routes are evaluated as a whole, executing the steps of the batch
+ * swap in order as the Vault would, so their amounts are exact even if several paths share a Pool.
+ *
+ * @example
+ * const router = new SwapRouter(pools, WETH);
+ * const route = router.findRoute(SwapKind.GivenIn, DAI, BAL, parseFixed('1000', 18));
+ * if (route !== undefined) {
+ *   const batchSwap = router.buildBatchSwap(route, funds, parseFixed('0.01', 18), deadline);
+ * }
+ */
+export class SwapRouter {
+  private readonly _options: Required<SwapRouterOptions>;
+  private readonly _pools: Record<string, PricedPool> = {};
+  // Hops starting at each token, keyed by checksummed address
+  private readonly _hops = new Map<string, Hop[]>();
+
+  constructor(pools: RoutablePool[], private readonly wethAddress: string, options: SwapRouterOptions = {}) {
+    this._options = {
+      maxHops: options.maxHops ?? DEFAULT_MAX_HOPS,
+      maxPaths: options.maxPaths ?? DEFAULT_MAX_PATHS,
+      splitSteps: options.splitSteps ?? DEFAULT_SPLIT_STEPS,
+    };
+    invariant(
+      this._options.maxHops > 0 && this._options.maxPaths > 0 && this._options.splitSteps > 0,
+      'Invalid options'
+    );
+
+    pools
+      .filter((pool) => !pool.isPaused && !pool.inRecoveryMode)
+      .forEach((pool) => {
+        this._pools[pool.id] = pool;
+
+        const tokens = pool.tokens.map((token) => getAddress(token));
+        tokens.forEach((tokenIn, indexIn) => {
+          tokens.forEach((tokenOut, indexOut) => {
+            if (indexIn === indexOut || !SwapRouter._isSwappable(pool, indexIn, indexOut)) return;
+
+            const hops = this._hops.get(tokenIn) ?? [];
+            hops.push({ pool, indexIn, indexOut, tokenIn, tokenOut });
+            this._hops.set(tokenIn, hops);
+          });
+        });
+      });
+  }
+
+  /**
+   * Finds the best route for a swap: the one with the largest amount out for `GivenIn` swaps, and the smallest amount
+   * in for `GivenOut` swaps.
+   * @param kind - the kind of swap
+   * @param tokenIn - the token sent
+   * @param tokenOut - the token received
+   * @param amount - the amount given, i.e. the amount in for `GivenIn` swaps and the amount out for `GivenOut` swaps
+   * @returns the route, or undefined if no path between the tokens can execute the swap
+   */
+  findRoute = (kind: SwapKind, tokenIn: string, tokenOut: string, amount: BigNumberish): SwapRoute | undefined => {
+    invariant(BigNumber.from(amount).gt(0), 'Swap amount must be positive');
+
+    const paths = this._findPaths(getAddress(tokenIn), getAddress(tokenOut));
+
+    // Rank paths by the amount they quote for the whole swap, each on its own.
+    const candidates = paths
+      .map((path) => ({ path, quote: this._quotePath(kind, path, BigNumber.from(amount)) }))
+      .filter((candidate): candidate is { path: Hop[]; quote: BigNumber } => candidate.quote !== undefined)
+      .sort((a, b) => (this._isBetter(kind, a.quote, b.quote) ? -1 : this._isBetter(kind, b.quote, a.quote) ? 1 : 0))
+      .slice(0, this._options.maxPaths)
+      .map(({ path }) => path);
+
+    // Each part of the swap amount is allocated to the path which results in the best route.
+    const { splitSteps } = this._options;
+    const allocations = candidates.map(() => BigNumber.from(0));
+    let best: SwapRoute | undefined;
+    for (let step = 0; step < splitSteps; step++) {
+      const part = BigNumber.from(amount)
+        .mul(step + 1)
+        .div(splitSteps)
+        .sub(BigNumber.from(amount).mul(step).div(splitSteps));
+
+      let bestStepRoute: SwapRoute | undefined;
+      let bestStepPath = -1;
+      candidates.forEach((_, i) => {
+        const route = this._evaluate(
+          kind,
+          candidates,
+          allocations.map((allocation, j) => (i === j ? allocation.add(part) : allocation))
+        );
+        if (route !== undefined && (bestStepRoute === undefined || this._isRouteBetter(kind, route, bestStepRoute))) {
+          bestStepRoute = route;
+          bestStepPath = i;
+        }
+      });
+
+      if (bestStepRoute === undefined) return undefined;
+      allocations[bestStepPath] = allocations[bestStepPath].add(part);
+      best = bestStepRoute;
+    }
+
+    return best;
+  };
+
+  /**
+   * Returns the `batchSwap` arguments for a route.
+   * @param route - the route, as returned by `findRoute`
+   * @param funds - the sender and recipient of the swap
+   * @param slippage - the tolerated relative slippage, as an 18 decimal fixed point number (e.g. 1e16 for 1%)
+   * @param deadline - the timestamp after which the swap is no longer valid
+   * @param options - whether to send or receive ETH instead of WETH
+   */
+  buildBatchSwap = (
+    route: SwapRoute,
+    funds: FundManagement,
+    slippage: BigNumberish,
+    deadline: BigNumberish,
+    options: BatchSwapBuilderOptions = {}
+  ): BatchSwap => {
+    const builder = this._builder(route.kind, route.paths, options);
+    return builder.build(funds, builder.getLimits(route.deltas, slippage), deadline);
+  };
+
+  // Returns all paths from `tokenIn` to `tokenOut` of up to `maxHops` hops, which never revisit a token or Pool.
+  private _findPaths = (tokenIn: string, tokenOut: string): Hop[][] => {
+    const paths: Hop[][] = [];
+
+    const extend = (path: Hop[], token: string): void => {
+      (this._hops.get(token) ?? []).forEach((hop) => {
+        if (hop.tokenOut === tokenIn || path.some((previous) => previous.pool.id === hop.pool.id)) return;
+        if (path.some((previous) => previous.tokenOut === hop.tokenOut)) return;
+
+        if (hop.tokenOut === tokenOut) {
+          paths.push([...path, hop]);
+        } else if (path.length + 1 < this._options.maxHops) {
+          extend([...path, hop], hop.tokenOut);
+        }
+      });
+    };
+
+    if (tokenIn !== tokenOut) extend([], tokenIn);
+    return paths;
+  };
+
+  // Returns the amount calculated by a path for a swap of `amount`, or undefined if any of its hops reverts.
+  private _quotePath = (kind: SwapKind, path: Hop[], amount: BigNumber): BigNumber | undefined => {
+    const hops = kind === SwapKind.GivenIn ? path : [...path].reverse();
+    try {
+      return hops.reduce(
+        (hopAmount, { pool, indexIn, indexOut }) =>
+          PriceImpactCalculator.querySwap(pool, kind, indexIn, indexOut, hopAmount),
+        amount
+      );
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Executes the batch swap which sends `allocations[i]` through `paths[i]`, returning undefined if it reverts.
+  private _evaluate = (kind: SwapKind, paths: Hop[][], allocations: BigNumber[]): SwapRoute | undefined => {
+    const swapPaths = paths
+      .map((path, i) => ({
+        poolIds: path.map(({ pool }) => pool.id),
+        tokens: [path[0].tokenIn, ...path.map(({ tokenOut }) => tokenOut)],
+        amount: allocations[i],
+      }))
+      .filter(({ amount }) => !amount.isZero());
+
+    const builder = this._builder(kind, swapPaths);
+    const swaps = builder.getSwaps();
+    const assets = builder.getAssets();
+    try {
+      const priceImpact = PriceImpactCalculator.getBatchSwapPriceImpact(kind, swaps, assets, this._pools);
+      return { ...priceImpact, kind, paths: swapPaths, swaps, assets };
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Multihop `GivenOut` swaps are executed backwards, starting from the token out.
+  private _builder = (kind: SwapKind, paths: SwapPath[], options: BatchSwapBuilderOptions = {}): BatchSwapBuilder => {
+    const builder = new BatchSwapBuilder(kind, this.wethAddress, options);
+    paths.forEach(({ poolIds, tokens, amount }) => {
+      const hops = poolIds.map((poolId, i) => ({ poolId, tokenIn: tokens[i], tokenOut: tokens[i + 1] }));
+      (kind === SwapKind.GivenIn ? hops : hops.reverse()).forEach((hop, i) =>
+        builder.addHop({ ...hop, amount: i === 0 ? amount : 0 })
+      );
+    });
+    return builder;
+  };
+
+  private _isBetter = (kind: SwapKind, quote: BigNumber, other: BigNumber): boolean =>
+    kind === SwapKind.GivenIn ? quote.gt(other) : quote.lt(other);
+
+  private _isRouteBetter = (kind: SwapKind, route: SwapRoute, other: SwapRoute): boolean =>
+    kind === SwapKind.GivenIn
+      ? this._isBetter(kind, route.amountOut, other.amountOut)
+      : this._isBetter(kind, route.amountIn, other.amountIn);
+
+  // Composable Stable Pools only support swaps between their tokens, excluding BPT.
+  private static _isSwappable = (pool: PricedPool, indexIn: number, indexOut: number): boolean =>
+    pool.type !== PricedPoolType.ComposableStable ||
+    (indexIn !== pool.state.bptIndex && indexOut !== pool.state.bptIndex);
+}
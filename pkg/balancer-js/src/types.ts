@@ -125,3 +125,34 @@ export enum GaugeType {
   PolygonZKEvm,
   ZkSync,
 }
+
+// Pools
+
+export enum PoolType {
+  Weighted = 'Weighted',
+  LiquidityBootstrapping = 'LiquidityBootstrapping',
+  Managed = 'Managed',
+  ComposableStable = 'ComposableStable',
+  Linear = 'Linear',
+}
+
+// Matches `TotalSupplyType` in `BalancerPoolDataQueries`
+export enum TotalSupplyType {
+  TotalSupply = 0,
+  VirtualSupply,
+  ActualSupply,
+}
+
+// Matches `SwapFeeType` in `BalancerPoolDataQueries`
+export enum SwapFeeType {
+  SwapFeePercentage = 0,
+  PercentFee,
+}
+
+// Matches `ProtocolFeeType` in `IProtocolFeePercentagesProvider`
+export enum ProtocolFeeType {
+  Swap = 0,
+  FlashLoan,
+  Yield,
+  Aum,
+}
@@ -0,0 +1,141 @@
+import { getAddress } from '@ethersproject/address';
+import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
+import { Zero } from '@ethersproject/constants';
+import invariant from 'tiny-invariant';
+import { _require } from '../math/errors';
+import { FixedPoint } from '../math/fixedPoint';
+import { BatchSwap, BatchSwapStep, FundManagement, SwapKind } from '../types';
+import { AssetHelpers } from './assetHelpers';
+
+export type BatchSwapHop = {
+  poolId: string;
+  tokenIn: string;
+  tokenOut: string;
+  // For multihop swaps, an amount of zero uses the amount calculated by the previous hop
+  amount: BigNumberish;
+  userData?: string;
+};
+
+export type BatchSwapBuilderOptions = {
+  // Replaces WETH with the ETH sentinel address, so that ETH is sent or received instead
+  useETH?: boolean;
+};
+
+/**
+ * Builds the arguments of the Vault's `batchSwap` and `queryBatchSwap` functions from hops expressed in token
+ * addresses: the `assets` array is deduplicated and every step is assigned its asset indices.
+ *
+ * @example
+ * const builder = new BatchSwapBuilder(SwapKind.GivenIn, WETH)
+ *   .addHop({ poolId: poolA, tokenIn: DAI, tokenOut: WETH, amount: parseFixed('100', 18) })
+ *   .addHop({ poolId: poolB, tokenIn: WETH, tokenOut: BAL, amount: 0 });
+ *
+ * const deltas = await vault.callStatic.queryBatchSwap(builder.kind, builder.getSwaps(), builder.getAssets(), funds);
+ * const batchSwap = builder.build(funds, builder.getLimits(deltas, parseFixed('0.01', 18)), deadline);
+ */
+export class BatchSwapBuilder {
+  private readonly _assetHelpers: AssetHelpers;
+  private readonly _useETH: boolean;
+  private readonly _hops: BatchSwapHop[] = [];
+
+  constructor(public readonly kind: SwapKind, wethAddress: string, options: BatchSwapBuilderOptions = {}) {
+    this._assetHelpers = new AssetHelpers(wethAddress);
+    this._useETH = options.useETH ?? false;
+  }
+
+  /**
+   * Appends a swap step to the batch swap.
+   * @param hop - the Pool and tokens to swap through, and the amount given
+   */
+  addHop = (hop: BatchSwapHop): BatchSwapBuilder => {
+    this._hops.push(hop);
+    return this;
+  };
+
+  /**
+   * Returns the deduplicated assets referenced by the hops, in order of appearance. Reverts with
+   * `CANNOT_USE_ETH_SENTINEL` if both ETH and WETH are used.
+   */
+  getAssets = (): string[] => {
+    const assets: string[] = [];
+    this._hops.forEach(({ tokenIn, tokenOut }) => {
+      [tokenIn, tokenOut].map(this._toAsset).forEach((asset) => {
+        if (!assets.includes(asset)) assets.push(asset);
+      });
+    });
+
+    _require(
+      !(assets.some(this._assetHelpers.isETH) && assets.some(this._assetHelpers.isWETH)),
+      'CANNOT_USE_ETH_SENTINEL'
+    );
+    return assets;
+  };
+
+  /**
+   * Returns the swap steps, with indices into the array returned by `getAssets`.
+   */
+  getSwaps = (): BatchSwapStep[] => {
+    const assets = this.getAssets();
+    return this._hops.map(({ poolId, tokenIn, tokenOut, amount, userData }) => ({
+      poolId,
+      assetInIndex: assets.indexOf(this._toAsset(tokenIn)),
+      assetOutIndex: assets.indexOf(this._toAsset(tokenOut)),
+      amount,
+      userData: userData ?? '0x',
+    }));
+  };
+
+  /**
+   * Converts the asset deltas returned by `queryBatchSwap` into limits that tolerate a relative `slippage`.
+   *
+   * Only the amounts calculated by the Vault are adjusted: these are the amounts out for `GivenIn` swaps (which may
+   * decrease by up to `slippage`) and the amounts in for `GivenOut` swaps (which may increase by up to `slippage`).
+   * @param deltas - the deltas returned by `queryBatchSwap`, in the same order as `getAssets`
+   * @param slippage - the tolerated relative slippage, as an 18 decimal fixed point number (e.g. 1e16 for 1%)
+   */
+  getLimits = (deltas: BigNumberish[], slippage: BigNumberish): BigNumber[] => {
+    invariant(deltas.length === this.getAssets().length, 'deltas length mismatch');
+    return BatchSwapBuilder.getLimitsFromDeltas(this.kind, deltas, slippage);
+  };
+
+  /**
+   * Returns the full set of `batchSwap` arguments.
+   * @param funds - the sender and recipient of the swap
+   * @param limits - the limits for each asset, e.g. as returned by `getLimits`
+   * @param deadline - the timestamp after which the swap is no longer valid
+   */
+  build = (funds: FundManagement, limits: BigNumberish[], deadline: BigNumberish): BatchSwap => {
+    const assets = this.getAssets();
+    invariant(limits.length === assets.length, 'limits length mismatch');
+    return { kind: this.kind, swaps: this.getSwaps(), assets, funds, limits, deadline };
+  };
+
+  /**
+   * Converts `queryBatchSwap` deltas into `batchSwap` limits. Positive deltas are amounts sent to the Vault, and
+   * negative deltas amounts received from it.
+   * @param kind - the kind of batch swap which was queried
+   * @param deltas - the deltas returned by `queryBatchSwap`
+   * @param slippage - the tolerated relative slippage, as an 18 decimal fixed point number (e.g. 1e16 for 1%)
+   */
+  static getLimitsFromDeltas = (kind: SwapKind, deltas: BigNumberish[], slippage: BigNumberish): BigNumber[] => {
+    invariant(BigNumber.from(slippage).lte(FixedPoint.ONE), 'slippage must not exceed 100%');
+
+    return deltas.map((delta) => {
+      const amount = BigNumber.from(delta);
+      if (kind === SwapKind.GivenIn && amount.lt(0)) {
+        // Amounts out are negative: the limit is the minimum amount to receive, rounding up.
+        return Zero.sub(FixedPoint.mulUp(amount.abs(), FixedPoint.complement(slippage)));
+      } else if (kind === SwapKind.GivenOut && amount.gt(0)) {
+        // Amounts in are positive: the limit is the maximum amount to send, rounding down.
+        return FixedPoint.mulDown(amount, FixedPoint.add(FixedPoint.ONE, slippage));
+      } else {
+        return amount;
+      }
+    });
+  };
+
+  private _toAsset = (token: string): string => {
+    const address = getAddress(token);
+    return this._useETH && this._assetHelpers.isWETH(address) ? this._assetHelpers.ETH : address;
+  };
+}
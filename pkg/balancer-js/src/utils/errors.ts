@@ -1,3 +1,7 @@
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { hexDataSlice, isHexString } from '@ethersproject/bytes';
+import invariant from 'tiny-invariant';
+
 const balancerErrorCodes: Record<string, string> = {
   '000': 'ADD_OVERFLOW',
   '001': 'SUB_OVERFLOW',
@@ -169,6 +173,31 @@ const balancerErrorCodes: Record<string, string> = {
   '999': 'SHOULD_NOT_HAPPEN',
 };
 
+// Contracts built on top of Balancer may revert with their own prefix through `_revert(errorCode, prefix)`, e.g.
+// `XYZ#123`. Integrators can register the error codes for these prefixes so that they can be parsed.
+const DEFAULT_PREFIX = 'BAL';
+const errorCodeTables = new Map<string, Record<string, string>>([[DEFAULT_PREFIX, balancerErrorCodes]]);
+
+// Prefixes are three bytes long, and codes are left-padded with zeroes to three digits.
+const PREFIX_REGEX = /^[^\s#'"]{3}$/;
+const PREFIXED_ERROR_CODE_REGEX = /([^\s#'"]{3})#(\d{3})/;
+
+// Selector of `Error(string)`, which wraps the revert reason in revert data
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+// Formats used by nodes and ethers to report revert reasons in error messages
+const REVERT_MESSAGE_REGEXES = [/reverted with reason string '([^']*)'/, /execution reverted: ([^"'\n]+)/];
+
+// Limits how deep nested errors are searched for a revert reason
+const MAX_ERROR_DEPTH = 8;
+
+export type PrefixedErrorCode = {
+  prefix: string;
+  code: string;
+  // Only known if the prefix and code have been registered
+  name?: string;
+};
+
 export class BalancerErrors {
   /**
    * Cannot be constructed.
@@ -231,4 +260,96 @@ export class BalancerErrors {
 
     return `BAL#${encodedError[0]}`;
   };
+
+  /**
+   * Registers the error codes used by contracts reverting with a custom prefix, so that they can be parsed by
+   * `parsePrefixedErrorCode`. Registering an already known prefix replaces its codes.
+   * @param prefix - the three character prefix passed to `_revert`, e.g. `XYZ`
+   * @param errorCodes - a mapping from three digit codes (e.g. `123`) to error names
+   */
+  static registerErrorCodes = (prefix: string, errorCodes: Record<string, string>): void => {
+    invariant(prefix !== DEFAULT_PREFIX, 'Cannot replace Balancer error codes');
+    invariant(PREFIX_REGEX.test(prefix), 'Invalid error prefix');
+    invariant(
+      Object.keys(errorCodes).every((code) => /^\d{3}$/.test(code)),
+      'Error codes must have three digits'
+    );
+
+    errorCodeTables.set(prefix, { ...errorCodes });
+  };
+
+  /**
+   * Returns the prefixes with registered error codes, including `BAL`.
+   */
+  static getRegisteredPrefixes = (): string[] => Array.from(errorCodeTables.keys());
+
+  /**
+   * Decodes an error code with any prefix, such as `BAL#000` or `XYZ#123`
+   * @param error - a string containing the error code, e.g. a revert reason
+   * @returns The prefix and code, along with the error name if the prefix has been registered
+   */
+  static parsePrefixedErrorCode = (error: string): PrefixedErrorCode => {
+    const match = error.match(PREFIXED_ERROR_CODE_REGEX);
+    if (!match) throw new Error('Error code not found');
+
+    const [, prefix, code] = match;
+    const name = errorCodeTables.get(prefix)?.[code];
+    return name !== undefined ? { prefix, code, name } : { prefix, code };
+  };
+
+  /**
+   * Finds the revert reason in a failed call or transaction.
+   *
+   * Both raw revert data (as returned by `eth_call`) and the errors thrown by ethers are supported: the latter may
+   * wrap the JSON-RPC error several levels deep, either as an object or as a serialized response body.
+   * @param error - the revert data or the error thrown
+   * @returns The revert reason, or undefined if none could be found
+   */
+  static extractRevertReason = (error: unknown): string | undefined => findRevertReason(error, 0);
+}
+
+function decodeRevertData(data: string): string | undefined {
+  if (hexDataSlice(data, 0, 4) !== ERROR_STRING_SELECTOR) return undefined;
+
+  try {
+    return defaultAbiCoder.decode(['string'], hexDataSlice(data, 4))[0];
+  } catch {
+    return undefined;
+  }
+}
+
+function findRevertReasonInMessage(message: string): string | undefined {
+  for (const regex of REVERT_MESSAGE_REGEXES) {
+    const match = message.match(regex);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+function findRevertReason(error: unknown, depth: number): string | undefined {
+  if (error === null || error === undefined || depth > MAX_ERROR_DEPTH) return undefined;
+
+  if (typeof error === 'string') {
+    if (isHexString(error)) return error.length >= 10 ? decodeRevertData(error) : undefined;
+
+    // Providers may attach the raw JSON-RPC response body, while other strings are taken to be error messages
+    try {
+      return findRevertReason(JSON.parse(error), depth + 1);
+    } catch {
+      return findRevertReasonInMessage(error);
+    }
+  }
+
+  if (typeof error !== 'object') return undefined;
+
+  // Revert data is the most reliable source, so nested errors are searched first. Messages are a last resort, as
+  // ethers includes the reason of the innermost error in them.
+  const { data, error: nestedError, body, reason, message } = error as Record<string, unknown>;
+  return (
+    findRevertReason(data, depth + 1) ??
+    findRevertReason(nestedError, depth + 1) ??
+    findRevertReason(body, depth + 1) ??
+    (typeof message === 'string' ? findRevertReasonInMessage(message) : undefined) ??
+    (typeof reason === 'string' && reason !== '' ? reason : undefined)
+  );
 }
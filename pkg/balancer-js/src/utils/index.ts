@@ -2,3 +2,4 @@ export * from './errors';
 export * from './permit';
 export * from './signatures';
 export * from './assetHelpers';
+export * from './batchSwap';
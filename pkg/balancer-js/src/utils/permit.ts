@@ -1,40 +1,101 @@
-import { Signer, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { Interface } from '@ethersproject/abi';
+import { Signer, TypedDataDomain, TypedDataSigner } from '@ethersproject/abstract-signer';
 import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
-import { splitSignature } from '@ethersproject/bytes';
+import { hexDataLength, splitSignature } from '@ethersproject/bytes';
 import { MaxUint256 as MAX_DEADLINE } from '@ethersproject/constants';
 import { Contract } from '@ethersproject/contracts';
-import { Account, accountToAddress } from './signatures';
+import { id } from '@ethersproject/hash';
+import { RelayerVaultPermitDAIParams, RelayerVaultPermitParams } from '../relayer/callBuilder';
+import { Account, accountToAddress, buildTypedData, TypedData } from './signatures';
 
-export const signPermit = async (
-  token: Contract,
-  owner: Signer & TypedDataSigner,
-  spender: Account,
-  amount: BigNumberish,
-  deadline: BigNumberish = MAX_DEADLINE,
-  nonce?: BigNumberish
-): Promise<{ v: number; r: string; s: string; deadline: BigNumber; nonce: BigNumber }> => {
-  const { chainId } = await token.provider.getNetwork();
-  const ownerAddress = await owner.getAddress();
+export enum PermitFlavour {
+  // EIP-2612: `Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)`
+  EIP2612 = 'EIP2612',
+  // DAI: `Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)`
+  DAI = 'DAI',
+}
 
-  if (!nonce) nonce = (await token.nonces(ownerAddress)) as BigNumberish;
+// For tokens whose EIP712 domain doesn't match their `name()` and `version()`, or which include a salt in it
+export type PermitDomainOverrides = {
+  name?: string;
+  version?: string;
+  salt?: string;
+};
 
-  // Hack around some tokens not exposing a `version()` function.
-  // If they do then use it, otherwise assume that their version is "1".
-  let version = '1';
-  try {
-    if (token.version) {
-      version = await token.version();
-    }
-  } catch {
-    // eslint-disable-prev-line no-empty
-  }
+export type VaultPermit =
+  | { flavour: PermitFlavour.EIP2612; params: RelayerVaultPermitParams }
+  | { flavour: PermitFlavour.DAI; params: RelayerVaultPermitDAIParams };
 
-  const domain = {
-    name: await token.name(),
-    version,
-    chainId,
-    verifyingContract: token.address,
-  };
+export type VaultPermitOptions = {
+  // Detected from the token if not provided
+  flavour?: PermitFlavour;
+  deadline?: BigNumberish;
+  nonce?: BigNumberish;
+  domain?: PermitDomainOverrides;
+};
+
+const permitInterface = new Interface([
+  'function PERMIT_TYPEHASH() view returns (bytes32)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function permit(address holder, address spender, uint256 nonce, uint256 expiry, bool allowed, uint8 v, bytes32 r, bytes32 s)',
+]);
+
+const PERMIT_TYPEHASHES: Record<string, PermitFlavour> = {
+  [id('Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)')]: PermitFlavour.EIP2612,
+  [id('Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)')]: PermitFlavour.DAI,
+};
+
+const PERMIT_SELECTORS: Record<PermitFlavour, string> = {
+  [PermitFlavour.EIP2612]: permitInterface.getSighash('permit(address,address,uint256,uint256,uint8,bytes32,bytes32)'),
+  [PermitFlavour.DAI]: permitInterface.getSighash('permit(address,address,uint256,uint256,bool,uint8,bytes32,bytes32)'),
+};
+
+const buildPermitDomain = (
+  chainId: BigNumberish,
+  verifyingContract: string,
+  name: string,
+  version: string,
+  salt?: string
+): TypedDataDomain => ({
+  name,
+  version,
+  chainId,
+  verifyingContract,
+  ...(salt !== undefined ? { salt } : {}),
+});
+
+export type PermitTypedDataParams = {
+  chainId: BigNumberish;
+  // The token being approved
+  verifyingContract: string;
+  // The token's EIP712 domain name and version, which are usually its `name()` and `version()`
+  name: string;
+  version?: string;
+  salt?: string;
+  owner: string;
+  spender: string;
+  amount: BigNumberish;
+  nonce: BigNumberish;
+  deadline?: BigNumberish;
+};
+
+/**
+ * Builds the EIP712 typed data of an EIP-2612 permit without querying the token, e.g. to sign offline.
+ * @param params - the permit, along with the token's chain id, address and domain and the owner's nonce
+ */
+export const buildPermitTypedData = ({
+  chainId,
+  verifyingContract,
+  name,
+  version = '1',
+  salt,
+  owner,
+  spender,
+  amount,
+  nonce,
+  deadline = MAX_DEADLINE,
+}: PermitTypedDataParams): TypedData => {
+  const domain = buildPermitDomain(chainId, verifyingContract, name, version, salt);
 
   const types = {
     Permit: [
@@ -47,13 +108,220 @@ export const signPermit = async (
   };
 
   const value = {
-    owner: ownerAddress,
-    spender: await accountToAddress(spender),
+    owner,
+    spender,
     value: amount,
     nonce,
     deadline,
   };
 
+  return buildTypedData(domain, types, value);
+};
+
+export type DAIPermitTypedDataParams = {
+  chainId: BigNumberish;
+  // The token being approved
+  verifyingContract: string;
+  // The token's EIP712 domain name and version, which are usually its `name()` and `version()`
+  name: string;
+  version?: string;
+  salt?: string;
+  holder: string;
+  spender: string;
+  nonce: BigNumberish;
+  expiry?: BigNumberish;
+  // Whether to grant an unlimited allowance, or to revoke it
+  allowed?: boolean;
+};
+
+/**
+ * Builds the EIP712 typed data of a DAI-style permit without querying the token, e.g. to sign offline.
+ * @param params - the permit, along with the token's chain id, address and domain and the holder's nonce
+ */
+export const buildDAIPermitTypedData = ({
+  chainId,
+  verifyingContract,
+  name,
+  version = '1',
+  salt,
+  holder,
+  spender,
+  nonce,
+  expiry = MAX_DEADLINE,
+  allowed = true,
+}: DAIPermitTypedDataParams): TypedData => {
+  const domain = buildPermitDomain(chainId, verifyingContract, name, version, salt);
+
+  const types = {
+    Permit: [
+      { name: 'holder', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'expiry', type: 'uint256' },
+      { name: 'allowed', type: 'bool' },
+    ],
+  };
+
+  const value = {
+    holder,
+    spender,
+    nonce,
+    expiry,
+    allowed,
+  };
+
+  return buildTypedData(domain, types, value);
+};
+
+/**
+ * Detects which kind of permit a token supports, returning undefined if it supports none.
+ *
+ * The token's `PERMIT_TYPEHASH` is checked first, falling back to looking for each `permit` selector in its bytecode
+ * (which doesn't work for proxies).
+ * @param token - the token to inspect, which needs to be connected to a provider
+ */
+export const detectPermitFlavour = async (token: Contract): Promise<PermitFlavour | undefined> => {
+  try {
+    const typeHash = await token.provider.call({
+      to: token.address,
+      data: permitInterface.encodeFunctionData('PERMIT_TYPEHASH'),
+    });
+    if (hexDataLength(typeHash) === 32 && PERMIT_TYPEHASHES[typeHash] !== undefined) return PERMIT_TYPEHASHES[typeHash];
+  } catch {
+    // Tokens are not required to expose their type hash
+  }
+
+  // Selectors are pushed onto the stack with PUSH4 (0x63) by the function dispatcher
+  const code = (await token.provider.getCode(token.address)).toLowerCase();
+  const flavours = [PermitFlavour.EIP2612, PermitFlavour.DAI];
+  return flavours.find((flavour) => code.includes(`63${PERMIT_SELECTORS[flavour].slice(2)}`));
+};
+
+export const signPermit = async (
+  token: Contract,
+  owner: Signer & TypedDataSigner,
+  spender: Account,
+  amount: BigNumberish,
+  deadline: BigNumberish = MAX_DEADLINE,
+  nonce?: BigNumberish,
+  domainOverrides: PermitDomainOverrides = {}
+): Promise<{ v: number; r: string; s: string; deadline: BigNumber; nonce: BigNumber }> => {
+  const { chainId } = await token.provider.getNetwork();
+  const ownerAddress = await owner.getAddress();
+
+  if (!nonce) nonce = (await token.nonces(ownerAddress)) as BigNumberish;
+
+  const { domain, types, value } = buildPermitTypedData({
+    chainId,
+    verifyingContract: token.address,
+    ...(await getPermitDomain(token, domainOverrides)),
+    owner: ownerAddress,
+    spender: await accountToAddress(spender),
+    amount,
+    nonce,
+    deadline,
+  });
+
   const signature = await owner._signTypedData(domain, types, value);
   return { ...splitSignature(signature), deadline: BigNumber.from(deadline), nonce: BigNumber.from(nonce) };
 };
+
+export const signDAIPermit = async (
+  token: Contract,
+  holder: Signer & TypedDataSigner,
+  spender: Account,
+  allowed = true,
+  expiry: BigNumberish = MAX_DEADLINE,
+  nonce?: BigNumberish,
+  domainOverrides: PermitDomainOverrides = {}
+): Promise<{ v: number; r: string; s: string; expiry: BigNumber; nonce: BigNumber; allowed: boolean }> => {
+  const { chainId } = await token.provider.getNetwork();
+  const holderAddress = await holder.getAddress();
+
+  if (!nonce) nonce = (await token.nonces(holderAddress)) as BigNumberish;
+
+  const { domain, types, value } = buildDAIPermitTypedData({
+    chainId,
+    verifyingContract: token.address,
+    ...(await getPermitDomain(token, domainOverrides)),
+    holder: holderAddress,
+    spender: await accountToAddress(spender),
+    nonce,
+    expiry,
+    allowed,
+  });
+
+  const signature = await holder._signTypedData(domain, types, value);
+  return { ...splitSignature(signature), expiry: BigNumber.from(expiry), nonce: BigNumber.from(nonce), allowed };
+};
+
+/**
+ * Signs a permit allowing the Vault to spend `owner`'s tokens, returning the arguments of the relayer's
+ * `vaultPermit` or `vaultPermitDAI` depending on the token's permit flavour.
+ *
+ * DAI-style permits can only grant an unlimited allowance or revoke it: any non-zero `amount` grants an unlimited
+ * allowance.
+ * @param token - the token being approved
+ * @param owner - the owner of the tokens
+ * @param vault - the Balancer Vault, which the relayer approves as the spender
+ * @param amount - the allowance to grant
+ * @param options - the permit flavour, deadline, nonce and domain overrides
+ */
+export const signVaultPermit = async (
+  token: Contract,
+  owner: Signer & TypedDataSigner,
+  vault: Account,
+  amount: BigNumberish,
+  { flavour, deadline = MAX_DEADLINE, nonce, domain = {} }: VaultPermitOptions = {}
+): Promise<VaultPermit> => {
+  const permitFlavour = flavour ?? (await detectPermitFlavour(token));
+  const ownerAddress = await owner.getAddress();
+
+  if (permitFlavour === PermitFlavour.EIP2612) {
+    const { v, r, s } = await signPermit(token, owner, vault, amount, deadline, nonce, domain);
+    return {
+      flavour: PermitFlavour.EIP2612,
+      params: { token: token.address, owner: ownerAddress, value: amount, deadline, v, r, s },
+    };
+  } else if (permitFlavour === PermitFlavour.DAI) {
+    const allowed = !BigNumber.from(amount).isZero();
+    const { v, r, s, ...permit } = await signDAIPermit(token, owner, vault, allowed, deadline, nonce, domain);
+    return {
+      flavour: PermitFlavour.DAI,
+      params: {
+        token: token.address,
+        holder: ownerAddress,
+        nonce: permit.nonce,
+        expiry: permit.expiry,
+        allowed,
+        v,
+        r,
+        s,
+      },
+    };
+  } else {
+    throw new Error('Token does not support permits');
+  }
+};
+
+async function getPermitDomain(
+  token: Contract,
+  overrides: PermitDomainOverrides
+): Promise<{ name: string; version: string; salt?: string }> {
+  const name = overrides.name ?? ((await token.name()) as string);
+
+  // Hack around some tokens not exposing a `version()` function.
+  // If they do then use it, otherwise assume that their version is "1".
+  let version = overrides.version ?? '1';
+  if (overrides.version === undefined) {
+    try {
+      if (token.version) {
+        version = await token.version();
+      }
+    } catch {
+      // eslint-disable-prev-line no-empty
+    }
+  }
+
+  return { name, version, salt: overrides.salt };
+}
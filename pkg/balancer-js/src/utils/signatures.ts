@@ -1,8 +1,13 @@
-import { MaxUint256 as MAX_DEADLINE } from '@ethersproject/constants';
+import { AddressZero, MaxUint256 as MAX_DEADLINE } from '@ethersproject/constants';
 import { Contract } from '@ethersproject/contracts';
-import { hexValue, hexZeroPad, splitSignature } from '@ethersproject/bytes';
+import { hexDataLength, hexDataSlice, hexValue, hexZeroPad, isHexString, splitSignature } from '@ethersproject/bytes';
 import { BigNumber, BigNumberish } from '@ethersproject/bignumber';
-import { Signer, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { Signer, TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { getAddress } from '@ethersproject/address';
+import { _TypedDataEncoder } from '@ethersproject/hash';
+import { recoverAddress } from '@ethersproject/transactions';
+import invariant from 'tiny-invariant';
+import { _require } from '../math/errors';
 
 export type Account = string | Signer | Contract;
 
@@ -13,6 +18,23 @@ export async function accountToAddress(account: Account): Promise<string> {
   throw new Error('Could not read account address');
 }
 
+export type TypedData = {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  value: Record<string, unknown>;
+  // The EIP712 hash of the typed data, which is what gets signed
+  digest: string;
+};
+
+/**
+ * Bundles EIP712 typed data along with its digest.
+ */
+export const buildTypedData = (
+  domain: TypedDataDomain,
+  types: Record<string, TypedDataField[]>,
+  value: Record<string, unknown>
+): TypedData => ({ domain, types, value, digest: _TypedDataEncoder.hash(domain, types, value) });
+
 export enum RelayerAction {
   JoinPool = 'JoinPool',
   ExitPool = 'ExitPool',
@@ -21,6 +43,67 @@ export enum RelayerAction {
   SetRelayerApproval = 'SetRelayerApproval',
 }
 
+export type RelayerAuthorizationTypedDataParams = {
+  type: RelayerAction;
+  chainId: BigNumberish;
+  // The contract validating the authorization (e.g. the Vault)
+  verifyingContract: string;
+  // The account allowed to send the calldata (e.g. the relayer)
+  sender: string;
+  calldata: string;
+  nonce: BigNumberish;
+  deadline?: BigNumberish;
+};
+
+export type SetMinterApprovalTypedDataParams = {
+  chainId: BigNumberish;
+  // The Balancer Minter
+  verifyingContract: string;
+  minter: string;
+  approval: boolean;
+  nonce: BigNumberish;
+  deadline?: BigNumberish;
+};
+
+export type SetOnlyCallerCheckTypedDataParams = {
+  chainId: BigNumberish;
+  // The EIP712 domain name of the contract, which it sets in its constructor (e.g. 'FeeDistributor')
+  name: string;
+  // The contract deriving from `OptionalOnlyCaller`
+  verifyingContract: string;
+  user: string;
+  enabled: boolean;
+  nonce: BigNumberish;
+};
+
+export type CalldataAuthorization = {
+  // The original calldata, without the appended authorization
+  calldata: string;
+  deadline: BigNumber;
+  v: number;
+  r: string;
+  s: string;
+};
+
+// The appended authorization consists of a deadline plus the [v,r,s] signature, each taking a full 32 byte word.
+const EXTRA_CALLDATA_LENGTH = 4 * 32;
+
+// The order of the secp256k1 curve, which bounds the s value of signatures.
+const SECP256K1_N = BigNumber.from('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+
+// All relayer authorization types have the same fields, see `ExtraCalldataEOASignaturesValidator`.
+const relayerAuthorizationTypes = (type: RelayerAction) => ({
+  [type]: [
+    { name: 'calldata', type: 'bytes' },
+    { name: 'sender', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+});
+
+const hasCalldataAuthorization = (authorizedCalldata: string): boolean =>
+  isHexString(authorizedCalldata) && hexDataLength(authorizedCalldata) > EXTRA_CALLDATA_LENGTH;
+
 export class RelayerAuthorization {
   /**
    * Cannot be constructed.
@@ -137,36 +220,168 @@ export class RelayerAuthorization {
     deadline: BigNumberish = MAX_DEADLINE,
     nonce?: BigNumberish
   ): Promise<string> => {
-    const { chainId } = await validator.provider.getNetwork();
-    if (!nonce) {
-      const userAddress = await user.getAddress();
-      nonce = (await validator.getNextNonce(userAddress)) as BigNumberish;
+    const { domain, types, value } = await RelayerAuthorization._getAuthorizationTypedData(
+      type,
+      validator,
+      user,
+      allowedSender,
+      allowedCalldata,
+      deadline,
+      nonce
+    );
+
+    return user._signTypedData(domain, types, value);
+  };
+
+  /**
+   * Splits calldata with an appended authorization (as built by `encodeCalldataAuthorization`) into the original
+   * calldata and the authorization's deadline and signature.
+   * @param authorizedCalldata - the calldata including the authorization
+   */
+  static decodeCalldataAuthorization = (authorizedCalldata: string): CalldataAuthorization => {
+    invariant(hasCalldataAuthorization(authorizedCalldata), 'Calldata does not include an authorization');
+
+    const extraCalldataStart = hexDataLength(authorizedCalldata) - EXTRA_CALLDATA_LENGTH;
+    const extraCalldataWord = (offset: number): string =>
+      hexDataSlice(authorizedCalldata, extraCalldataStart + offset, extraCalldataStart + offset + 32);
+
+    return {
+      calldata: hexDataSlice(authorizedCalldata, 0, extraCalldataStart),
+      deadline: BigNumber.from(extraCalldataWord(0)),
+      // The validator casts v to uint8, ignoring the other bytes of its word
+      v: BigNumber.from(extraCalldataWord(32)).and(0xff).toNumber(),
+      r: extraCalldataWord(64),
+      s: extraCalldataWord(96),
+    };
+  };
+
+  /**
+   * Returns the address which signed the authorization appended to `authorizedCalldata`, or the zero address if the
+   * signature is invalid (as `ecrecover` does).
+   * @param type - the action being authorized
+   * @param domain - the EIP712 domain of the validator (e.g. the Vault)
+   * @param sender - the account sending the calldata to the validator (e.g. the relayer)
+   * @param nonce - the signer's nonce, as returned by `getNextNonce`
+   * @param authorizedCalldata - the calldata including the authorization
+   */
+  static recoverAuthorizationSigner = (
+    type: RelayerAction,
+    domain: TypedDataDomain,
+    sender: string,
+    nonce: BigNumberish,
+    authorizedCalldata: string
+  ): string => {
+    const { calldata, deadline, v, r, s } = RelayerAuthorization.decodeCalldataAuthorization(authorizedCalldata);
+
+    const value = { calldata, sender, nonce: nonce.toString(), deadline: deadline.toString() };
+    const digest = _TypedDataEncoder.hash(domain, relayerAuthorizationTypes(type), value);
+
+    // ecrecover only accepts v values of 27 and 28, while ethers would also accept 0 and 1.
+    if (v !== 27 && v !== 28) return AddressZero;
+
+    // ecrecover also accepts s values in the upper half of the curve order, which ethers rejects. These signatures
+    // are equivalent to the ones with s' = n - s and the opposite v, so they are normalized before recovering.
+    const sValue = BigNumber.from(s);
+    if (sValue.isZero() || sValue.gte(SECP256K1_N)) return AddressZero;
+    const signature = sValue.gt(SECP256K1_N.div(2))
+      ? { v: v === 27 ? 28 : 27, r, s: hexZeroPad(SECP256K1_N.sub(sValue).toHexString(), 32) }
+      : { v, r, s };
+
+    try {
+      return recoverAddress(digest, signature);
+    } catch {
+      return AddressZero;
     }
+  };
+
+  /**
+   * Mirrors the validation performed by `ExtraCalldataEOASignaturesValidator`, throwing the same errors the validator
+   * would revert with: `errorCode` if the signature is not valid for `user`, and `EXPIRED_SIGNATURE` if the deadline
+   * is earlier than `timestamp`. The validator reads the authorization at fixed offsets from the end of the calldata,
+   * so a missing authorization simply fails signature recovery and is likewise rejected with `errorCode`.
+   * @param type - the action being authorized
+   * @param domain - the EIP712 domain of the validator (e.g. the Vault)
+   * @param user - the account expected to have signed the authorization
+   * @param sender - the account sending the calldata to the validator (e.g. the relayer)
+   * @param nonce - the user's nonce, as returned by `getNextNonce`
+   * @param authorizedCalldata - the calldata including the authorization
+   * @param timestamp - the timestamp of the block the calldata is expected to be included in
+   * @param errorCode - the error raised for invalid signatures, which depends on the validator
+   */
+  static verifyAuthorization = (
+    type: RelayerAction,
+    domain: TypedDataDomain,
+    user: string,
+    sender: string,
+    nonce: BigNumberish,
+    authorizedCalldata: string,
+    timestamp: BigNumberish,
+    errorCode = 'USER_DOESNT_ALLOW_RELAYER'
+  ): void => {
+    _require(hasCalldataAuthorization(authorizedCalldata), errorCode);
+
+    const signer = RelayerAuthorization.recoverAuthorizationSigner(type, domain, sender, nonce, authorizedCalldata);
+    _require(signer !== AddressZero && signer === getAddress(user), errorCode);
 
+    // As in the validator, the deadline is only checked once the signature is known to be valid.
+    const { deadline } = RelayerAuthorization.decodeCalldataAuthorization(authorizedCalldata);
+    _require(deadline.gte(timestamp), 'EXPIRED_SIGNATURE');
+  };
+
+  /**
+   * Builds the EIP712 typed data of an authorization without querying the validator, e.g. to sign offline.
+   * @param params - the authorization, along with the validator's chain id and address and the user's nonce
+   */
+  static buildAuthorizationTypedData = ({
+    type,
+    chainId,
+    verifyingContract,
+    sender,
+    calldata,
+    nonce,
+    deadline = MAX_DEADLINE,
+  }: RelayerAuthorizationTypedDataParams): TypedData => {
     const domain = {
       name: 'Balancer V2 Vault',
       version: '1',
       chainId,
-      verifyingContract: validator.address,
-    };
-
-    const types = {
-      [type]: [
-        { name: 'calldata', type: 'bytes' },
-        { name: 'sender', type: 'address' },
-        { name: 'nonce', type: 'uint256' },
-        { name: 'deadline', type: 'uint256' },
-      ],
+      verifyingContract,
     };
 
     const value = {
-      calldata: allowedCalldata,
-      sender: await accountToAddress(allowedSender),
+      calldata,
+      sender,
       nonce: nonce.toString(),
       deadline: deadline.toString(),
     };
 
-    return user._signTypedData(domain, types, value);
+    return buildTypedData(domain, relayerAuthorizationTypes(type), value);
+  };
+
+  private static _getAuthorizationTypedData = async (
+    type: RelayerAction,
+    validator: Contract,
+    user: Account,
+    allowedSender: Account,
+    allowedCalldata: string,
+    deadline: BigNumberish,
+    nonce?: BigNumberish
+  ): Promise<TypedData> => {
+    const { chainId } = await validator.provider.getNetwork();
+    if (!nonce) {
+      const userAddress = await accountToAddress(user);
+      nonce = (await validator.getNextNonce(userAddress)) as BigNumberish;
+    }
+
+    return RelayerAuthorization.buildAuthorizationTypedData({
+      type,
+      chainId,
+      verifyingContract: validator.address,
+      sender: await accountToAddress(allowedSender),
+      calldata: allowedCalldata,
+      nonce,
+      deadline,
+    });
   };
 }
 
@@ -186,17 +401,37 @@ export class BalancerMinterAuthorization {
     deadline: BigNumberish = MAX_DEADLINE,
     nonce?: BigNumberish
   ): Promise<{ v: number; r: string; s: string; deadline: BigNumber }> => {
-    const { chainId } = await minterContract.provider.getNetwork();
-    if (!nonce) {
-      const userAddress = await user.getAddress();
-      nonce = (await minterContract.getNextNonce(userAddress)) as BigNumberish;
-    }
+    const { domain, types, value } = await BalancerMinterAuthorization._getSetMinterApprovalTypedData(
+      minterContract,
+      minter,
+      approval,
+      user,
+      deadline,
+      nonce
+    );
+
+    const signature = await user._signTypedData(domain, types, value);
 
+    return { ...splitSignature(signature), deadline: BigNumber.from(deadline) };
+  };
+
+  /**
+   * Builds the EIP712 typed data of a minter approval without querying the minter, e.g. to sign offline.
+   * @param params - the approval, along with the minter's chain id and address and the user's nonce
+   */
+  static buildSetMinterApprovalTypedData = ({
+    chainId,
+    verifyingContract,
+    minter,
+    approval,
+    nonce,
+    deadline = MAX_DEADLINE,
+  }: SetMinterApprovalTypedDataParams): TypedData => {
     const domain = {
       name: 'Balancer Minter',
       version: '1',
       chainId,
-      verifyingContract: minterContract.address,
+      verifyingContract,
     };
 
     const types = {
@@ -209,14 +444,155 @@ export class BalancerMinterAuthorization {
     };
 
     const value = {
-      minter: await accountToAddress(minter),
+      minter,
       approval,
       nonce: nonce.toString(),
       deadline: deadline.toString(),
     };
 
-    const signature = await user._signTypedData(domain, types, value);
+    return buildTypedData(domain, types, value);
+  };
 
-    return { ...splitSignature(signature), deadline: BigNumber.from(deadline) };
+  private static _getSetMinterApprovalTypedData = async (
+    minterContract: Contract,
+    minter: Account,
+    approval: boolean,
+    user: Account,
+    deadline: BigNumberish,
+    nonce?: BigNumberish
+  ): Promise<TypedData> => {
+    const { chainId } = await minterContract.provider.getNetwork();
+    if (!nonce) {
+      const userAddress = await accountToAddress(user);
+      nonce = (await minterContract.getNextNonce(userAddress)) as BigNumberish;
+    }
+
+    return BalancerMinterAuthorization.buildSetMinterApprovalTypedData({
+      chainId,
+      verifyingContract: minterContract.address,
+      minter: await accountToAddress(minter),
+      approval,
+      nonce,
+      deadline,
+    });
+  };
+}
+
+/**
+ * Signs the `setOnlyCallerCheckWithSignature` calls of contracts deriving from `OptionalOnlyCaller` (such as the
+ * FeeDistributor). As these validate signatures with `SignaturesValidator`, smart contract wallets may authorize the
+ * call too: `getSetOnlyCallerCheckDigest` returns the digest for them to approve, and the wallet's signature is then
+ * passed to `setOnlyCallerCheckWithSignature` unchanged, to be checked through EIP-1271's `isValidSignature`.
+ */
+export class OptionalOnlyCallerAuthorization {
+  /**
+   * Cannot be constructed.
+   */
+  private constructor() {
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  }
+
+  static signSetOnlyCallerCheck = async (
+    contract: Contract,
+    name: string,
+    user: Signer & TypedDataSigner,
+    enabled: boolean,
+    nonce?: BigNumberish
+  ): Promise<string> => {
+    const { domain, types, value } = await OptionalOnlyCallerAuthorization._getSetOnlyCallerCheckTypedData(
+      contract,
+      name,
+      user,
+      enabled,
+      nonce
+    );
+
+    return user._signTypedData(domain, types, value);
+  };
+
+  /**
+   * Returns the EIP712 digest of a `setOnlyCallerCheckWithSignature` call, for accounts which cannot produce typed
+   * data signatures (such as smart contract wallets).
+   * @param contract - the contract deriving from `OptionalOnlyCaller`
+   * @param name - the EIP712 domain name of the contract
+   * @param user - the account enabling or disabling the check (e.g. a smart contract wallet)
+   * @param enabled - whether the check is being enabled or disabled
+   * @param nonce - the user's nonce, fetched from the contract if not provided
+   */
+  static getSetOnlyCallerCheckDigest = async (
+    contract: Contract,
+    name: string,
+    user: Account,
+    enabled: boolean,
+    nonce?: BigNumberish
+  ): Promise<string> => {
+    const { digest } = await OptionalOnlyCallerAuthorization._getSetOnlyCallerCheckTypedData(
+      contract,
+      name,
+      user,
+      enabled,
+      nonce
+    );
+
+    return digest;
+  };
+
+  /**
+   * Builds the EIP712 typed data of a `setOnlyCallerCheckWithSignature` call without querying the contract.
+   * @param params - the call, along with the contract's chain id, name and address and the user's nonce
+   */
+  static buildSetOnlyCallerCheckTypedData = ({
+    chainId,
+    name,
+    verifyingContract,
+    user,
+    enabled,
+    nonce,
+  }: SetOnlyCallerCheckTypedDataParams): TypedData => {
+    const domain = {
+      name,
+      version: '1',
+      chainId,
+      verifyingContract,
+    };
+
+    const types = {
+      SetOnlyCallerCheck: [
+        { name: 'user', type: 'address' },
+        { name: 'enabled', type: 'bool' },
+        { name: 'nonce', type: 'uint256' },
+      ],
+    };
+
+    const value = {
+      user,
+      enabled,
+      nonce: nonce.toString(),
+    };
+
+    return buildTypedData(domain, types, value);
+  };
+
+  private static _getSetOnlyCallerCheckTypedData = async (
+    contract: Contract,
+    name: string,
+    user: Account,
+    enabled: boolean,
+    nonce?: BigNumberish
+  ): Promise<TypedData> => {
+    const { chainId } = await contract.provider.getNetwork();
+    const userAddress = await accountToAddress(user);
+    if (!nonce) {
+      nonce = (await contract.getNextNonce(userAddress)) as BigNumberish;
+    }
+
+    return OptionalOnlyCallerAuthorization.buildSetOnlyCallerCheckTypedData({
+      chainId,
+      name,
+      verifyingContract: contract.address,
+      user: userAddress,
+      enabled,
+      nonce,
+    });
   };
 }
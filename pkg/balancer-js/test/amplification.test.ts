@@ -0,0 +1,136 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { expect } from 'chai';
+
+import { AmplificationState, BalancerErrors, StablePoolAmplification } from '../src';
+
+const DAY = 86400;
+
+const expectBalancerError = (fn: () => unknown, error: string): void => {
+  expect(fn).to.throw(BalancerErrors.encodeError(error));
+};
+
+describe('StablePoolAmplification', () => {
+  const idle: AmplificationState = { value: 100000, isUpdating: false, precision: 1000 };
+  const update = { startValue: 100000, endValue: 200000, startTime: DAY, endTime: 2 * DAY };
+  const updating: AmplificationState = { value: 150000, isUpdating: true, precision: 1000, update };
+
+  describe('getAmplificationParameter', () => {
+    it('returns the value of idle Pools', () => {
+      expect(StablePoolAmplification.getAmplificationParameter(idle, 5 * DAY)).to.be.deep.eq({
+        value: BigNumber.from(100000),
+        isUpdating: false,
+      });
+    });
+
+    it('interpolates ongoing updates', () => {
+      const valueAt = (timestamp: number) =>
+        StablePoolAmplification.getAmplificationParameter(updating, timestamp).value.toNumber();
+
+      expect(valueAt(DAY)).to.be.eq(100000);
+      expect(valueAt(DAY + 1)).to.be.eq(100001);
+      expect(valueAt(1.5 * DAY)).to.be.eq(150000);
+      expect(StablePoolAmplification.getAmplificationParameter(updating, 2 * DAY)).to.be.deep.eq({
+        value: BigNumber.from(200000),
+        isUpdating: false,
+      });
+    });
+
+    it('rounds the change down in decreasing updates', () => {
+      const decreasing = { ...updating, update: { ...update, startValue: 200000, endValue: 100000 } };
+      expect(StablePoolAmplification.getAmplificationParameter(decreasing, DAY + 1).value.toNumber()).to.be.eq(199999);
+    });
+  });
+
+  describe('validateUpdate', () => {
+    it('returns the update the Pool would start', () => {
+      expect(StablePoolAmplification.validateUpdate(idle, 200, 2 * DAY, DAY)).to.be.deep.eq({
+        startValue: BigNumber.from(100000),
+        endValue: BigNumber.from(200000),
+        startTime: BigNumber.from(DAY),
+        endTime: BigNumber.from(2 * DAY),
+      });
+    });
+
+    it('rejects out of range values', () => {
+      expectBalancerError(() => StablePoolAmplification.validateUpdate(idle, 0, 2 * DAY, 0), 'MIN_AMP');
+      expectBalancerError(() => StablePoolAmplification.validateUpdate(idle, 5001, 2 * DAY, 0), 'MAX_AMP');
+    });
+
+    it('rejects end times in the past or too close', () => {
+      expectBalancerError(() => StablePoolAmplification.validateUpdate(idle, 150, DAY - 1, DAY), 'SUB_OVERFLOW');
+      expectBalancerError(
+        () => StablePoolAmplification.validateUpdate(idle, 150, 2 * DAY - 1, DAY),
+        'AMP_END_TIME_TOO_CLOSE'
+      );
+    });
+
+    it('rejects updates during ongoing updates', () => {
+      expectBalancerError(
+        () => StablePoolAmplification.validateUpdate(updating, 300, 3 * DAY, 1.5 * DAY),
+        'AMP_ONGOING_UPDATE'
+      );
+      expect(() => StablePoolAmplification.validateUpdate(updating, 300, 3 * DAY, 2 * DAY)).not.to.throw();
+    });
+
+    it('rejects rates over twice per day', () => {
+      expectBalancerError(() => StablePoolAmplification.validateUpdate(idle, 201, 2 * DAY, DAY), 'AMP_RATE_TOO_HIGH');
+      expectBalancerError(() => StablePoolAmplification.validateUpdate(idle, 49, 2 * DAY, DAY), 'AMP_RATE_TOO_HIGH');
+      expect(() => StablePoolAmplification.validateUpdate(idle, 50, 2 * DAY, DAY)).not.to.throw();
+    });
+  });
+
+  describe('getMinimumDuration', () => {
+    it('returns the shortest legal duration', () => {
+      expect(StablePoolAmplification.getMinimumDuration(100000, 150).toNumber()).to.be.eq(DAY);
+      expect(StablePoolAmplification.getMinimumDuration(100000, 400).toNumber()).to.be.eq(2 * DAY);
+
+      // ceil(1 day * 201 / (2 * 100))
+      const duration = StablePoolAmplification.getMinimumDuration(100000, 201).toNumber();
+      expect(duration).to.be.eq(86832);
+      expect(() => StablePoolAmplification.validateUpdate(idle, 201, duration, 0)).not.to.throw();
+      expectBalancerError(
+        () => StablePoolAmplification.validateUpdate(idle, 201, duration - 1, 0),
+        'AMP_RATE_TOO_HIGH'
+      );
+    });
+  });
+
+  describe('planUpdates', () => {
+    const expectLegalPlan = (state: AmplificationState, rawTargetValue: number, timestamp: number) => {
+      const steps = StablePoolAmplification.planUpdates(state, rawTargetValue, timestamp);
+
+      let current = state;
+      for (const step of steps) {
+        const update = StablePoolAmplification.validateUpdate(current, step.rawEndValue, step.endTime, step.startTime);
+        current = { value: update.startValue, isUpdating: true, precision: state.precision, update };
+      }
+      expect(steps[steps.length - 1].rawEndValue.toNumber()).to.be.eq(rawTargetValue);
+
+      return steps;
+    };
+
+    it('uses a single update for small changes', () => {
+      const steps = expectLegalPlan(idle, 300, 0);
+      expect(steps).to.have.length(1);
+      expect(steps[0].endTime.toNumber()).to.be.eq(1.5 * DAY);
+    });
+
+    it('chains updates for large changes', () => {
+      const steps = expectLegalPlan({ ...idle, value: 1000 }, 5000, 0);
+      // A single update would take 2500 days
+      expect(steps.length).to.be.gt(1);
+      expect(steps[steps.length - 1].endTime.toNumber()).to.be.lt(12 * DAY);
+
+      expectLegalPlan({ ...idle, value: 5000000 }, 1, 0);
+    });
+
+    it('starts after ongoing updates', () => {
+      const steps = expectLegalPlan(updating, 1000, 1.5 * DAY);
+      expect(steps[0].startTime.toNumber()).to.be.eq(2 * DAY);
+    });
+
+    it('returns no steps if the target is already reached', () => {
+      expect(StablePoolAmplification.planUpdates(idle, 100, 0)).to.be.deep.eq([]);
+    });
+  });
+});
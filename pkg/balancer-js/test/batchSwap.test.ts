@@ -0,0 +1,77 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { AddressZero } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import { BalancerErrors, BatchSwapBuilder, SwapKind } from '../src';
+
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const BAL = '0xba100000625a3754423978a60c9317c58a424e3D';
+
+const POOL_A = '0x0b09dea16768f0799065c475be02919503cb2a3500020000000000000000001a';
+const POOL_B = '0x5c6ee304399dbdb9c8ef030ab642b10820db8f56000200000000000000000014';
+
+const fundManagement = {
+  sender: AddressZero,
+  fromInternalBalance: false,
+  recipient: AddressZero,
+  toInternalBalance: false,
+};
+
+describe('BatchSwapBuilder', () => {
+  const multihop = (builder: BatchSwapBuilder): BatchSwapBuilder =>
+    builder
+      .addHop({ poolId: POOL_A, tokenIn: DAI, tokenOut: WETH, amount: 100 })
+      .addHop({ poolId: POOL_B, tokenIn: WETH.toLowerCase(), tokenOut: BAL, amount: 0 });
+
+  it('deduplicates and indexes assets', () => {
+    const builder = multihop(new BatchSwapBuilder(SwapKind.GivenIn, WETH));
+
+    expect(builder.getAssets()).to.be.deep.eq([DAI, WETH, BAL]);
+    expect(builder.getSwaps().map(({ assetInIndex, assetOutIndex }) => [assetInIndex, assetOutIndex])).to.be.deep.eq([
+      [0, 1],
+      [1, 2],
+    ]);
+    expect(builder.getSwaps()[1].userData).to.be.eq('0x');
+  });
+
+  it('replaces WETH with the ETH sentinel', () => {
+    const builder = multihop(new BatchSwapBuilder(SwapKind.GivenIn, WETH, { useETH: true }));
+    expect(builder.getAssets()).to.be.deep.eq([DAI, AddressZero, BAL]);
+  });
+
+  it('rejects mixing ETH and WETH', () => {
+    const builder = multihop(new BatchSwapBuilder(SwapKind.GivenIn, WETH)).addHop({
+      poolId: POOL_A,
+      tokenIn: AddressZero,
+      tokenOut: DAI,
+      amount: 1,
+    });
+
+    expect(() => builder.getAssets()).to.throw(BalancerErrors.encodeError('CANNOT_USE_ETH_SENTINEL'));
+  });
+
+  it('applies slippage to amounts out of given in swaps', () => {
+    const builder = multihop(new BatchSwapBuilder(SwapKind.GivenIn, WETH));
+    const limits = builder.getLimits([100, 0, -1000], BigNumber.from(10).pow(16));
+
+    expect(limits.map((limit) => limit.toNumber())).to.be.deep.eq([100, 0, -990]);
+  });
+
+  it('applies slippage to amounts in of given out swaps', () => {
+    const builder = multihop(new BatchSwapBuilder(SwapKind.GivenOut, WETH));
+    const limits = builder.getLimits([1000, 0, -100], BigNumber.from(10).pow(16));
+
+    expect(limits.map((limit) => limit.toNumber())).to.be.deep.eq([1010, 0, -100]);
+  });
+
+  it('builds the batch swap', () => {
+    const builder = multihop(new BatchSwapBuilder(SwapKind.GivenIn, WETH));
+    const batchSwap = builder.build(fundManagement, [100, 0, -990], 1e10);
+
+    expect(batchSwap.kind).to.be.eq(SwapKind.GivenIn);
+    expect(batchSwap.assets).to.be.deep.eq([DAI, WETH, BAL]);
+    expect(batchSwap.swaps.length).to.be.eq(2);
+    expect(() => builder.build(fundManagement, [100], 1e10)).to.throw('limits length mismatch');
+  });
+});
@@ -0,0 +1,118 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import { BptHelpers, BptPoolState, PoolType, ScalingHelpers, TotalSupplyType } from '../src';
+import { fp } from './helpers';
+
+describe('BptHelpers', () => {
+  // 3000 USDC (6 decimals) and 1 WETH
+  const weighted: BptPoolState = {
+    type: PoolType.Weighted,
+    balances: [BigNumber.from(3000e6), fp(1)],
+    scalingFactors: [ScalingHelpers.computeScalingFactor(6), ONE],
+    supply: fp(100),
+  };
+
+  // The BPT is registered first, and the last token has a rate of 1.1
+  const composable: BptPoolState = {
+    type: PoolType.ComposableStable,
+    balances: [ONE.mul(2).pow(111), fp(300), fp(600)],
+    scalingFactors: [ONE, ONE, fp(1.1)],
+    bptIndex: 0,
+    supply: fp(900),
+  };
+
+  describe('getTotalSupplyType', () => {
+    it('picks the supply used by each Pool type', () => {
+      expect(BptHelpers.getTotalSupplyType(PoolType.Weighted)).to.be.eq(TotalSupplyType.ActualSupply);
+      expect(BptHelpers.getTotalSupplyType(PoolType.LiquidityBootstrapping)).to.be.eq(TotalSupplyType.TotalSupply);
+      expect(BptHelpers.getTotalSupplyType(PoolType.Managed)).to.be.eq(TotalSupplyType.ActualSupply);
+      expect(BptHelpers.getTotalSupplyType(PoolType.ComposableStable)).to.be.eq(TotalSupplyType.ActualSupply);
+      expect(BptHelpers.getTotalSupplyType(PoolType.Linear)).to.be.eq(TotalSupplyType.VirtualSupply);
+    });
+
+    it('ignores unminted fees in Recovery Mode', () => {
+      expect(BptHelpers.getTotalSupplyType(PoolType.Weighted, true)).to.be.eq(TotalSupplyType.TotalSupply);
+      expect(BptHelpers.getTotalSupplyType(PoolType.ComposableStable, true)).to.be.eq(TotalSupplyType.VirtualSupply);
+    });
+  });
+
+  describe('getProportionalAmountsIn', () => {
+    it('rounds amounts in up', () => {
+      expect(BptHelpers.getProportionalAmountsIn(weighted, fp(1))).to.be.deep.eq([BigNumber.from(30e6), fp(0.01)]);
+      // 1/3 of a wei-precision ratio rounds up on both the ratio and the amounts
+      expect(BptHelpers.getProportionalAmountsIn(weighted, fp(1).div(3))).to.be.deep.eq([
+        BigNumber.from(10e6 + 1),
+        BigNumber.from('3333333333333334'),
+      ]);
+    });
+
+    it('excludes the BPT of composable Pools', () => {
+      const amountsIn = BptHelpers.getProportionalAmountsIn(composable, fp(9));
+      expect(amountsIn).to.be.deep.eq([BigNumber.from(0), fp(3), fp(6)]);
+    });
+
+    it('rejects Linear Pools', () => {
+      expect(() => BptHelpers.getProportionalAmountsIn({ ...composable, type: PoolType.Linear }, fp(1))).to.throw(
+        'Linear Pools do not support proportional joins'
+      );
+    });
+
+    it('requires the BPT index of composable Pools', () => {
+      expect(() => BptHelpers.getProportionalAmountsIn({ ...composable, bptIndex: undefined }, fp(1))).to.throw(
+        'The BPT index of composable Pools must be provided'
+      );
+    });
+  });
+
+  describe('getProportionalAmountsOut', () => {
+    it('rounds amounts out down', () => {
+      expect(BptHelpers.getProportionalAmountsOut(weighted, fp(1).div(3))).to.be.deep.eq([
+        BigNumber.from(10e6 - 1),
+        BigNumber.from('3333333333333333'),
+      ]);
+    });
+
+    it('excludes the BPT of composable Pools', () => {
+      expect(BptHelpers.getProportionalAmountsOut(composable, fp(9))).to.be.deep.eq([BigNumber.from(0), fp(3), fp(6)]);
+    });
+
+    it('ignores scaling factors in Recovery Mode', () => {
+      // The token rate causes a rounding error in the regular exit which isn't present in Recovery Mode
+      const bptAmountIn = fp(1).div(7);
+      const amountsOut = BptHelpers.getProportionalAmountsOut(composable, bptAmountIn);
+      const recoveryAmountsOut = BptHelpers.getProportionalAmountsOut(composable, bptAmountIn, true);
+
+      const bptRatio = bptAmountIn.mul(ONE).div(fp(900));
+      expect(recoveryAmountsOut[2]).to.be.deep.eq(fp(600).mul(bptRatio).div(ONE));
+      expect(amountsOut[2]).to.be.deep.eq(fp(600).mul(fp(1.1)).div(ONE).mul(bptRatio).div(ONE).mul(ONE).div(fp(1.1)));
+    });
+
+    it('supports Linear Pools only in Recovery Mode', () => {
+      const linear = { ...composable, type: PoolType.Linear };
+      expect(BptHelpers.getProportionalAmountsOut(linear, fp(9), true)).to.be.deep.eq([
+        BigNumber.from(0),
+        fp(3),
+        fp(6),
+      ]);
+      expect(() => BptHelpers.getProportionalAmountsOut(linear, fp(9))).to.throw(
+        'Linear Pools only support proportional exits in Recovery Mode'
+      );
+    });
+  });
+
+  describe('getBptPrice', () => {
+    it('values the tokens in the Pool', () => {
+      // (3000 * 1 + 1 * 3000) / 100
+      expect(BptHelpers.getBptPrice(weighted, [fp(1), fp(3000)], [6, 18])).to.be.deep.eq(fp(60));
+    });
+
+    it('ignores the BPT of composable Pools', () => {
+      // (300 * 1 + 600 * 1.1) / 900
+      expect(BptHelpers.getBptPrice(composable, [fp(1e6), fp(1), fp(1.1)], [18, 18, 18])).to.be.deep.eq(
+        fp(960).mul(ONE).div(fp(900))
+      );
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { defaultAbiCoder, Interface } from '@ethersproject/abi';
+import { BigNumber } from '@ethersproject/bignumber';
+import { expect } from 'chai';
+
+import {
+  ChainedReferenceAllocator,
+  decodeChainedReferenceTrace,
+  formatChainedReferenceTrace,
+  getReferenceKey,
+  isChainedReference,
+  isTemporaryChainedReference,
+  RelayerCallBuilder,
+  toChainedReference,
+} from '../src';
+
+describe('chained references', () => {
+  it('encodes references with the BaseRelayerLibrary prefixes', () => {
+    expect(toChainedReference(5).toHexString()).to.be.eq(`0xba10${'0'.repeat(59)}5`);
+    expect(toChainedReference(5, { temporary: false }).toHexString()).to.be.eq(`0xba11${'0'.repeat(59)}5`);
+  });
+
+  it('tells references apart from amounts', () => {
+    expect(isChainedReference(5)).to.be.false;
+    expect(isChainedReference(toChainedReference(5))).to.be.true;
+    expect(isChainedReference(toChainedReference(5, { temporary: false }))).to.be.true;
+
+    expect(isTemporaryChainedReference(toChainedReference(5))).to.be.true;
+    expect(isTemporaryChainedReference(toChainedReference(5, { temporary: false }))).to.be.false;
+  });
+
+  it('extracts the reference key', () => {
+    expect(getReferenceKey(toChainedReference(7, { temporary: false })).toNumber()).to.be.eq(7);
+    expect(() => getReferenceKey(7)).to.throw('not a chained reference');
+    expect(() => toChainedReference(BigNumber.from(2).pow(240))).to.throw('out of bounds');
+  });
+
+  it('allocates references with unique keys', () => {
+    const allocator = new ChainedReferenceAllocator(10);
+    const first = allocator.allocate();
+    const second = allocator.allocate({ temporary: false }, 'BPT out');
+
+    expect(getReferenceKey(first).toNumber()).to.be.eq(10);
+    expect(getReferenceKey(second).toNumber()).to.be.eq(11);
+    expect(allocator.getLabel(second)).to.be.eq('BPT out');
+    expect(allocator.getLabel(first)).to.be.undefined;
+  });
+
+  it('decodes peeked values into a trace', () => {
+    const allocator = new ChainedReferenceAllocator();
+    const reference = allocator.allocate({ temporary: false }, 'BPT out');
+
+    const builder = new RelayerCallBuilder();
+    builder.setRelayerApproval('0xba100000625a3754423978a60c9317c58a424e3D', true, '0x');
+    builder.peekChainedReferenceValue(reference);
+
+    const results = ['0x', defaultAbiCoder.encode(['uint256'], [1000])];
+    const trace = decodeChainedReferenceTrace(builder.getCalls(), results, allocator);
+
+    expect(trace).to.have.length(1);
+    expect(trace[0].callIndex).to.be.eq(1);
+    expect(trace[0].value.toNumber()).to.be.eq(1000);
+    expect(formatChainedReferenceTrace(trace)).to.be.eq('#1 key 0 (read-only, BPT out): 1000');
+  });
+
+  it('ignores calls other than peeks', () => {
+    const library = new Interface(['function approveVault(address token, uint256 amount)']);
+    const data = library.encodeFunctionData('approveVault', ['0xba100000625a3754423978a60c9317c58a424e3D', 1]);
+
+    expect(decodeChainedReferenceTrace([data], ['0x'])).to.be.deep.eq([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { expect } from 'chai';
+
+import {
+  BasePoolEncoder,
+  BasePoolExitKind,
+  ComposableStablePoolEncoder,
+  decodeExitPoolUserData,
+  decodeJoinPoolUserData,
+  ManagedPoolEncoder,
+  PoolFamily,
+  StablePoolEncoder,
+  StablePoolExitKind,
+  StablePoolJoinKind,
+  StablePoolVersion,
+  WeightedPoolEncoder,
+  WeightedPoolExitKind,
+  WeightedPoolJoinKind,
+} from '../src';
+
+describe('userData decoding', () => {
+  const amounts = [BigNumber.from(10), BigNumber.from(20)];
+  const bptAmount = BigNumber.from(30);
+
+  context('weighted pools', () => {
+    it('decodes joins', () => {
+      expect(
+        decodeJoinPoolUserData(WeightedPoolEncoder.joinExactTokensInForBPTOut(amounts, bptAmount), PoolFamily.Weighted)
+      ).to.be.deep.eq({
+        kind: WeightedPoolJoinKind.EXACT_TOKENS_IN_FOR_BPT_OUT,
+        amountsIn: amounts,
+        minimumBPT: bptAmount,
+      });
+
+      expect(
+        decodeJoinPoolUserData(WeightedPoolEncoder.joinTokenInForExactBPTOut(bptAmount, 1), PoolFamily.Weighted)
+      ).to.be.deep.eq({
+        kind: WeightedPoolJoinKind.TOKEN_IN_FOR_EXACT_BPT_OUT,
+        bptAmountOut: bptAmount,
+        enterTokenIndex: 1,
+      });
+    });
+
+    it('decodes exits', () => {
+      expect(
+        decodeExitPoolUserData(WeightedPoolEncoder.exitBPTInForExactTokensOut(amounts, bptAmount), PoolFamily.Weighted)
+      ).to.be.deep.eq({
+        kind: WeightedPoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT,
+        amountsOut: amounts,
+        maxBPTAmountIn: bptAmount,
+      });
+    });
+
+    it('rejects exit kinds that the pool does not support', () => {
+      const userData = ManagedPoolEncoder.exitForRemoveToken(0);
+      expect(() => decodeExitPoolUserData(userData, PoolFamily.Weighted)).to.throw('Unhandled exit kind');
+      expect(decodeExitPoolUserData(userData, PoolFamily.Managed)).to.be.deep.eq({
+        kind: WeightedPoolExitKind.REMOVE_TOKEN,
+        tokenIndex: 0,
+      });
+    });
+  });
+
+  context('stable pools', () => {
+    it('decodes joins', () => {
+      expect(decodeJoinPoolUserData(StablePoolEncoder.joinInit(amounts), PoolFamily.Stable)).to.be.deep.eq({
+        kind: StablePoolJoinKind.INIT,
+        amountsIn: amounts,
+      });
+    });
+
+    it('decodes exits', () => {
+      expect(
+        decodeExitPoolUserData(StablePoolEncoder.exitExactBptInForTokensOut(bptAmount), PoolFamily.Stable)
+      ).to.be.deep.eq({ kind: StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT, bptAmountIn: bptAmount });
+    });
+
+    it('decodes exits from legacy pools', () => {
+      const encoder = new ComposableStablePoolEncoder(StablePoolVersion.Legacy);
+
+      // Legacy pools use kind 1 for proportional exits
+      expect(
+        decodeExitPoolUserData(
+          encoder.exitExactBptInForTokensOut(bptAmount),
+          PoolFamily.Stable,
+          StablePoolVersion.Legacy
+        )
+      ).to.be.deep.eq({ kind: StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT, bptAmountIn: bptAmount });
+
+      // ...and kind 2 for exact tokens out exits
+      expect(
+        decodeExitPoolUserData(
+          encoder.exitBPTInForExactTokensOut(amounts, bptAmount),
+          PoolFamily.Stable,
+          StablePoolVersion.Legacy
+        )
+      ).to.be.deep.eq({
+        kind: StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT,
+        amountsOut: amounts,
+        maxBPTAmountIn: bptAmount,
+      });
+    });
+
+    it('rejects exit kinds that the version does not support', () => {
+      const userData = StablePoolEncoder.exitExactBptInForTokensOut(bptAmount);
+      expect(() => decodeExitPoolUserData(userData, PoolFamily.Stable, StablePoolVersion.ComposableV1)).to.throw(
+        'Unhandled exit kind'
+      );
+    });
+  });
+
+  context('recovery mode exits', () => {
+    it('decodes them for every pool family', () => {
+      const userData = BasePoolEncoder.recoveryModeExit(bptAmount);
+      Object.values(PoolFamily).forEach((family) => {
+        expect(decodeExitPoolUserData(userData, family)).to.be.deep.eq({
+          kind: BasePoolExitKind.RECOVERY_MODE,
+          bptAmountIn: bptAmount,
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { hexConcat } from '@ethersproject/bytes';
+import { expect } from 'chai';
+
+import { BalancerErrors } from '../src';
+
+const encodeRevertData = (reason: string): string =>
+  hexConcat(['0x08c379a0', defaultAbiCoder.encode(['string'], [reason])]);
+
+describe('BalancerErrors', () => {
+  describe('prefixed error codes', () => {
+    before('register custom prefix', () => {
+      BalancerErrors.registerErrorCodes('XYZ', { '123': 'CUSTOM_ERROR' });
+    });
+
+    it('parses Balancer error codes', () => {
+      expect(BalancerErrors.parsePrefixedErrorCode('BAL#508')).to.be.deep.eq({
+        prefix: 'BAL',
+        code: '508',
+        name: 'SWAP_DEADLINE',
+      });
+    });
+
+    it('parses registered prefixes', () => {
+      expect(BalancerErrors.getRegisteredPrefixes()).to.include('XYZ');
+      expect(BalancerErrors.parsePrefixedErrorCode("reverted with reason string 'XYZ#123'")).to.be.deep.eq({
+        prefix: 'XYZ',
+        code: '123',
+        name: 'CUSTOM_ERROR',
+      });
+    });
+
+    it('parses unknown prefixes and codes without a name', () => {
+      expect(BalancerErrors.parsePrefixedErrorCode('ABC#001')).to.be.deep.eq({ prefix: 'ABC', code: '001' });
+      expect(BalancerErrors.parsePrefixedErrorCode('XYZ#999')).to.be.deep.eq({ prefix: 'XYZ', code: '999' });
+    });
+
+    it('rejects strings without error codes', () => {
+      expect(() => BalancerErrors.parsePrefixedErrorCode('SWAP_DEADLINE')).to.throw('Error code not found');
+    });
+
+    it('rejects invalid registrations', () => {
+      expect(() => BalancerErrors.registerErrorCodes('BAL', {})).to.throw('Cannot replace Balancer error codes');
+      expect(() => BalancerErrors.registerErrorCodes('TOOLONG', {})).to.throw('Invalid error prefix');
+      expect(() => BalancerErrors.registerErrorCodes('ABC', { '1': 'ERROR' })).to.throw(
+        'Error codes must have three digits'
+      );
+    });
+  });
+
+  describe('extractRevertReason', () => {
+    it('decodes raw revert data', () => {
+      expect(BalancerErrors.extractRevertReason(encodeRevertData('BAL#401'))).to.be.eq('BAL#401');
+      expect(BalancerErrors.extractRevertReason('0x')).to.be.undefined;
+      expect(BalancerErrors.extractRevertReason('0x4e487b71')).to.be.undefined;
+    });
+
+    it('extracts the reason from call exceptions', () => {
+      const error = { code: 'CALL_EXCEPTION', reason: 'XYZ#123', data: encodeRevertData('XYZ#123') };
+      expect(BalancerErrors.extractRevertReason(error)).to.be.eq('XYZ#123');
+    });
+
+    it('extracts the reason from nested JSON-RPC errors', () => {
+      const error = {
+        code: 'UNPREDICTABLE_GAS_LIMIT',
+        error: {
+          code: -32603,
+          message: 'Internal error',
+          data: { message: 'revert', data: encodeRevertData('BAL#508') },
+        },
+      };
+      expect(BalancerErrors.extractRevertReason(error)).to.be.eq('BAL#508');
+    });
+
+    it('extracts the reason from serialized response bodies', () => {
+      const body = JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        error: { code: 3, message: 'execution reverted: BAL#401', data: encodeRevertData('BAL#401') },
+      });
+      expect(BalancerErrors.extractRevertReason({ error: { error: { body } } })).to.be.eq('BAL#401');
+    });
+
+    it('falls back to error messages', () => {
+      const error = new Error("VM Exception while processing transaction: reverted with reason string 'BAL#102'");
+      expect(BalancerErrors.extractRevertReason(error)).to.be.eq('BAL#102');
+      expect(BalancerErrors.extractRevertReason(new Error('network error'))).to.be.undefined;
+    });
+
+    it('finds revert reasons in plain messages', () => {
+      expect(BalancerErrors.extractRevertReason('execution reverted: BAL#401')).to.be.eq('BAL#401');
+      expect(BalancerErrors.extractRevertReason('network error')).to.be.undefined;
+    });
+  });
+});
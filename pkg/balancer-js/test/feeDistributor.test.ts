@@ -0,0 +1,193 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE, Zero } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import {
+  FeeDistributorCalculator,
+  FeeDistributorState,
+  FeeDistributorTokenState,
+  UnclaimableWeekReason,
+  VotingEscrowCalculator,
+  VotingEscrowPoint,
+  VotingEscrowState,
+} from '../src';
+
+const { WEEK } = VotingEscrowCalculator;
+const DAY = 86400;
+
+describe('FeeDistributorCalculator', () => {
+  // Thursday 1 December 2022, 00:00 UTC, which is the start of a week
+  const START = 1669852800;
+  const TOKEN = '0xba100000625a3754423978a60c9317c58a424e3D';
+
+  // Alice locks a week before the distribution starts, and extends her lock after 40 weeks. Bob's lock is smaller.
+  let escrow: VotingEscrowState = { pointHistory: [], slopeChanges: {} };
+  const noLock = { amount: 0, end: 0 };
+  const aliceLock = VotingEscrowCalculator.createLock(escrow, noLock, ONE.mul(1000), START + 51 * WEEK, START - WEEK);
+  escrow = aliceLock.state;
+  const bobLock = VotingEscrowCalculator.createLock(escrow, noLock, ONE.mul(300), START + 45 * WEEK, START - 3 * DAY);
+  escrow = bobLock.state;
+  const aliceExtension = VotingEscrowCalculator.increaseUnlockTime(
+    escrow,
+    aliceLock.locked,
+    START + 92 * WEEK,
+    START + 40 * WEEK + DAY
+  );
+  escrow = aliceExtension.state;
+  const alicePoints: VotingEscrowPoint[] = [aliceLock.userPoint, aliceExtension.userPoint];
+
+  const weeks = (from: number, to: number): number[] =>
+    Array.from({ length: to - from }, (_, i) => START + (from + i) * WEEK);
+
+  const totalSupplyAtTimestamp = Object.fromEntries(
+    weeks(0, 70).map((week) => [week, VotingEscrowCalculator.getTotalSupplyAt(escrow, week)])
+  );
+
+  const distributor = (timeCursor: number): FeeDistributorState => ({
+    startTime: START,
+    timeCursor,
+    totalSupplyAtTimestamp,
+  });
+
+  // The share of `tokensPerWeek` Alice is entitled to over `claimedWeeks`
+  const expectedAmount = (claimedWeeks: number[], tokensPerWeek: BigNumber): BigNumber =>
+    claimedWeeks.reduce(
+      (total, week) =>
+        total.add(
+          tokensPerWeek
+            .mul(VotingEscrowCalculator.getUserBalanceAt(alicePoints, week))
+            .div(totalSupplyAtTimestamp[week])
+        ),
+      Zero
+    );
+
+  const tokenState = (
+    userTimeCursor: number,
+    timeCursor: number,
+    distributedWeeks: number[],
+    tokensPerWeek: BigNumber,
+    undistributed = Zero
+  ): FeeDistributorTokenState => {
+    const distributed = tokensPerWeek.mul(distributedWeeks.length);
+    return {
+      token: TOKEN,
+      timeCursor,
+      lastBalance: distributed,
+      balance: distributed.add(undistributed),
+      userTimeCursor,
+      tokensDistributedInWeek: Object.fromEntries(distributedWeeks.map((week) => [week, tokensPerWeek])),
+    };
+  };
+
+  it('claims whole weeks before the current one', () => {
+    const now = START + 3 * WEEK + 2 * DAY;
+    const token = tokenState(START, START + 3 * WEEK - 10, weeks(0, 3), ONE.mul(100));
+
+    const [estimate] = FeeDistributorCalculator.estimateClaims(
+      distributor(START + 3 * WEEK),
+      { timeCursor: START + 3 * WEEK, userPointHistory: alicePoints },
+      [token],
+      now
+    );
+
+    const expected = expectedAmount(weeks(0, 3), ONE.mul(100));
+    expect(estimate.amounts).to.be.deep.eq([expected]);
+    expect(estimate.totalAmount).to.be.deep.eq(expected);
+    expect(estimate.firstUnclaimableWeek).to.be.deep.eq(BigNumber.from(START + 3 * WEEK));
+    expect(estimate.unclaimableReason).to.be.eq(UnclaimableWeekReason.WeekNotOver);
+  });
+
+  it('distributes tokens received since the last token checkpoint', () => {
+    // 100 tokens were received since the last checkpoint, 10 seconds before the end of the previous week
+    const now = START + 3 * WEEK + 90;
+    const token = tokenState(START, START + 3 * WEEK - 10, weeks(0, 3), ONE.mul(100), ONE.mul(100));
+
+    const [estimate] = FeeDistributorCalculator.estimateClaims(
+      distributor(START + 3 * WEEK),
+      { timeCursor: START + 3 * WEEK, userPointHistory: alicePoints },
+      [token],
+      now
+    );
+
+    // A tenth of the new tokens is assigned to the previous week
+    const lastWeek = START + 2 * WEEK;
+    const expected = expectedAmount(weeks(0, 2), ONE.mul(100)).add(expectedAmount([lastWeek], ONE.mul(110)));
+    expect(estimate.totalAmount).to.be.deep.eq(expected);
+  });
+
+  it('requires several claims after more than 50 weeks', () => {
+    const now = START + 61 * WEEK + DAY;
+    const token = tokenState(START + WEEK, START + 61 * WEEK - 100, weeks(1, 61), ONE.mul(10));
+
+    const [estimate] = FeeDistributorCalculator.estimateClaims(
+      distributor(START + 62 * WEEK),
+      { timeCursor: START + WEEK, userPointHistory: alicePoints },
+      [token],
+      now
+    );
+
+    // Each claim processes at most 20 weeks
+    expect(estimate.amounts).to.have.lengthOf(3);
+    expect(estimate.amounts[0]).to.be.deep.eq(expectedAmount(weeks(1, 21), ONE.mul(10)));
+    expect(estimate.amounts[2]).to.be.deep.eq(expectedAmount(weeks(41, 61), ONE.mul(10)));
+    expect(estimate.totalAmount).to.be.deep.eq(expectedAmount(weeks(1, 61), ONE.mul(10)));
+    expect(estimate.firstUnclaimableWeek).to.be.deep.eq(BigNumber.from(START + 61 * WEEK));
+  });
+
+  it('starts new users on the week after they lock', () => {
+    const lateLock = VotingEscrowCalculator.createLock(
+      { pointHistory: [], slopeChanges: {} },
+      noLock,
+      ONE.mul(50),
+      START + 30 * WEEK,
+      START + 5 * WEEK + 3 * DAY
+    );
+    const userPointHistory = [lateLock.userPoint];
+    const now = START + 8 * WEEK + DAY;
+    const token = tokenState(START, START + 8 * WEEK - 100, weeks(0, 8), ONE.mul(100));
+
+    const [estimate] = FeeDistributorCalculator.estimateClaims(
+      distributor(START + 9 * WEEK),
+      { timeCursor: 0, userPointHistory },
+      [token],
+      now
+    );
+
+    // The total supply doesn't include the new lock, but it only matters that the user's share is computed correctly
+    const expected = weeks(6, 8).reduce(
+      (total, week) =>
+        total.add(
+          ONE.mul(100)
+            .mul(VotingEscrowCalculator.getUserBalanceAt(userPointHistory, week))
+            .div(totalSupplyAtTimestamp[week])
+        ),
+      Zero
+    );
+    expect(estimate.totalAmount).to.be.deep.eq(expected);
+  });
+
+  it('does not pay users who never locked', () => {
+    const token = tokenState(START, START + 3 * WEEK - 10, weeks(0, 3), ONE.mul(100));
+    const [estimate] = FeeDistributorCalculator.estimateClaims(
+      distributor(START + 3 * WEEK),
+      { timeCursor: 0, userPointHistory: [] },
+      [token],
+      START + 3 * WEEK + DAY
+    );
+
+    expect(estimate.amounts).to.be.deep.eq([Zero]);
+    expect(estimate.unclaimableReason).to.be.eq(UnclaimableWeekReason.NoLock);
+  });
+
+  it('reverts before the distribution starts', () => {
+    const token = tokenState(0, 0, [], Zero);
+    expect(() =>
+      FeeDistributorCalculator.estimateClaims(
+        distributor(START),
+        { timeCursor: 0, userPointHistory: alicePoints },
+        [token],
+        START
+      )
+    ).to.throw('Fee distribution has not started yet');
+  });
+});
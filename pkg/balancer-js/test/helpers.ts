@@ -0,0 +1,5 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE } from '@ethersproject/constants';
+
+// Converts a decimal number into an 18-decimal fixed point value, rounding it to 6 decimals
+export const fp = (x: number): BigNumber => ONE.mul(Math.round(x * 1e6)).div(1e6);
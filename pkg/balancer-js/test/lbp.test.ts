@@ -0,0 +1,174 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import { BalancerErrors, FixedPoint, GradualWeightSchedule, LBPPlanner, WeightedMath } from '../src';
+import { fp } from './helpers';
+
+const expectBalancerError = (fn: () => unknown, error: string): void => {
+  expect(fn).to.throw(BalancerErrors.encodeError(error));
+};
+
+describe('LBPPlanner', () => {
+  const projectToken = '0xba100000625a3754423978a60c9317c58a424e3D';
+  const usdc = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+  const schedule: GradualWeightSchedule = {
+    tokens: [projectToken, usdc],
+    balances: [ONE.mul(1000000), ONE.mul(100000)],
+    startWeights: [fp(0.9), fp(0.1)],
+    endWeights: [fp(0.3), fp(0.7)],
+    startTime: 1000,
+    endTime: 1000 + 3 * 86400,
+    swapFeePercentage: fp(0.01),
+  };
+  const managedSchedule = { ...schedule, compressedWeights: false };
+
+  describe('validate', () => {
+    it('accepts valid schedules', () => {
+      expect(() => LBPPlanner.validate(schedule)).not.to.throw();
+      expect(() => LBPPlanner.validate(schedule, { maxWeightChangePerDay: fp(0.2) })).not.to.throw();
+    });
+
+    it('rejects invalid weights', () => {
+      expectBalancerError(() => LBPPlanner.validate({ ...schedule, endWeights: [fp(0.995), fp(0.005)] }), 'MIN_WEIGHT');
+      expectBalancerError(
+        () => LBPPlanner.validate({ ...schedule, startWeights: [fp(0.9), fp(0.2)] }),
+        'NORMALIZED_WEIGHT_INVARIANT'
+      );
+    });
+
+    it('rejects invalid times, tokens and fees', () => {
+      expectBalancerError(() => LBPPlanner.validate({ ...schedule, endTime: 999 }), 'GRADUAL_UPDATE_TIME_TRAVEL');
+      expectBalancerError(() => LBPPlanner.validate({ ...schedule, balances: [ONE] }), 'INPUT_LENGTH_MISMATCH');
+      expectBalancerError(
+        () => LBPPlanner.validate({ ...schedule, swapFeePercentage: fp(0.2) }),
+        'MAX_SWAP_FEE_PERCENTAGE'
+      );
+      // Managed Pools have higher swap fee limits
+      expect(() => LBPPlanner.validate({ ...managedSchedule, swapFeePercentage: fp(0.2) })).not.to.throw();
+      expectBalancerError(
+        () => LBPPlanner.validate({ ...managedSchedule, swapFeePercentage: fp(0.96) }),
+        'MAX_SWAP_FEE_PERCENTAGE'
+      );
+      expectBalancerError(
+        () => LBPPlanner.validate({ ...managedSchedule, swapFeePercentage: 1e11 }),
+        'MIN_SWAP_FEE_PERCENTAGE'
+      );
+    });
+
+    it('rejects weight changes faster than the maximum rate', () => {
+      expectBalancerError(
+        () => LBPPlanner.validate(schedule, { maxWeightChangePerDay: fp(0.19) }),
+        'WEIGHT_CHANGE_TOO_FAST'
+      );
+      expectBalancerError(
+        () => LBPPlanner.validate({ ...schedule, endTime: 1000 }, { maxWeightChangePerDay: fp(1) }),
+        'WEIGHT_CHANGE_TOO_FAST'
+      );
+    });
+  });
+
+  describe('getNormalizedWeights', () => {
+    it('interpolates weights as GradualValueChange', () => {
+      expect(LBPPlanner.getWeightChangeProgress(100, 400, 50)).to.be.deep.eq(BigNumber.from(0));
+      expect(LBPPlanner.getWeightChangeProgress(100, 400, 200)).to.be.deep.eq(BigNumber.from('333333333333333333'));
+      expect(LBPPlanner.getWeightChangeProgress(100, 400, 500)).to.be.deep.eq(ONE);
+
+      // The delta rounds down, regardless of the direction of the change
+      expect(LBPPlanner.interpolateValue(fp(0.9), fp(0.3), '333333333333333333')).to.be.deep.eq(
+        BigNumber.from('700000000000000001')
+      );
+      expect(LBPPlanner.interpolateValue(fp(0.1), fp(0.7), '333333333333333333')).to.be.deep.eq(
+        BigNumber.from('299999999999999999')
+      );
+    });
+
+    it('returns exact weights for Managed Pools', () => {
+      expect(LBPPlanner.getNormalizedWeights(managedSchedule, 0)).to.be.deep.eq([fp(0.9), fp(0.1)]);
+      expect(LBPPlanner.getNormalizedWeights(managedSchedule, 1000 + 1.5 * 86400)).to.be.deep.eq([fp(0.6), fp(0.4)]);
+      expect(LBPPlanner.getNormalizedWeights(managedSchedule, 1e10)).to.be.deep.eq([fp(0.3), fp(0.7)]);
+    });
+
+    it('accounts for weight compression in Liquidity Bootstrapping Pools', () => {
+      // 0.3 is stored in 16 bits as floor(0.3 * (2^16 - 1)) = 19660
+      const compressedEndWeight = ONE.mul(19660).div(65535);
+      const [endWeight] = LBPPlanner.getNormalizedWeights(schedule, 1e10);
+      expect(endWeight).to.be.deep.eq(compressedEndWeight);
+
+      const [startWeight] = LBPPlanner.getNormalizedWeights(schedule, 0);
+      expect(startWeight.lte(fp(0.9))).to.be.true;
+      expect(
+        fp(0.9)
+          .sub(startWeight)
+          .lte(ONE.div(2 ** 31 - 1))
+      ).to.be.true;
+    });
+  });
+
+  describe('getSpotPrice', () => {
+    it('computes the price of the bought token including fees', () => {
+      // (100k / 0.4) / (1M / 0.6) / 0.99
+      const price = LBPPlanner.getSpotPrice(managedSchedule, usdc, projectToken, 1000 + 1.5 * 86400);
+      expect(Number(price.toString()) / 1e18).to.be.closeTo(0.15 / 0.99, 1e-12);
+    });
+
+    it('rejects unknown tokens', () => {
+      expectBalancerError(
+        () => LBPPlanner.getSpotPrice(schedule, usdc, '0x6B175474E89094C44Da98b954EedeAC495271d0F', 0),
+        'INVALID_TOKEN'
+      );
+    });
+  });
+
+  describe('simulate', () => {
+    const buys = LBPPlanner.buildBuyStream(schedule.startTime, schedule.endTime, 3600, ONE.mul(500));
+
+    it('builds buy streams', () => {
+      expect(buys).to.have.length(73);
+      expect(buys[72].timestamp).to.be.deep.eq(BigNumber.from(schedule.endTime));
+    });
+
+    it('executes buys as the Pool would', () => {
+      const [first] = LBPPlanner.simulate(schedule, usdc, projectToken, buys);
+      const weights = LBPPlanner.getNormalizedWeights(schedule, schedule.startTime);
+      const amountOut = WeightedMath.calcOutGivenIn(
+        schedule.balances[1],
+        weights[1],
+        schedule.balances[0],
+        weights[0],
+        FixedPoint.mulDown(ONE.mul(500), fp(0.99))
+      );
+
+      expect(first.amountOut).to.be.deep.eq(amountOut);
+      expect(first.balances).to.be.deep.eq([
+        BigNumber.from(schedule.balances[0]).sub(amountOut),
+        BigNumber.from(schedule.balances[1]).add(ONE.mul(500)),
+      ]);
+      expect(first.spotPriceAfter.gt(first.spotPriceBefore)).to.be.true;
+    });
+
+    it('tracks the price path across the sale', () => {
+      const path = LBPPlanner.simulate(schedule, usdc, projectToken, buys);
+      const last = path[path.length - 1];
+
+      expect(path).to.have.length(buys.length);
+      expect(last.normalizedWeights).to.be.deep.eq(LBPPlanner.getNormalizedWeights(schedule, schedule.endTime));
+      // Weights shifting towards the collateral token push the price down despite the buys
+      expect(last.spotPriceAfter.lt(path[0].spotPriceBefore)).to.be.true;
+    });
+
+    it('rejects unsorted buys', () => {
+      expect(() => LBPPlanner.simulate(schedule, usdc, projectToken, [...buys].reverse())).to.throw(
+        'Buys must be sorted by timestamp'
+      );
+    });
+
+    it('rejects buys above the maximum in ratio', () => {
+      expectBalancerError(
+        () => LBPPlanner.simulate(schedule, usdc, projectToken, [{ timestamp: 0, amountIn: ONE.mul(50000) }]),
+        'MAX_IN_RATIO'
+      );
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import { BalancerErrors, LinearMath, LinearPoolQuoter, ScalingHelpers } from '../src';
+import { fp } from './helpers';
+
+const expectEqualWithError = (actual: BigNumber, expected: BigNumber, maxAbsoluteError = 2): void => {
+  expect(actual.sub(expected).abs().lte(maxAbsoluteError), `${actual} != ${expected}`).to.be.true;
+};
+
+describe('LinearMath', () => {
+  const params = { fee: fp(0.01), lowerTarget: fp(100), upperTarget: fp(200) };
+
+  it('initializes the BPT supply to the nominal main balance', () => {
+    const initParams = { ...params, lowerTarget: 0 };
+    expect(LinearMath.calcBptOutPerMainIn(fp(5), 0, 0, 0, initParams)).to.be.deep.eq(fp(5));
+    expect(LinearMath.calcBptOutPerMainIn(fp(400), 0, 0, 0, initParams)).to.be.deep.eq(fp(398));
+  });
+
+  it('converts between nominal and real balances', () => {
+    expect(LinearMath.toNominal(fp(150), params)).to.be.deep.eq(fp(150));
+    expect(LinearMath.toNominal(fp(50), params)).to.be.deep.eq(fp(49.5));
+    expect(LinearMath.toNominal(fp(300), params)).to.be.deep.eq(fp(299));
+
+    expect(LinearMath.fromNominal(fp(49.5), params)).to.be.deep.eq(fp(50));
+    expect(LinearMath.fromNominal(fp(299), params)).to.be.deep.eq(fp(300));
+  });
+
+  context('with main below lower target', () => {
+    const mainBalance = fp(35);
+    const wrappedBalance = fp(15.15);
+    const bptSupply = fp(49.5);
+
+    it('rewards moving the main balance towards the targets', () => {
+      const bptOut = LinearMath.calcBptOutPerMainIn(fp(100), mainBalance, wrappedBalance, bptSupply, params);
+      expectEqualWithError(bptOut, fp(100.65));
+      expectEqualWithError(LinearMath.calcWrappedOutPerMainIn(fp(10), mainBalance, params), fp(10.1));
+    });
+
+    it('charges fees for moving the main balance away from the targets', () => {
+      const bptIn = LinearMath.calcBptInPerMainOut(fp(10), mainBalance, wrappedBalance, bptSupply, params);
+      expectEqualWithError(bptIn, fp(10.1));
+      expectEqualWithError(LinearMath.calcWrappedInPerMainOut(fp(10), mainBalance, params), fp(10.1));
+    });
+
+    it('inverts given in and given out calculations', () => {
+      const mainIn = LinearMath.calcMainInPerBptOut(fp(100.65), mainBalance, wrappedBalance, bptSupply, params);
+      const mainOut = LinearMath.calcMainOutPerBptIn(fp(10.1), mainBalance, wrappedBalance, bptSupply, params);
+
+      expectEqualWithError(mainIn, fp(100));
+      expectEqualWithError(mainOut, fp(10));
+    });
+
+    it('reverts when exiting more than the main balance', () => {
+      expect(() => LinearMath.calcWrappedInPerMainOut(fp(36), mainBalance, params)).to.throw(
+        BalancerErrors.encodeError('SUB_OVERFLOW')
+      );
+    });
+  });
+
+  it('computes proportional exits excluding the BPT', () => {
+    const amountsOut = LinearMath.calcTokensOutGivenExactBptIn([fp(1e6), fp(100), fp(50)], fp(10), fp(100), 0);
+    expect(amountsOut).to.be.deep.eq([BigNumber.from(0), fp(10), fp(5)]);
+  });
+});
+
+describe('LinearPoolQuoter', () => {
+  // The main token has 6 decimals, and each wrapped token is worth 1.5 main tokens
+  const pool = {
+    balances: [fp(1e6), BigNumber.from(150e6), fp(100)],
+    bptIndex: 0,
+    mainIndex: 1,
+    wrappedIndex: 2,
+    mainScalingFactor: ScalingHelpers.computeScalingFactor(6),
+    wrappedScalingFactor: ScalingHelpers.computeScalingFactor(18),
+    wrappedTokenRate: fp(1.5),
+    lowerTarget: fp(100),
+    upperTarget: fp(200),
+    swapFeePercentage: fp(0.01),
+    virtualSupply: fp(300),
+  };
+
+  it('applies the wrapped token rate to scaling factors', () => {
+    expect(LinearPoolQuoter.getScalingFactors(pool)).to.be.deep.eq([ONE, ONE.mul(1e12), fp(1.5)]);
+  });
+
+  it('computes the BPT rate', () => {
+    expect(LinearPoolQuoter.getRate(pool)).to.be.deep.eq(ONE);
+  });
+
+  it('quotes swaps between main and wrapped tokens', () => {
+    // Main balance stays within targets, so no fees are charged
+    expect(LinearPoolQuoter.swapGivenIn(pool, 1, 2, 15e6)).to.be.deep.eq(fp(10));
+    expect(LinearPoolQuoter.swapGivenOut(pool, 1, 2, fp(10))).to.be.deep.eq(BigNumber.from(15e6));
+  });
+
+  it('quotes joins and exits', () => {
+    expect(LinearPoolQuoter.swapGivenIn(pool, 2, 0, fp(10))).to.be.deep.eq(fp(15));
+    expect(LinearPoolQuoter.swapGivenOut(pool, 0, 1, 10e6)).to.be.deep.eq(fp(10));
+  });
+
+  it('charges fees when leaving the targets', () => {
+    // Taking out 100 main tokens moves the balance 50 units below the lower target
+    const bptIn = LinearPoolQuoter.swapGivenOut(pool, 0, 1, 100e6);
+    expect(bptIn).to.be.deep.eq(fp(100.5));
+  });
+});
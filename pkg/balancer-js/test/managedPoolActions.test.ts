@@ -0,0 +1,152 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { AddressZero } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import { BalancerErrors, ManagedPoolActions, ManagedPoolState } from '../src';
+import { fp } from './helpers';
+
+const expectError = (build: () => string, error: string): void => {
+  expect(build).to.throw(BalancerErrors.encodeError(error));
+  expect(ManagedPoolActions.tryBuild(build)).to.be.deep.eq({ error });
+};
+
+describe('ManagedPoolActions', () => {
+  const tokens = [
+    '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+    '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  ];
+  const newToken = '0xba100000625a3754423978a60c9317c58a424e3D';
+
+  const pool: ManagedPoolState = {
+    address: '0x1111111111111111111111111111111111111111',
+    tokens,
+    normalizedWeights: [fp(0.5), fp(0.3), fp(0.2)],
+    weightChangeStartTime: 100,
+    weightChangeEndTime: 200,
+    actualSupply: fp(1000),
+  };
+
+  describe('updateWeightsGradually', () => {
+    it('encodes valid weight changes', () => {
+      const result = ManagedPoolActions.tryBuild(() =>
+        ManagedPoolActions.updateWeightsGradually(pool, 300, 400, tokens, [fp(0.4), fp(0.4), fp(0.2)], 250)
+      );
+      expect(result)
+        .to.have.property('data')
+        .that.satisfies((data: string) => data.startsWith('0x'));
+    });
+
+    it('rejects invalid weights', () => {
+      expectError(
+        () => ManagedPoolActions.updateWeightsGradually(pool, 300, 400, tokens, [fp(0.995), fp(0.004), fp(0.001)], 0),
+        'MIN_WEIGHT'
+      );
+      expectError(
+        () => ManagedPoolActions.updateWeightsGradually(pool, 300, 400, tokens, [fp(0.4), fp(0.4), fp(0.1)], 0),
+        'NORMALIZED_WEIGHT_INVARIANT'
+      );
+    });
+
+    it('rejects mismatched tokens', () => {
+      const weights = [fp(0.4), fp(0.4), fp(0.2)];
+      expectError(
+        () => ManagedPoolActions.updateWeightsGradually(pool, 300, 400, [...tokens].reverse(), weights, 0),
+        'TOKENS_MISMATCH'
+      );
+      expectError(
+        () => ManagedPoolActions.updateWeightsGradually(pool, 300, 400, tokens.slice(1), weights, 0),
+        'INPUT_LENGTH_MISMATCH'
+      );
+    });
+
+    it('fast-forwards start times in the past', () => {
+      const weights = [fp(0.4), fp(0.4), fp(0.2)];
+      expect(() => ManagedPoolActions.updateWeightsGradually(pool, 0, 400, tokens, weights, 400)).not.to.throw();
+      expectError(
+        () => ManagedPoolActions.updateWeightsGradually(pool, 0, 400, tokens, weights, 401),
+        'GRADUAL_UPDATE_TIME_TRAVEL'
+      );
+    });
+  });
+
+  it('validates swap fee changes', () => {
+    expect(() => ManagedPoolActions.updateSwapFeeGradually(0, 100, fp(0.01), fp(0.95), 0)).not.to.throw();
+    expectError(
+      () => ManagedPoolActions.updateSwapFeeGradually(0, 100, fp(0.01), fp(0.96), 0),
+      'MAX_SWAP_FEE_PERCENTAGE'
+    );
+    expectError(() => ManagedPoolActions.updateSwapFeeGradually(0, 100, 0, fp(0.01), 0), 'MIN_SWAP_FEE_PERCENTAGE');
+  });
+
+  describe('addToken', () => {
+    const addToken =
+      (weight: BigNumber, timestamp = 200, state = pool) =>
+      () =>
+        ManagedPoolActions.addToken(state, newToken, AddressZero, weight, 0, AddressZero, timestamp);
+
+    it('encodes valid token additions', () => {
+      expect(addToken(fp(0.2))).not.to.throw();
+    });
+
+    it('rejects additions during or before weight changes', () => {
+      expectError(addToken(fp(0.2), 99), 'CHANGE_TOKENS_PENDING_WEIGHT_CHANGE');
+      expectError(addToken(fp(0.2), 150), 'CHANGE_TOKENS_DURING_WEIGHT_CHANGE');
+    });
+
+    it('rejects weights pushing other tokens below the minimum', () => {
+      // The 20% token would end up with a weight of 0.2 * 0.96 = 0.008
+      expectError(addToken(fp(0.96)), 'MIN_WEIGHT');
+    });
+
+    it('rejects invalid tokens', () => {
+      expectError(
+        () => ManagedPoolActions.addToken(pool, tokens[0], AddressZero, fp(0.1), 0, AddressZero, 200),
+        'TOKEN_ALREADY_REGISTERED'
+      );
+      expectError(
+        () => ManagedPoolActions.addToken(pool, pool.address, AddressZero, fp(0.1), 0, AddressZero, 200),
+        'ADD_OR_REMOVE_BPT'
+      );
+      expectError(addToken(fp(0.1), 200, { ...pool, actualSupply: 0 }), 'UNINITIALIZED');
+    });
+  });
+
+  describe('removeToken', () => {
+    it('encodes valid token removals', () => {
+      expect(() => ManagedPoolActions.removeToken(pool, tokens[0], fp(1), pool.address, 200)).not.to.throw();
+    });
+
+    it('rejects removals leaving less than two tokens', () => {
+      const twoTokenPool = { ...pool, tokens: tokens.slice(0, 2), normalizedWeights: [fp(0.5), fp(0.5)] };
+      expectError(() => ManagedPoolActions.removeToken(twoTokenPool, tokens[0], 0, AddressZero, 200), 'MIN_TOKENS');
+    });
+
+    it('rejects unknown tokens and burning from the zero address', () => {
+      expectError(() => ManagedPoolActions.removeToken(pool, newToken, 0, AddressZero, 200), 'TOKEN_NOT_REGISTERED');
+      expectError(() => ManagedPoolActions.removeToken(pool, tokens[1], fp(1), AddressZero, 200), 'BURN_FROM_ZERO');
+    });
+  });
+
+  it('validates circuit breaker bounds', () => {
+    const setCircuitBreaker = (token: string, lower: BigNumber, upper: BigNumber) => () =>
+      ManagedPoolActions.setCircuitBreakers(pool, [token], [fp(1)], [lower], [upper]);
+
+    expect(setCircuitBreaker(tokens[0], fp(0.5), fp(2))).not.to.throw();
+    expect(setCircuitBreaker(tokens[0], fp(0.5), BigNumber.from(0))).not.to.throw();
+    expectError(setCircuitBreaker(tokens[0], fp(0.5), fp(0.4)), 'INVALID_CIRCUIT_BREAKER_BOUNDS');
+    expectError(setCircuitBreaker(tokens[0], fp(0.05), fp(2)), 'INVALID_CIRCUIT_BREAKER_BOUNDS');
+    expectError(setCircuitBreaker(tokens[0], fp(0.5), fp(11)), 'INVALID_CIRCUIT_BREAKER_BOUNDS');
+    expectError(setCircuitBreaker(pool.address, fp(0.5), fp(2)), 'INVALID_TOKEN');
+  });
+
+  it('validates the AUM fee', () => {
+    expect(() => ManagedPoolActions.setManagementAumFeePercentage(fp(0.95))).not.to.throw();
+    expectError(() => ManagedPoolActions.setManagementAumFeePercentage(fp(0.96)), 'MAX_MANAGEMENT_AUM_FEE_PERCENTAGE');
+  });
+
+  it('validates allowlist changes', () => {
+    expectError(() => ManagedPoolActions.addAllowedAddress(newToken, true), 'ADDRESS_ALREADY_ALLOWLISTED');
+    expectError(() => ManagedPoolActions.removeAllowedAddress(newToken, false), 'ADDRESS_NOT_ALLOWLISTED');
+  });
+});
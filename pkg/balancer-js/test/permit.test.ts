@@ -0,0 +1,149 @@
+import { Signer, TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { BigNumber } from '@ethersproject/bignumber';
+import { hexZeroPad, joinSignature } from '@ethersproject/bytes';
+import { MaxUint256 } from '@ethersproject/constants';
+import { Contract } from '@ethersproject/contracts';
+import { id, _TypedDataEncoder } from '@ethersproject/hash';
+import { SigningKey } from '@ethersproject/signing-key';
+import { computeAddress } from '@ethersproject/transactions';
+import { expect } from 'chai';
+
+import {
+  buildDAIPermitTypedData,
+  buildPermitTypedData,
+  detectPermitFlavour,
+  PermitFlavour,
+  signPermit,
+  signVaultPermit,
+} from '../src';
+
+const signingKey = new SigningKey(`0x${'22'.repeat(32)}`);
+const ownerAddress = computeAddress(signingKey.publicKey);
+
+// Minimal signer, so that permits can be created without a provider
+const owner = {
+  getAddress: async () => ownerAddress,
+  _signTypedData: async (
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ) => joinSignature(signingKey.signDigest(_TypedDataEncoder.hash(domain, types, value))),
+} as unknown as Signer & TypedDataSigner;
+
+const spender = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+const amount = BigNumber.from(100);
+const deadline = BigNumber.from(1000);
+const nonce = BigNumber.from(7);
+
+describe('permit', () => {
+  const token = {
+    address: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+    provider: { getNetwork: async () => ({ chainId: 1 }) },
+    name: async () => 'Token',
+    nonces: async () => nonce,
+  } as unknown as Contract;
+
+  it('builds permits offline', async () => {
+    const { domain, digest } = buildPermitTypedData({
+      chainId: 1,
+      verifyingContract: token.address,
+      name: 'Token',
+      owner: ownerAddress,
+      spender,
+      amount,
+      nonce,
+      deadline,
+    });
+    const { v, r, s } = await signPermit(token, owner, spender, amount, deadline);
+
+    expect(domain).to.be.deep.eq({ name: 'Token', version: '1', chainId: 1, verifyingContract: token.address });
+    expect(joinSignature(signingKey.signDigest(digest))).to.be.eq(joinSignature({ v, r, s }));
+  });
+
+  it('uses domain overrides instead of querying the token', async () => {
+    const salt = hexZeroPad('0x89', 32);
+    const { domain, digest } = buildPermitTypedData({
+      chainId: 1,
+      verifyingContract: token.address,
+      name: 'Other',
+      version: '2',
+      salt,
+      owner: ownerAddress,
+      spender,
+      amount,
+      nonce,
+      deadline,
+    });
+    const { v, r, s } = await signPermit(token, owner, spender, amount, deadline, undefined, {
+      name: 'Other',
+      version: '2',
+      salt,
+    });
+
+    expect(domain.salt).to.be.eq(salt);
+    expect(joinSignature(signingKey.signDigest(digest))).to.be.eq(joinSignature({ v, r, s }));
+  });
+
+  describe('permit flavours', () => {
+    const withProvider = (call: () => Promise<string>, getCode: () => Promise<string>): Contract =>
+      ({ ...token, provider: { ...token.provider, call, getCode } } as unknown as Contract);
+    const revert = async (): Promise<string> => {
+      throw new Error('execution reverted');
+    };
+
+    it('detects the flavour from the permit type hash', async () => {
+      const daiTypeHash = id('Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)');
+      expect(
+        await detectPermitFlavour(
+          withProvider(
+            async () => daiTypeHash,
+            async () => '0x'
+          )
+        )
+      ).to.be.eq(PermitFlavour.DAI);
+    });
+
+    it('detects the flavour from the bytecode', async () => {
+      // PUSH4 of the EIP-2612 `permit` selector
+      const code = '0x608060405263d505accf14610';
+      expect(await detectPermitFlavour(withProvider(revert, async () => code))).to.be.eq(PermitFlavour.EIP2612);
+      expect(await detectPermitFlavour(withProvider(revert, async () => '0x6080'))).to.be.undefined;
+    });
+
+    it('signs DAI-style vault permits', async () => {
+      const vaultPermit = await signVaultPermit(token, owner, spender, amount, {
+        flavour: PermitFlavour.DAI,
+        deadline,
+      });
+      const { digest } = buildDAIPermitTypedData({
+        chainId: 1,
+        verifyingContract: token.address,
+        name: 'Token',
+        holder: ownerAddress,
+        spender,
+        nonce,
+        expiry: deadline,
+      });
+
+      expect(vaultPermit.flavour).to.be.eq(PermitFlavour.DAI);
+      if (vaultPermit.flavour !== PermitFlavour.DAI) return;
+
+      const { v, r, s, ...params } = vaultPermit.params;
+      expect(params).to.be.deep.eq({
+        token: token.address,
+        holder: ownerAddress,
+        nonce,
+        expiry: deadline,
+        allowed: true,
+      });
+      expect(joinSignature(signingKey.signDigest(digest))).to.be.eq(joinSignature({ v: Number(v), r, s }));
+    });
+
+    it('signs EIP-2612 vault permits', async () => {
+      const vaultPermit = await signVaultPermit(token, owner, spender, MaxUint256, { flavour: PermitFlavour.EIP2612 });
+
+      expect(vaultPermit.flavour).to.be.eq(PermitFlavour.EIP2612);
+      expect(vaultPermit.params).to.include({ token: token.address, owner: ownerAddress, value: MaxUint256 });
+    });
+  });
+});
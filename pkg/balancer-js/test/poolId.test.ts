@@ -0,0 +1,54 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { hexConcat, hexZeroPad } from '@ethersproject/bytes';
+import { AddressZero, HashZero } from '@ethersproject/constants';
+import { keccak256 } from '@ethersproject/keccak256';
+import { expect } from 'chai';
+
+import { buildPoolId, PoolSpecialization, predictPoolAddress, splitPoolId } from '../src';
+
+describe('poolId', () => {
+  const poolId = '0x5c6ee304399dbdb9c8ef030ab642b10820db8f56000200000000000000000014';
+
+  it('builds pool IDs', () => {
+    const id = buildPoolId('0x5c6Ee304399DBdB9C8Ef030aB642B10820DB8F56', PoolSpecialization.TwoTokenPool, 20);
+    expect(id).to.be.eq(poolId);
+  });
+
+  it('inverts splitPoolId', () => {
+    const { address, specialization, nonce } = splitPoolId(poolId);
+    expect(buildPoolId(address, specialization, nonce)).to.be.eq(poolId);
+  });
+
+  it('rejects invalid components', () => {
+    expect(() => buildPoolId(AddressZero, 3 as PoolSpecialization, 0)).to.throw('Invalid pool specialization');
+    expect(() => buildPoolId(AddressZero, PoolSpecialization.GeneralPool, BigNumber.from(2).pow(80))).to.throw(
+      'Invalid pool nonce'
+    );
+  });
+});
+
+describe('predictPoolAddress', () => {
+  // First example from EIP-1014
+  const expectedAddress = '0x4D1A2e2bB4F88F0250f26Ffff098B0b30B26BF38';
+
+  it('predicts CREATE2 addresses', () => {
+    expect(predictPoolAddress(AddressZero, { creationCode: '0x00', constructorArgs: '0x' }, HashZero)).to.be.eq(
+      expectedAddress
+    );
+    expect(predictPoolAddress(AddressZero, { initCodeHash: keccak256('0x00') }, HashZero)).to.be.eq(expectedAddress);
+  });
+
+  it('accepts split creation code', () => {
+    const factory = '0x8E9aa87E45e92bad84D5F8DD1bff34Fb92637dE9';
+    const salt = hexZeroPad('0x01', 32);
+    const constructorArgs = hexZeroPad('0x02', 32);
+    const full = predictPoolAddress(factory, { creationCode: '0x60806040aabbcc', constructorArgs }, salt);
+
+    expect(predictPoolAddress(factory, { creationCode: ['0x608060', '0x40aabbcc'], constructorArgs }, salt)).to.be.eq(
+      full
+    );
+    expect(
+      predictPoolAddress(factory, { initCodeHash: keccak256(hexConcat(['0x60806040aabbcc', constructorArgs])) }, salt)
+    ).to.be.eq(full);
+  });
+});
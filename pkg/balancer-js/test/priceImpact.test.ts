@@ -0,0 +1,249 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import {
+  BalancerErrors,
+  BatchSwapStep,
+  ComposableStablePoolState,
+  FixedPoint,
+  PricedPool,
+  PricedPoolType,
+  PriceImpactCalculator,
+  ScalingHelpers,
+  StableMath,
+  SwapKind,
+  WeightedPoolQuoter,
+} from '../src';
+import { fp } from './helpers';
+
+const expectBalancerError = (fn: () => unknown, error: string): void => {
+  expect(fn).to.throw(BalancerErrors.encodeError(error));
+};
+
+describe('PriceImpactCalculator', () => {
+  const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+  const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+  const BPT = '0x1111111111111111111111111111111111111111';
+  const WRAPPED = '0x2222222222222222222222222222222222222222';
+
+  // 1000 USDC and 5 WETH, at a price of 800 USDC per WETH
+  const weighted: PricedPool = {
+    type: PricedPoolType.Weighted,
+    tokens: [USDC, WETH],
+    state: {
+      balances: [BigNumber.from(1000e6), fp(5)],
+      normalizedWeights: [fp(0.8), fp(0.2)],
+      scalingFactors: [ScalingHelpers.computeScalingFactor(6), ScalingHelpers.computeScalingFactor(18)],
+      swapFeePercentage: fp(0.003),
+    },
+  };
+
+  const stable: PricedPool = {
+    type: PricedPoolType.ComposableStable,
+    tokens: [DAI, BPT, USDC],
+    state: {
+      amplificationParameter: 200 * StableMath.AMP_PRECISION,
+      balances: [fp(1000), fp(1e6), BigNumber.from(3000e6)],
+      scalingFactors: [ONE, ONE, ScalingHelpers.computeScalingFactor(6)],
+      bptIndex: 1,
+      swapFeePercentage: fp(0.001),
+    },
+  };
+
+  // Each wrapped token is worth 1.5 main tokens
+  const linear: PricedPool = {
+    type: PricedPoolType.Linear,
+    tokens: [BPT, USDC, WRAPPED],
+    state: {
+      balances: [fp(1e6), BigNumber.from(150e6), fp(100)],
+      bptIndex: 0,
+      mainIndex: 1,
+      wrappedIndex: 2,
+      mainScalingFactor: ScalingHelpers.computeScalingFactor(6),
+      wrappedScalingFactor: ScalingHelpers.computeScalingFactor(18),
+      wrappedTokenRate: fp(1.5),
+      lowerTarget: fp(100),
+      upperTarget: fp(200),
+      swapFeePercentage: fp(0.01),
+      virtualSupply: fp(300),
+    },
+  };
+
+  describe('getSpotPrice', () => {
+    it('computes weighted spot prices in raw token amounts, including fees', () => {
+      // (1000 / 0.8) / (5 / 0.2) / 0.997 USDC per WETH, with USDC having 12 decimals less
+      const price = PriceImpactCalculator.getSpotPrice(weighted, 0, 1);
+      expect(Number(price.toString()) / 1e6).to.be.closeTo(50 / 0.997, 1e-6);
+    });
+
+    it('matches the effective price of small swaps', () => {
+      const cases: [PricedPool, number, number, BigNumber][] = [
+        [weighted, 0, 1, BigNumber.from(1000)],
+        [stable, 0, 2, fp(1)],
+        [stable, 2, 0, BigNumber.from(1000)],
+        [linear, 1, 2, BigNumber.from(1000)],
+        [linear, 0, 1, fp(0.001)],
+        [linear, 2, 0, fp(0.001)],
+      ];
+
+      for (const [pool, indexIn, indexOut, amount] of cases) {
+        const spotPrice = PriceImpactCalculator.getSpotPrice(pool, indexIn, indexOut);
+        const effectivePrice = PriceImpactCalculator.getEffectivePrice(
+          pool,
+          SwapKind.GivenIn,
+          indexIn,
+          indexOut,
+          amount
+        );
+        const relativeError = Number(effectivePrice.sub(spotPrice).toString()) / Number(spotPrice.toString());
+        expect(relativeError).to.be.gte(0);
+        expect(relativeError).to.be.lt(1e-4);
+      }
+    });
+
+    it('accounts for linear pool fees outside of the targets', () => {
+      // The main balance is at the upper target after this swap, so further main deposits get less nominal value
+      const state = { ...linear.state, balances: [fp(1e6), BigNumber.from(200e6), fp(100)] };
+      const price = PriceImpactCalculator.getSpotPrice({ ...linear, state }, 1, 2);
+      expect(price).to.be.deep.eq(BigNumber.from(1.5e6).mul(ONE).div(fp(0.99)).add(1));
+    });
+  });
+
+  describe('getSwapPriceImpact', () => {
+    it('computes the price impact of given in swaps', () => {
+      const result = PriceImpactCalculator.getSwapPriceImpact(weighted, SwapKind.GivenIn, 0, 1, 1e6);
+      expect(result.amountOut).to.be.deep.eq(WeightedPoolQuoter.swapGivenIn(weighted.state, 0, 1, 1e6));
+      // Swapping 0.1% of the balance in with a weight ratio of 4 has an impact of about 0.1% * (1 + 4) / 2
+      expect(result.priceImpactBps).to.be.closeTo(25, 0.1);
+      expect(result.effectivePrice.gt(result.spotPrice)).to.be.true;
+    });
+
+    it('computes the price impact of given out swaps', () => {
+      const givenIn = PriceImpactCalculator.getSwapPriceImpact(stable, SwapKind.GivenIn, 0, 2, fp(500));
+      const givenOut = PriceImpactCalculator.getSwapPriceImpact(stable, SwapKind.GivenOut, 0, 2, givenIn.amountOut);
+
+      expect(givenOut.amountIn.sub(fp(500)).abs().lte(fp(1e-6))).to.be.true;
+      expect(givenOut.priceImpactBps).to.be.closeTo(givenIn.priceImpactBps, 1e-3);
+      expect(givenIn.priceImpactBps).to.be.gt(1);
+    });
+
+    it('computes extreme price impacts', () => {
+      // Draining almost all DAI from a Pool with the minimum amplification costs millions of times its spot price
+      const state = { ...stable.state, amplificationParameter: StableMath.AMP_PRECISION } as ComposableStablePoolState;
+      const result = PriceImpactCalculator.getSwapPriceImpact(
+        { ...stable, state },
+        SwapKind.GivenOut,
+        2,
+        0,
+        fp(1000).sub(1e6)
+      );
+      expect(result.priceImpact.gt(ONE.mul(1e6))).to.be.true;
+      expect(result.priceImpactBps).to.be.gt(1e10);
+    });
+
+    it('rejects swaps too small to be priced', () => {
+      // A single wei of WETH is worth much less than the smallest USDC amount
+      expect(WeightedPoolQuoter.swapGivenIn(weighted.state, 1, 0, 1).isZero()).to.be.true;
+      expect(() => PriceImpactCalculator.getSwapPriceImpact(weighted, SwapKind.GivenIn, 1, 0, 1)).to.throw(
+        'Swap is too small to be priced'
+      );
+    });
+
+    it('has no impact on linear swaps within the targets', () => {
+      const result = PriceImpactCalculator.getSwapPriceImpact(linear, SwapKind.GivenIn, 2, 0, fp(10));
+      expect(result.priceImpact.isZero()).to.be.true;
+    });
+  });
+
+  describe('getBatchSwapPriceImpact', () => {
+    const pools = { '0xaa': weighted, '0xbb': stable };
+    const assets = [DAI, USDC, WETH];
+
+    it('matches single swaps', () => {
+      const swaps: BatchSwapStep[] = [
+        { poolId: '0xAA', assetInIndex: 1, assetOutIndex: 2, amount: 1e6, userData: '0x' },
+      ];
+      const batch = PriceImpactCalculator.getBatchSwapPriceImpact(SwapKind.GivenIn, swaps, assets, pools);
+      const single = PriceImpactCalculator.getSwapPriceImpact(weighted, SwapKind.GivenIn, 0, 1, 1e6);
+
+      expect(batch).to.deep.include(single);
+      expect(batch.deltas).to.be.deep.eq([BigNumber.from(0), BigNumber.from(1e6), single.amountOut.mul(-1)]);
+      expect(batch.assetInIndex).to.be.eq(1);
+      expect(batch.assetOutIndex).to.be.eq(2);
+    });
+
+    it('chains multihop swaps', () => {
+      const swaps: BatchSwapStep[] = [
+        { poolId: '0xbb', assetInIndex: 0, assetOutIndex: 1, amount: fp(10), userData: '0x' },
+        { poolId: '0xaa', assetInIndex: 1, assetOutIndex: 2, amount: 0, userData: '0x' },
+      ];
+      const batch = PriceImpactCalculator.getBatchSwapPriceImpact(SwapKind.GivenIn, swaps, assets, pools);
+
+      const usdcOut = PriceImpactCalculator.querySwap(stable, SwapKind.GivenIn, 0, 2, fp(10));
+      const wethOut = PriceImpactCalculator.querySwap(weighted, SwapKind.GivenIn, 0, 1, usdcOut);
+      expect(batch.deltas).to.be.deep.eq([fp(10), BigNumber.from(0), wethOut.mul(-1)]);
+
+      // The route's spot price is the product of the spot prices of each hop, up to their precision
+      const spotPrice = FixedPoint.mulUp(
+        PriceImpactCalculator.getSpotPrice(stable, 0, 2),
+        PriceImpactCalculator.getSpotPrice(weighted, 0, 1)
+      );
+      expect(Number(batch.spotPrice.toString()) / Number(spotPrice.toString())).to.be.closeTo(1, 1e-6);
+      expect(batch.priceImpactBps).to.be.gt(0);
+    });
+
+    it('updates the balances of pools used more than once', () => {
+      const swaps: BatchSwapStep[] = [
+        { poolId: '0xaa', assetInIndex: 2, assetOutIndex: 1, amount: fp(0.5), userData: '0x' },
+        { poolId: '0xaa', assetInIndex: 2, assetOutIndex: 1, amount: fp(0.5), userData: '0x' },
+      ];
+      const batch = PriceImpactCalculator.getBatchSwapPriceImpact(SwapKind.GivenIn, swaps, assets, pools);
+      const single = PriceImpactCalculator.getSwapPriceImpact(weighted, SwapKind.GivenIn, 1, 0, fp(1));
+
+      // The fees paid in the first step remain in the Pool, slightly reducing the amount out
+      expect(batch.amountOut.lt(single.amountOut)).to.be.true;
+      expect(batch.priceImpactBps).to.be.closeTo(single.priceImpactBps, 5);
+    });
+
+    it('rejects malformed batch swaps', () => {
+      const step = { poolId: '0xaa', assetInIndex: 1, assetOutIndex: 2, amount: 0, userData: '0x' };
+      expectBalancerError(
+        () => PriceImpactCalculator.getBatchSwapPriceImpact(SwapKind.GivenIn, [step], assets, pools),
+        'UNKNOWN_AMOUNT_IN_FIRST_SWAP'
+      );
+      expectBalancerError(
+        () =>
+          PriceImpactCalculator.getBatchSwapPriceImpact(
+            SwapKind.GivenIn,
+            [{ ...step, amount: 1e6 }, step],
+            assets,
+            pools
+          ),
+        'MALCONSTRUCTED_MULTIHOP_SWAP'
+      );
+      expectBalancerError(
+        () =>
+          PriceImpactCalculator.getBatchSwapPriceImpact(
+            SwapKind.GivenIn,
+            [{ ...step, poolId: '0xbb', assetOutIndex: 2, amount: 1e6 }],
+            assets,
+            pools
+          ),
+        'TOKEN_NOT_REGISTERED'
+      );
+      expect(() =>
+        PriceImpactCalculator.getBatchSwapPriceImpact(
+          SwapKind.GivenIn,
+          [
+            { ...step, amount: 1e6 },
+            { ...step, poolId: '0xbb', assetInIndex: 0, assetOutIndex: 1, amount: fp(1) },
+          ],
+          assets,
+          pools
+        )
+      ).to.throw('Batch swaps must have a single token in and out');
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE, Zero } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import {
+  BalancerErrors,
+  ComposableStablePoolFeeState,
+  FixedPoint,
+  ManagedPoolFeeState,
+  ProtocolFeeEstimator,
+  ProtocolFeeType,
+  StableMath,
+  WeightedMath,
+  WeightedPoolFeeState,
+} from '../src';
+import { fp } from './helpers';
+
+// Checks that `actual` is within one part in a million of `expected`, as `fp` rounds to 6 decimals
+const expectClose = (actual: BigNumber, expected: BigNumber): void => {
+  expect(actual.sub(expected).abs().lte(expected.div(1e6)), `${actual} is not close to ${expected}`).to.be.true;
+};
+
+describe('ProtocolFeeEstimator', () => {
+  const percentages = {
+    [ProtocolFeeType.Swap]: fp(0.5),
+    [ProtocolFeeType.Yield]: fp(0.1),
+    [ProtocolFeeType.Aum]: fp(0.2),
+  };
+
+  describe('weighted pools', () => {
+    const balances = [fp(1000), fp(4000)];
+    const normalizedWeights = [fp(0.8), fp(0.2)];
+    const invariant = WeightedMath.calculateInvariant(normalizedWeights, balances);
+    const pool: WeightedPoolFeeState = {
+      balances,
+      normalizedWeights,
+      totalSupply: fp(500),
+      lastPostJoinExitInvariant: invariant,
+      athRateProduct: ONE,
+      rates: [undefined, undefined],
+    };
+
+    it('charges swap fees on invariant growth', () => {
+      // The invariant grew by 1% since the last join or exit
+      const fees = ProtocolFeeEstimator.estimateWeightedPoolFees(
+        { ...pool, lastPostJoinExitInvariant: invariant.mul(100).div(101) },
+        percentages
+      );
+
+      // The protocol owns half of the growth: 0.5 * (1 - 1 / 1.01) of the Pool
+      const ownership = 0.5 * (1 - 1 / 1.01);
+      expectClose(fees.total, fp((500 * ownership) / (1 - ownership)));
+      expect(fees.swap).to.be.deep.eq(fees.total);
+      expect(fees.protocol).to.be.deep.eq(fees.total);
+      expect(fees.yield).to.be.deep.eq(Zero);
+      expect(fees.manager).to.be.deep.eq(Zero);
+    });
+
+    it('charges nothing if the invariant did not grow', () => {
+      const fees = ProtocolFeeEstimator.estimateWeightedPoolFees(
+        { ...pool, lastPostJoinExitInvariant: invariant.add(1) },
+        percentages
+      );
+      expect(fees.total).to.be.deep.eq(Zero);
+    });
+
+    it('charges yield fees above the all time high rate product', () => {
+      // The first token's rate grew by 5% over its all time high, which the balances reflect
+      const rateProduct = FixedPoint.powDown(fp(1.1), fp(0.8));
+      const athRateProduct = FixedPoint.powDown(fp(1.1 / 1.05), fp(0.8));
+      const fees = ProtocolFeeEstimator.estimateWeightedPoolFees(
+        { ...pool, athRateProduct, rates: [fp(1.1), undefined] },
+        percentages
+      );
+
+      const growth = Number(FixedPoint.divDown(rateProduct, athRateProduct).toString()) / 1e18;
+      const ownership = 0.1 * (1 - 1 / growth);
+      expectClose(fees.total, fp((500 * ownership) / (1 - ownership)));
+      expect(fees.yield).to.be.deep.eq(fees.total);
+      expect(fees.swap).to.be.deep.eq(Zero);
+    });
+
+    it('charges no yield fees below the all time high rate product', () => {
+      const fees = ProtocolFeeEstimator.estimateWeightedPoolFees(
+        { ...pool, athRateProduct: fp(1.2), rates: [fp(1.1), undefined] },
+        percentages
+      );
+      expect(fees.total).to.be.deep.eq(Zero);
+    });
+
+    it('apportions BPT between swap and yield fees', () => {
+      const fees = ProtocolFeeEstimator.estimateWeightedPoolFees(
+        {
+          ...pool,
+          lastPostJoinExitInvariant: invariant.mul(100).div(101),
+          athRateProduct: FixedPoint.powDown(fp(1.05), fp(0.8)),
+          rates: [fp(1.1), undefined],
+        },
+        percentages
+      );
+
+      expect(fees.swap.gt(0) && fees.yield.gt(0)).to.be.true;
+      expect(fees.swap.add(fees.yield)).to.be.deep.eq(fees.total);
+    });
+  });
+
+  describe('composable stable pools', () => {
+    const amp = BigNumber.from(200 * StableMath.AMP_PRECISION);
+    const pool = (
+      balances: BigNumber[],
+      adjustedBalances: BigNumber[],
+      tokenRates: ComposableStablePoolFeeState['tokenRates']
+    ): ComposableStablePoolFeeState => ({
+      balances,
+      virtualSupply: fp(3000),
+      lastJoinExitAmplification: amp,
+      lastPostJoinExitInvariant: StableMath.calculateInvariant(amp, adjustedBalances),
+      tokenRates,
+    });
+
+    // The last token's rate grew from 1 to 1.1 since the last join or exit, which the balances reflect
+    const balances = [fp(1000), fp(1000), fp(1100)];
+    const adjustedBalances = [fp(1000), fp(1000), fp(1000)];
+    const grownRate = { rate: fp(1.1), oldRate: ONE, exemptFromYieldFees: false };
+
+    it('charges yield fees on non-exempt tokens', () => {
+      const fees = ProtocolFeeEstimator.estimateComposableStablePoolFees(
+        pool(balances, adjustedBalances, [undefined, undefined, grownRate]),
+        percentages
+      );
+
+      const totalInvariant = StableMath.calculateInvariant(amp, balances);
+      const yieldGrowth = totalInvariant.sub(StableMath.calculateInvariant(amp, adjustedBalances));
+      const ownership = FixedPoint.mulDown(FixedPoint.divDown(yieldGrowth, totalInvariant), fp(0.1));
+      expect(fees.total).to.be.deep.eq(ProtocolFeeEstimator.bptForPoolOwnershipPercentage(fp(3000), ownership));
+      expect(fees.yield).to.be.deep.eq(fees.total);
+      expect(fees.swap).to.be.deep.eq(Zero);
+    });
+
+    it('charges no yield fees on exempt tokens', () => {
+      const fees = ProtocolFeeEstimator.estimateComposableStablePoolFees(
+        pool(balances, adjustedBalances, [undefined, undefined, { ...grownRate, exemptFromYieldFees: true }]),
+        percentages
+      );
+      expect(fees.total).to.be.deep.eq(Zero);
+    });
+
+    it('charges swap fees on invariant growth not caused by rates', () => {
+      // Swap fees grew the balances of the first two tokens by 1%
+      const grownBalances = [fp(1010), fp(1010), fp(1100)];
+      const fees = ProtocolFeeEstimator.estimateComposableStablePoolFees(
+        pool(grownBalances, adjustedBalances, [undefined, undefined, { ...grownRate, exemptFromYieldFees: true }]),
+        percentages
+      );
+
+      const totalInvariant = StableMath.calculateInvariant(amp, grownBalances);
+      const swapGrowth = StableMath.calculateInvariant(amp, [fp(1010), fp(1010), fp(1000)]).sub(
+        StableMath.calculateInvariant(amp, adjustedBalances)
+      );
+      const ownership = FixedPoint.mulDown(FixedPoint.divDown(swapGrowth, totalInvariant), fp(0.5));
+      expect(fees.total).to.be.deep.eq(ProtocolFeeEstimator.bptForPoolOwnershipPercentage(fp(3000), ownership));
+      expect(fees.swap).to.be.deep.eq(fees.total);
+    });
+
+    it('handles both exempt and non-exempt tokens', () => {
+      const mixedBalances = [fp(1000), fp(1200), fp(1100)];
+      const tokenRates = [undefined, { rate: fp(1.2), oldRate: ONE, exemptFromYieldFees: true }, grownRate];
+      const fees = ProtocolFeeEstimator.estimateComposableStablePoolFees(
+        pool(mixedBalances, adjustedBalances, tokenRates),
+        percentages
+      );
+
+      // Only the growth of the last token is charged
+      const totalInvariant = StableMath.calculateInvariant(amp, mixedBalances);
+      const yieldGrowth = StableMath.calculateInvariant(amp, [fp(1000), fp(1000), fp(1100)]).sub(
+        StableMath.calculateInvariant(amp, adjustedBalances)
+      );
+      const ownership = FixedPoint.mulDown(FixedPoint.divDown(yieldGrowth, totalInvariant), fp(0.1));
+      expect(fees.yield).to.be.deep.eq(ProtocolFeeEstimator.bptForPoolOwnershipPercentage(fp(3000), ownership));
+    });
+  });
+
+  describe('managed pools', () => {
+    const YEAR = 365 * 24 * 3600;
+    const pool: ManagedPoolFeeState = {
+      virtualSupply: fp(1000),
+      aumFeePercentage: fp(0.01),
+      lastCollectionTimestamp: 1669852800,
+    };
+
+    it('charges AUM fees over the elapsed time', () => {
+      const fees = ProtocolFeeEstimator.estimateManagedPoolAumFees(pool, percentages, 1669852800 + YEAR / 2);
+
+      // Owning 1% of the Pool for a year is worth 1000 * 0.01 / 0.99 BPT
+      expectClose(fees.total, fp((1000 * 0.01) / 0.99 / 2));
+      expect(fees.aum).to.be.deep.eq(FixedPoint.mulUp(fees.total, fp(0.2)));
+      expect(fees.protocol).to.be.deep.eq(fees.aum);
+      expect(fees.manager).to.be.deep.eq(fees.total.sub(fees.aum));
+      expect(fees.swap.add(fees.yield)).to.be.deep.eq(Zero);
+    });
+
+    it('charges nothing if no time elapsed', () => {
+      const fees = ProtocolFeeEstimator.estimateManagedPoolAumFees(pool, percentages, 1669852800);
+      expect(fees.total).to.be.deep.eq(Zero);
+    });
+
+    it('pays everything to the manager without a protocol AUM fee', () => {
+      const fees = ProtocolFeeEstimator.estimateManagedPoolAumFees(pool, {}, 1669852800 + YEAR);
+      expect(fees.protocol).to.be.deep.eq(Zero);
+      expect(fees.manager).to.be.deep.eq(fees.total);
+    });
+  });
+
+  it('cannot mint BPT for the whole Pool', () => {
+    expect(() => ProtocolFeeEstimator.bptForPoolOwnershipPercentage(fp(1000), ONE)).to.throw(
+      BalancerErrors.encodeError('ZERO_DIVISION')
+    );
+  });
+});
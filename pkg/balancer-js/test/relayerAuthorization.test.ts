@@ -0,0 +1,187 @@
+import { Signer, TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { BigNumber } from '@ethersproject/bignumber';
+import { hexConcat, hexValue, hexZeroPad, joinSignature } from '@ethersproject/bytes';
+import { AddressZero } from '@ethersproject/constants';
+import { Contract } from '@ethersproject/contracts';
+import { _TypedDataEncoder } from '@ethersproject/hash';
+import { SigningKey } from '@ethersproject/signing-key';
+import { computeAddress } from '@ethersproject/transactions';
+import { expect } from 'chai';
+
+import { BalancerErrors, OptionalOnlyCallerAuthorization, RelayerAction, RelayerAuthorization } from '../src';
+
+const signingKey = new SigningKey(`0x${'11'.repeat(32)}`);
+const userAddress = computeAddress(signingKey.publicKey);
+
+// Minimal signer, so that authorizations can be created without a provider
+const user = {
+  _isSigner: true,
+  getAddress: async () => userAddress,
+  _signTypedData: async (
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, unknown>
+  ) => joinSignature(signingKey.signDigest(_TypedDataEncoder.hash(domain, types, value))),
+} as unknown as Signer & TypedDataSigner;
+
+const vault = {
+  address: '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
+  provider: { getNetwork: async () => ({ chainId: 1 }) },
+} as unknown as Contract;
+
+const domain = { name: 'Balancer V2 Vault', version: '1', chainId: 1, verifyingContract: vault.address };
+const relayer = '0x0000000000000000000000000000000000000001';
+const calldata = '0x12345678aabbccdd';
+const deadline = BigNumber.from(1000);
+const nonce = 3;
+
+describe('RelayerAuthorization', () => {
+  let authorizedCalldata: string;
+
+  before('sign authorization', async () => {
+    const signature = await RelayerAuthorization.signSwapAuthorization(vault, user, relayer, calldata, deadline, nonce);
+    authorizedCalldata = RelayerAuthorization.encodeCalldataAuthorization(calldata, deadline, signature);
+  });
+
+  it('decodes calldata authorizations', () => {
+    const {
+      calldata: decodedCalldata,
+      deadline: decodedDeadline,
+      v,
+    } = RelayerAuthorization.decodeCalldataAuthorization(authorizedCalldata);
+
+    expect(decodedCalldata).to.be.eq(calldata);
+    expect(decodedDeadline).to.be.deep.eq(deadline);
+    expect(v).to.be.oneOf([27, 28]);
+  });
+
+  it('builds authorizations offline', () => {
+    const { domain: builtDomain, digest } = RelayerAuthorization.buildAuthorizationTypedData({
+      type: RelayerAction.Swap,
+      chainId: 1,
+      verifyingContract: vault.address,
+      sender: relayer,
+      calldata,
+      nonce,
+      deadline,
+    });
+    const { r, s, v } = RelayerAuthorization.decodeCalldataAuthorization(authorizedCalldata);
+
+    expect(builtDomain).to.be.deep.eq(domain);
+    expect(joinSignature(signingKey.signDigest(digest))).to.be.eq(joinSignature({ r, s, v }));
+  });
+
+  it('rejects calldata without an authorization', () => {
+    expect(() => RelayerAuthorization.decodeCalldataAuthorization(calldata)).to.throw(
+      'Calldata does not include an authorization'
+    );
+  });
+
+  it('recovers the signer', () => {
+    const recover = (action: RelayerAction, sender: string, signerNonce: number) =>
+      RelayerAuthorization.recoverAuthorizationSigner(action, domain, sender, signerNonce, authorizedCalldata);
+
+    expect(recover(RelayerAction.Swap, relayer, nonce)).to.be.eq(userAddress);
+    expect(recover(RelayerAction.BatchSwap, relayer, nonce)).not.to.be.oneOf([userAddress, AddressZero]);
+    expect(recover(RelayerAction.Swap, AddressZero, nonce)).not.to.be.eq(userAddress);
+    expect(recover(RelayerAction.Swap, relayer, nonce + 1)).not.to.be.eq(userAddress);
+  });
+
+  it('returns the zero address for invalid v values', () => {
+    // encodeCalldataAuthorization would normalize v, so the authorization is built by hand
+    const { r, s } = RelayerAuthorization.decodeCalldataAuthorization(authorizedCalldata);
+    const invalidCalldata = hexConcat([calldata, hexZeroPad(hexValue(deadline), 32), hexZeroPad('0x00', 32), r, s]);
+
+    expect(
+      RelayerAuthorization.recoverAuthorizationSigner(RelayerAction.Swap, domain, relayer, nonce, invalidCalldata)
+    ).to.be.eq(AddressZero);
+  });
+
+  it('recovers the signer of high s signatures, as ecrecover does', () => {
+    const { v, r, s } = RelayerAuthorization.decodeCalldataAuthorization(authorizedCalldata);
+    const n = BigNumber.from('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+    const highS = hexZeroPad(n.sub(s).toHexString(), 32);
+    const highSCalldata = hexConcat([
+      calldata,
+      hexZeroPad(hexValue(deadline), 32),
+      hexZeroPad(hexValue(55 - v), 32),
+      r,
+      highS,
+    ]);
+
+    expect(
+      RelayerAuthorization.recoverAuthorizationSigner(RelayerAction.Swap, domain, relayer, nonce, highSCalldata)
+    ).to.be.eq(userAddress);
+  });
+
+  describe('verifyAuthorization', () => {
+    const verify =
+      (authorization: string, timestamp: number, signerNonce = nonce) =>
+      () =>
+        RelayerAuthorization.verifyAuthorization(
+          RelayerAction.Swap,
+          domain,
+          userAddress,
+          relayer,
+          signerNonce,
+          authorization,
+          timestamp
+        );
+
+    it('accepts valid authorizations', () => {
+      expect(verify(authorizedCalldata, 1000)).not.to.throw();
+    });
+
+    it('rejects expired authorizations', () => {
+      expect(verify(authorizedCalldata, 1001)).to.throw(BalancerErrors.encodeError('EXPIRED_SIGNATURE'));
+    });
+
+    it('rejects invalid signatures before checking the deadline', () => {
+      expect(verify(authorizedCalldata, 1001, nonce + 1)).to.throw(
+        BalancerErrors.encodeError('USER_DOESNT_ALLOW_RELAYER')
+      );
+    });
+
+    it('rejects missing authorizations', () => {
+      expect(verify(calldata, 0)).to.throw(BalancerErrors.encodeError('USER_DOESNT_ALLOW_RELAYER'));
+    });
+  });
+});
+
+describe('OptionalOnlyCallerAuthorization', () => {
+  const feeDistributor = {
+    address: '0xD3cf852898b21fc233251427c2DC93d3d604F3BB',
+    provider: { getNetwork: async () => ({ chainId: 1 }) },
+  } as unknown as Contract;
+
+  it('computes the digest signed by EOAs', async () => {
+    const wallet = '0x0000000000000000000000000000000000000002';
+    const digest = await OptionalOnlyCallerAuthorization.getSetOnlyCallerCheckDigest(
+      feeDistributor,
+      'FeeDistributor',
+      userAddress,
+      true,
+      nonce
+    );
+    const signature = await OptionalOnlyCallerAuthorization.signSetOnlyCallerCheck(
+      feeDistributor,
+      'FeeDistributor',
+      user,
+      true,
+      nonce
+    );
+
+    expect(joinSignature(signingKey.signDigest(digest))).to.be.eq(signature);
+
+    // The user is part of the signed data
+    expect(
+      await OptionalOnlyCallerAuthorization.getSetOnlyCallerCheckDigest(
+        feeDistributor,
+        'FeeDistributor',
+        wallet,
+        true,
+        nonce
+      )
+    ).not.to.be.eq(digest);
+  });
+});
@@ -0,0 +1,161 @@
+import { Interface } from '@ethersproject/abi';
+import { BigNumber } from '@ethersproject/bignumber';
+import { AddressZero } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import {
+  RelayerCallBuilder,
+  RelayerPoolKind,
+  StablePoolEncoder,
+  toChainedReference,
+  WeightedPoolEncoder,
+} from '../src';
+
+const TOKEN = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const GAUGE = '0xba100000625a3754423978a60c9317c58a424e3D';
+const RELAYER = '0x2536dfeeCB7A0397CF98eDaDA8486254533b1aFA';
+const USER = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const POOL_ID = '0x0b09dea16768f0799065c475be02919503cb2a3500020000000000000000001a';
+
+const reference = (key: number, temporary = true): BigNumber => toChainedReference(key, { temporary });
+
+describe('RelayerCallBuilder', () => {
+  const wrap = (builder: RelayerCallBuilder, outputReference: BigNumber) =>
+    builder.wrapERC4626({ wrappedToken: TOKEN, sender: USER, recipient: RELAYER, amount: 100, outputReference });
+
+  const join = (builder: RelayerCallBuilder, amountIn: BigNumber, outputReference: BigNumber) =>
+    builder.joinPool({
+      poolId: POOL_ID,
+      kind: RelayerPoolKind.WEIGHTED,
+      sender: RELAYER,
+      recipient: RELAYER,
+      joinPoolRequest: {
+        assets: [TOKEN, AddressZero],
+        maxAmountsIn: [amountIn, 0],
+        userData: WeightedPoolEncoder.joinExactTokensInForBPTOut([amountIn, 0], 0),
+        fromInternalBalance: false,
+      },
+      value: 0,
+      outputReference,
+    });
+
+  const exit = (builder: RelayerCallBuilder, kind: RelayerPoolKind, userData: string) =>
+    builder.exitPool({
+      poolId: POOL_ID,
+      kind,
+      sender: RELAYER,
+      recipient: USER,
+      exitPoolRequest: { assets: [TOKEN, AddressZero], minAmountsOut: [0, 0], userData, toInternalBalance: false },
+      outputReferences: [],
+    });
+
+  it('composes a wrap, join and stake zap', () => {
+    const builder = new RelayerCallBuilder();
+
+    const wrapCall = wrap(builder, reference(0));
+    const joinCall = join(builder, reference(0), reference(1));
+    builder.gaugeDeposit({ gauge: GAUGE, sender: RELAYER, recipient: USER, amount: reference(1) });
+
+    expect(wrapCall.outputReferences).to.be.deep.eq([reference(0)]);
+    expect(joinCall.outputReferences).to.be.deep.eq([reference(1)]);
+    expect(builder.getCalls()).to.have.length(3);
+
+    const library = new Interface([
+      'function gaugeDeposit(address gauge, address sender, address recipient, uint256 amount)',
+    ]);
+    const { args } = library.parseTransaction({ data: builder.getCalls()[2] });
+    expect(args.amount).to.be.deep.eq(reference(1));
+  });
+
+  it('encodes the multicall', () => {
+    const builder = new RelayerCallBuilder();
+    wrap(builder, reference(0));
+
+    const entrypoint = new Interface(['function multicall(bytes[] data)']);
+    expect(entrypoint.decodeFunctionData('multicall', builder.encodeMulticall()).data).to.be.deep.eq(
+      builder.getCalls()
+    );
+  });
+
+  it('rejects references read before being set', () => {
+    const builder = new RelayerCallBuilder();
+    expect(() => join(builder, reference(0), reference(1))).to.throw('read before being set');
+  });
+
+  it('clears temporary references once read', () => {
+    const builder = new RelayerCallBuilder();
+    wrap(builder, reference(0));
+    builder.gaugeDeposit({ gauge: GAUGE, sender: RELAYER, recipient: USER, amount: reference(0) });
+
+    expect(() =>
+      builder.gaugeDeposit({ gauge: GAUGE, sender: RELAYER, recipient: USER, amount: reference(0) })
+    ).to.throw('read before being set');
+  });
+
+  it('allows read-only references to be read multiple times', () => {
+    const builder = new RelayerCallBuilder();
+    wrap(builder, reference(0, false));
+    builder.approveVault(TOKEN, reference(0, false));
+    builder.gaugeDeposit({ gauge: GAUGE, sender: RELAYER, recipient: USER, amount: reference(0, false) });
+
+    expect(builder.getCalls()).to.have.length(3);
+  });
+
+  it('reads temporary aliases of read-only references', () => {
+    const builder = new RelayerCallBuilder();
+    wrap(builder, reference(1, false));
+
+    expect(() =>
+      builder.gaugeDeposit({ gauge: GAUGE, sender: RELAYER, recipient: USER, amount: reference(1) })
+    ).not.to.throw();
+  });
+
+  it('clears read-only aliases of temporary references once read', () => {
+    const builder = new RelayerCallBuilder();
+    wrap(builder, reference(1, false));
+    builder.gaugeDeposit({ gauge: GAUGE, sender: RELAYER, recipient: USER, amount: reference(1) });
+
+    expect(() => builder.approveVault(TOKEN, reference(1, false))).to.throw('read before being set');
+  });
+
+  it('only reads the userData amounts replaced by VaultActions', () => {
+    const builder = new RelayerCallBuilder();
+
+    // Amounts out and BPT amounts out are never replaced, so they are not read
+    exit(builder, RelayerPoolKind.WEIGHTED, WeightedPoolEncoder.exitBPTInForExactTokensOut([reference(0), 0], 0));
+    builder.joinPool({
+      poolId: POOL_ID,
+      kind: RelayerPoolKind.WEIGHTED,
+      sender: RELAYER,
+      recipient: RELAYER,
+      joinPoolRequest: {
+        assets: [TOKEN, AddressZero],
+        maxAmountsIn: [0, 0],
+        userData: WeightedPoolEncoder.joinTokenInForExactBPTOut(reference(0), 0),
+        fromInternalBalance: false,
+      },
+      value: 0,
+      outputReference: 0,
+    });
+
+    expect(() =>
+      exit(builder, RelayerPoolKind.WEIGHTED, WeightedPoolEncoder.exitExactBPTInForOneTokenOut(reference(0), 0))
+    ).to.throw('read before being set');
+  });
+
+  it('reads BPT amounts in depending on the Pool kind', () => {
+    const builder = new RelayerCallBuilder();
+    const userData = StablePoolEncoder.exitExactBptInForTokensOut(reference(0));
+
+    // The first Composable Stable Pools have no proportional exit, so the relayer leaves this userData untouched
+    exit(builder, RelayerPoolKind.COMPOSABLE_STABLE, userData);
+    expect(() => exit(builder, RelayerPoolKind.COMPOSABLE_STABLE_V2, userData)).to.throw('read before being set');
+  });
+
+  it('requires output references of batch operations to be chained references', () => {
+    const builder = new RelayerCallBuilder();
+    expect(() => builder.manageUserBalance({ ops: [], value: 0, outputReferences: [{ index: 0, key: 5 }] })).to.throw(
+      'invalid chained reference'
+    );
+  });
+});
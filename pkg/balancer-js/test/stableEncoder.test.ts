@@ -0,0 +1,65 @@
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { expect } from 'chai';
+
+import { ComposableStablePoolEncoder, LegacyStablePoolExitKind, StablePoolExitKind, StablePoolVersion } from '../src';
+
+describe('ComposableStablePoolEncoder', () => {
+  const decodeKind = (userData: string): number => defaultAbiCoder.decode(['uint256'], userData)[0].toNumber();
+
+  context('exit kinds', () => {
+    it('numbers proportional exits according to the pool version', () => {
+      const legacy = new ComposableStablePoolEncoder(StablePoolVersion.Legacy);
+      const v2 = new ComposableStablePoolEncoder(StablePoolVersion.ComposableV2);
+
+      expect(decodeKind(legacy.exitExactBptInForTokensOut(1))).to.be.eq(
+        LegacyStablePoolExitKind.EXACT_BPT_IN_FOR_TOKENS_OUT
+      );
+      expect(decodeKind(v2.exitExactBptInForTokensOut(1))).to.be.eq(StablePoolExitKind.EXACT_BPT_IN_FOR_ALL_TOKENS_OUT);
+    });
+
+    it('numbers exact tokens out exits according to the pool version', () => {
+      const legacy = new ComposableStablePoolEncoder(StablePoolVersion.Legacy);
+      const v1 = new ComposableStablePoolEncoder(StablePoolVersion.ComposableV1);
+
+      expect(decodeKind(legacy.exitBPTInForExactTokensOut([1, 2], 3))).to.be.eq(
+        LegacyStablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT
+      );
+      expect(decodeKind(v1.exitBPTInForExactTokensOut([1, 2], 3))).to.be.eq(
+        StablePoolExitKind.BPT_IN_FOR_EXACT_TOKENS_OUT
+      );
+    });
+
+    it('rejects kinds the version does not support', () => {
+      const v1 = new ComposableStablePoolEncoder(StablePoolVersion.ComposableV1);
+
+      expect(() => v1.exitExactBptInForTokensOut(1)).to.throw('not supported');
+      expect(() => v1.joinAllTokensInForExactBptOut(1)).to.throw('not supported');
+    });
+  });
+
+  context('with a BPT index', () => {
+    const encoder = new ComposableStablePoolEncoder(StablePoolVersion.ComposableV2, 1);
+
+    it('removes the BPT entry from amounts arrays', () => {
+      const userData = encoder.exitBPTInForExactTokensOut([10, 0, 30], 40);
+      const [, amountsOut] = defaultAbiCoder.decode(['uint256', 'uint256[]', 'uint256'], userData);
+
+      expect(amountsOut.map((amount: { toNumber: () => number }) => amount.toNumber())).to.be.deep.eq([10, 30]);
+    });
+
+    it('keeps the BPT entry when initializing', () => {
+      const userData = encoder.joinInit([10, 0, 30]);
+      const [, amountsIn] = defaultAbiCoder.decode(['uint256', 'uint256[]'], userData);
+
+      expect(amountsIn.length).to.be.eq(3);
+    });
+
+    it('skips the BPT when converting token indices', () => {
+      const userData = encoder.exitExactBPTInForOneTokenOut(10, 2);
+      const [, , tokenIndex] = defaultAbiCoder.decode(['uint256', 'uint256', 'uint256'], userData);
+
+      expect(tokenIndex.toNumber()).to.be.eq(1);
+      expect(() => encoder.exitExactBPTInForOneTokenOut(10, 1)).to.throw();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { expect } from 'chai';
+
+import { BalancerErrors, ComposableStablePoolQuoter, ScalingHelpers, StableMath } from '../src';
+import { fp } from './helpers';
+
+const expectRelativeError = (actual: BigNumber, expected: number, maxRelativeError: number): void => {
+  const error = Math.abs(Number(actual.toString()) / 1e18 - expected) / expected;
+  expect(error).to.be.lte(maxRelativeError);
+};
+
+const expectBalancerError = (fn: () => unknown, error: string): void => {
+  expect(fn).to.throw(BalancerErrors.encodeError(error));
+};
+
+describe('StableMath', () => {
+  const amp = 200 * StableMath.AMP_PRECISION;
+  const balances = [fp(1000), fp(1000), fp(1000)];
+
+  it('computes the invariant of balanced pools as the sum of balances', () => {
+    expectRelativeError(StableMath.calculateInvariant(amp, balances), 3000, 1e-15);
+    expect(StableMath.calculateInvariant(amp, [0, 0]).isZero()).to.be.true;
+  });
+
+  it('reverts when the invariant does not converge', () => {
+    expectBalancerError(
+      () => StableMath.calculateInvariant(StableMath.AMP_PRECISION, [40000000, 6]),
+      'STABLE_INVARIANT_DIDNT_CONVERGE'
+    );
+  });
+
+  it('quotes swaps close to 1:1 in balanced pools, rounding in favour of the pool', () => {
+    const invariant = StableMath.calculateInvariant(amp, balances);
+
+    const amountOut = StableMath.calcOutGivenIn(amp, balances, 0, 1, fp(1), invariant);
+    const amountIn = StableMath.calcInGivenOut(amp, balances, 0, 1, fp(1), invariant);
+
+    expectRelativeError(amountOut, 1, 1e-4);
+    expect(amountOut.lt(fp(1))).to.be.true;
+    expect(amountIn.gt(fp(1))).to.be.true;
+  });
+
+  it('does not mutate the balances', () => {
+    const invariant = StableMath.calculateInvariant(amp, balances);
+    StableMath.calcOutGivenIn(amp, balances, 0, 1, fp(1), invariant);
+    StableMath.calcInGivenOut(amp, balances, 0, 1, fp(1), invariant);
+
+    expect(balances).to.be.deep.eq([fp(1000), fp(1000), fp(1000)]);
+  });
+
+  it('charges no fees on proportional joins and exits', () => {
+    const invariant = StableMath.calculateInvariant(amp, balances);
+    const amounts = [fp(10), fp(10), fp(10)];
+
+    const bptOut = StableMath.calcBptOutGivenExactTokensIn(amp, balances, amounts, fp(3000), invariant, fp(0.1));
+    const bptIn = StableMath.calcBptInGivenExactTokensOut(amp, balances, amounts, fp(3000), invariant, fp(0.1));
+
+    expectRelativeError(bptOut, 30, 1e-12);
+    expectRelativeError(bptIn, 30, 1e-12);
+  });
+
+  it('charges fees on single token joins and exits', () => {
+    const invariant = StableMath.calculateInvariant(amp, balances);
+
+    const amountIn = StableMath.calcTokenInGivenExactBptOut(amp, balances, 0, fp(10), fp(3000), invariant, fp(0.01));
+    const amountOut = StableMath.calcTokenOutGivenExactBptIn(amp, balances, 0, fp(10), fp(3000), invariant, fp(0.01));
+
+    expect(amountIn.gt(fp(10))).to.be.true;
+    expect(amountOut.lt(fp(10))).to.be.true;
+  });
+});
+
+describe('ComposableStablePoolQuoter', () => {
+  const pool = {
+    amplificationParameter: 200 * StableMath.AMP_PRECISION,
+    // The BPT is registered in the middle, and the last token has 6 decimals and a rate of 2
+    balances: [fp(2000), fp(1e6), BigNumber.from(1000e6)],
+    scalingFactors: [
+      ScalingHelpers.computeScalingFactor(18),
+      ScalingHelpers.computeScalingFactor(18),
+      ScalingHelpers.computeScalingFactorWithRate(6, fp(2)),
+    ],
+    bptIndex: 1,
+    swapFeePercentage: fp(0.01),
+  };
+
+  it('applies token rates and decimals', () => {
+    const amountOut = ComposableStablePoolQuoter.swapGivenIn(pool, 0, 2, fp(2));
+
+    // 2 tokens minus fees are worth a bit less than 1 token with a rate of 2
+    expectRelativeError(amountOut.mul(1e12), 0.99, 1e-4);
+    expect(amountOut.lt(1e6)).to.be.true;
+  });
+
+  it('adds swap fees to amounts in', () => {
+    const amountIn = ComposableStablePoolQuoter.swapGivenOut(pool, 0, 2, 1e6);
+    expectRelativeError(amountIn, 2 / 0.99, 1e-4);
+  });
+
+  it('rejects swaps involving the BPT', () => {
+    expect(() => ComposableStablePoolQuoter.swapGivenIn(pool, 1, 2, fp(1))).to.throw('BPT');
+  });
+});
@@ -0,0 +1,257 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import {
+  PoolDataQueries,
+  PoolDataQueryPool,
+  PriceImpactCalculator,
+  PricedPoolType,
+  RoutablePool,
+  ScalingHelpers,
+  StableMath,
+  SwapKind,
+  SwapRouter,
+  TotalSupplyType,
+} from '../src';
+import { fp } from './helpers';
+
+describe('SwapRouter', () => {
+  const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+  const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+  const BAL = '0xba100000625a3754423978a60c9317c58a424e3D';
+  const BPT = '0x1111111111111111111111111111111111111111';
+
+  const poolId = (n: number): string => `0x${n.toString(16).padStart(64, '0')}`;
+
+  // USDC/WETH pools at a price of 1000 USDC per WETH, the second one being deeper
+  const weightedPool = (id: string, usdcBalance: number): RoutablePool => ({
+    id,
+    type: PricedPoolType.Weighted,
+    tokens: [USDC, WETH],
+    state: {
+      balances: [BigNumber.from(usdcBalance).mul(1e6), fp(usdcBalance / 1000)],
+      normalizedWeights: [fp(0.5), fp(0.5)],
+      scalingFactors: [ScalingHelpers.computeScalingFactor(6), ONE],
+      swapFeePercentage: fp(0.003),
+    },
+  });
+  const shallow = weightedPool(poolId(1), 100000);
+  const deep = weightedPool(poolId(2), 300000);
+
+  const stable: RoutablePool = {
+    id: poolId(3),
+    type: PricedPoolType.ComposableStable,
+    tokens: [DAI, BPT, USDC],
+    state: {
+      amplificationParameter: 200 * StableMath.AMP_PRECISION,
+      balances: [fp(1e6), fp(1e9), BigNumber.from(1e12)],
+      scalingFactors: [ONE, ONE, ScalingHelpers.computeScalingFactor(6)],
+      bptIndex: 1,
+      swapFeePercentage: fp(0.0001),
+    },
+  };
+
+  describe('findRoute', () => {
+    it('splits swaps across Pools', () => {
+      const router = new SwapRouter([shallow, deep], WETH, { splitSteps: 4 });
+      const amount = fp(20);
+      const route = router.findRoute(SwapKind.GivenIn, WETH, USDC, amount);
+      if (route === undefined) throw new Error('No route found');
+
+      expect(route.paths).to.have.lengthOf(2);
+      expect(route.amountIn).to.be.deep.eq(amount);
+      expect(route.paths[0].amount.add(route.paths[1].amount)).to.be.deep.eq(amount);
+
+      // Three quarters of the liquidity is in the deeper Pool
+      const deepPath = route.paths.find(({ poolIds }) => poolIds[0] === deep.id);
+      expect(deepPath?.amount).to.be.deep.eq(fp(15));
+
+      const singlePoolAmountOut = PriceImpactCalculator.querySwap(deep, SwapKind.GivenIn, 1, 0, amount);
+      expect(route.amountOut.gt(singlePoolAmountOut)).to.be.true;
+    });
+
+    it('routes through multiple hops', () => {
+      const router = new SwapRouter([stable, deep], WETH);
+      const route = router.findRoute(SwapKind.GivenIn, DAI, WETH, fp(1000));
+      if (route === undefined) throw new Error('No route found');
+
+      expect(route.paths).to.have.lengthOf(1);
+      expect(route.paths[0].poolIds).to.be.deep.eq([stable.id, deep.id]);
+      expect(route.paths[0].tokens).to.be.deep.eq([DAI, USDC, WETH]);
+
+      // The route's amounts match those of the batch swap
+      const { deltas } = PriceImpactCalculator.getBatchSwapPriceImpact(SwapKind.GivenIn, route.swaps, route.assets, {
+        [stable.id]: stable,
+        [deep.id]: deep,
+      });
+      expect(deltas).to.be.deep.eq(route.deltas);
+    });
+
+    it('respects the maximum number of hops', () => {
+      const router = new SwapRouter([stable, deep], WETH, { maxHops: 1 });
+      expect(router.findRoute(SwapKind.GivenIn, DAI, WETH, fp(1000))).to.be.undefined;
+    });
+
+    it('minimizes the amount in of GivenOut swaps', () => {
+      const router = new SwapRouter([shallow, deep], WETH);
+      const amount = BigNumber.from(20000e6);
+      const route = router.findRoute(SwapKind.GivenOut, WETH, USDC, amount);
+      if (route === undefined) throw new Error('No route found');
+
+      expect(route.amountOut).to.be.deep.eq(amount);
+      const singlePoolAmountIn = PriceImpactCalculator.querySwap(deep, SwapKind.GivenOut, 1, 0, amount);
+      expect(route.amountIn.lt(singlePoolAmountIn)).to.be.true;
+    });
+
+    it('executes multihop GivenOut swaps backwards', () => {
+      const router = new SwapRouter([stable, deep], WETH);
+      const route = router.findRoute(SwapKind.GivenOut, DAI, WETH, fp(1));
+      if (route === undefined) throw new Error('No route found');
+
+      expect(route.swaps.map(({ poolId }) => poolId)).to.be.deep.eq([deep.id, stable.id]);
+      expect(route.swaps[1].amount).to.be.eq(0);
+      expect(route.amountOut).to.be.deep.eq(fp(1));
+    });
+
+    it('ignores paused Pools and Pools in Recovery Mode', () => {
+      const router = new SwapRouter(
+        [
+          { ...shallow, isPaused: true },
+          { ...deep, inRecoveryMode: true },
+        ],
+        WETH
+      );
+      expect(router.findRoute(SwapKind.GivenIn, WETH, USDC, fp(1))).to.be.undefined;
+    });
+
+    it('skips swaps the Pools cannot execute', () => {
+      // Weighted Pools limit amounts in to 30% of their balance
+      const router = new SwapRouter([shallow], WETH);
+      expect(router.findRoute(SwapKind.GivenIn, WETH, USDC, fp(50))).to.be.undefined;
+    });
+
+    it('does not route through BPT of Composable Stable Pools', () => {
+      const router = new SwapRouter([stable], WETH);
+      expect(router.findRoute(SwapKind.GivenIn, DAI, BPT, fp(1))).to.be.undefined;
+    });
+  });
+
+  describe('buildBatchSwap', () => {
+    it('applies slippage to the amounts calculated', () => {
+      const router = new SwapRouter([shallow, deep], WETH);
+      const route = router.findRoute(SwapKind.GivenIn, WETH, USDC, fp(10));
+      if (route === undefined) throw new Error('No route found');
+
+      const funds = { sender: BAL, recipient: BAL, fromInternalBalance: false, toInternalBalance: false };
+      const batchSwap = router.buildBatchSwap(route, funds, fp(0.01), 1000);
+
+      expect(batchSwap.swaps).to.be.deep.eq(route.swaps);
+      expect(batchSwap.assets).to.be.deep.eq(route.assets);
+      expect(batchSwap.limits[route.assetInIndex]).to.be.deep.eq(fp(10));
+      expect(batchSwap.limits[route.assetOutIndex]).to.be.deep.eq(route.amountOut.mul(99).add(99).div(100).mul(-1));
+    });
+  });
+});
+
+describe('PoolDataQueries', () => {
+  const TOKEN_A = '0x1111111111111111111111111111111111111111';
+  const TOKEN_B = '0x2222222222222222222222222222222222222222';
+  const BPT = '0x3333333333333333333333333333333333333333';
+
+  const pools: PoolDataQueryPool[] = [
+    { id: 'weighted', type: PricedPoolType.Weighted, tokens: [TOKEN_A, TOKEN_B] },
+    {
+      id: 'linear',
+      type: PricedPoolType.Linear,
+      tokens: [TOKEN_A, BPT, TOKEN_B],
+      mainIndex: 0,
+      wrappedIndex: 2,
+      bptIndex: 1,
+      mainDecimals: 6,
+      wrappedDecimals: 18,
+    },
+    { id: 'stable', type: PricedPoolType.ComposableStable, tokens: [BPT, TOKEN_A, TOKEN_B], bptIndex: 0 },
+    { id: 'ignored', type: PricedPoolType.Weighted, tokens: [TOKEN_A, TOKEN_B] },
+  ];
+
+  it('loads the data of each Pool type', () => {
+    const config = PoolDataQueries.getPoolDataConfig(pools);
+
+    expect(config.weightedPoolIdxs).to.be.deep.eq([0, 3]);
+    expect(config.linearPoolIdxs).to.be.deep.eq([1]);
+    expect(config.ampPoolIdxs).to.be.deep.eq([2]);
+    expect(config.scalingFactorPoolIdxs).to.be.deep.eq([0, 2, 3]);
+    expect(config.totalSupplyTypes[1]).to.be.eq(TotalSupplyType.VirtualSupply);
+  });
+
+  it('parses query results', () => {
+    const data = {
+      balances: [
+        [1, 2],
+        [3, 4, 5],
+        [6, 7, 8],
+        [9, 10],
+      ],
+      totalSupplies: [100, 200, 300, 0],
+      swapFees: [11, 12, 13, 14],
+      linearWrappedTokenRates: [fp(1.1)],
+      linearTargets: [[15, 16]],
+      weights: [[fp(0.5), fp(0.5)], []],
+      scalingFactors: [[17, 18], [19, 20, 21], []],
+      amps: [22],
+      rates: [],
+      ignoreIdxs: [3],
+    };
+    const status = { isPaused: [false, true, false, false], inRecoveryMode: [false, false, true, false] };
+
+    const [weighted, linear, stable, ...rest] = PoolDataQueries.parsePoolData(pools, data, status);
+    expect(rest).to.be.empty;
+
+    expect(weighted).to.be.deep.eq({
+      id: 'weighted',
+      type: PricedPoolType.Weighted,
+      tokens: [TOKEN_A, TOKEN_B],
+      state: {
+        balances: [1, 2],
+        normalizedWeights: [fp(0.5), fp(0.5)],
+        scalingFactors: [17, 18],
+        swapFeePercentage: 11,
+      },
+      isPaused: false,
+      inRecoveryMode: false,
+    });
+
+    expect(linear.isPaused).to.be.true;
+    expect(linear.state).to.be.deep.include({
+      mainScalingFactor: ScalingHelpers.computeScalingFactor(6),
+      wrappedScalingFactor: ONE,
+      wrappedTokenRate: fp(1.1),
+      lowerTarget: 15,
+      upperTarget: 16,
+      virtualSupply: 200,
+    });
+
+    expect(stable.inRecoveryMode).to.be.true;
+    expect(stable.state).to.be.deep.include({ amplificationParameter: 22, scalingFactors: [19, 20, 21], bptIndex: 0 });
+  });
+
+  it('skips Pools without balances', () => {
+    const data = {
+      balances: [[], [], [], [1, 2]],
+      totalSupplies: [1, 1, 1, 1],
+      swapFees: [1, 1, 1, 1],
+      linearWrappedTokenRates: [1],
+      linearTargets: [[1, 2]],
+      weights: [[1], [1]],
+      scalingFactors: [[1], [1], [1]],
+      amps: [1],
+      rates: [],
+      ignoreIdxs: [],
+    };
+
+    const parsed = PoolDataQueries.parsePoolData(pools, data);
+    expect(parsed.map(({ id }) => id)).to.be.deep.eq(['ignored']);
+  });
+});
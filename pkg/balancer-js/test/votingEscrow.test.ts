@@ -0,0 +1,168 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE, Zero } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import { LockedBalance, VotingEscrowCalculator, VotingEscrowState } from '../src';
+
+const { WEEK, MAXTIME } = VotingEscrowCalculator;
+
+describe('VotingEscrowCalculator', () => {
+  // Thursday 1 December 2022, 00:00 UTC, which is the start of a week
+  const START = 1669852800;
+  const NOW = START + 3 * 86400 + 1234;
+
+  const emptyState: VotingEscrowState = { pointHistory: [], slopeChanges: {} };
+  const noLock: LockedBalance = { amount: 0, end: 0 };
+
+  const sumOfLocks = (locks: LockedBalance[], timestamp: BigNumber): BigNumber =>
+    locks.reduce((total, lock) => total.add(VotingEscrowCalculator.getLockBalanceAt(lock, timestamp)), Zero);
+
+  describe('lock balances', () => {
+    it('round unlock times down to weeks', () => {
+      expect(VotingEscrowCalculator.roundDownToWeek(NOW)).to.be.deep.eq(BigNumber.from(START));
+      expect(VotingEscrowCalculator.getMaxUnlockTime(NOW)).to.be.deep.eq(BigNumber.from(START + 52 * WEEK));
+
+      const { locked } = VotingEscrowCalculator.createLock(emptyState, noLock, ONE, NOW + 10 * WEEK, NOW);
+      expect(locked.end).to.be.deep.eq(BigNumber.from(START + 10 * WEEK));
+    });
+
+    it('decay linearly until the end of the lock', () => {
+      const amount = ONE.mul(1000);
+      const { locked, userPoint } = VotingEscrowCalculator.createLock(
+        emptyState,
+        noLock,
+        amount,
+        START + 52 * WEEK,
+        NOW
+      );
+
+      const slope = amount.div(MAXTIME);
+      expect(userPoint.slope).to.be.deep.eq(slope);
+
+      [NOW, NOW + 1000, START + 26 * WEEK, START + 52 * WEEK - 1].forEach((timestamp) => {
+        const expected = slope.mul(START + 52 * WEEK - timestamp);
+        expect(VotingEscrowCalculator.getLockBalanceAt(locked, timestamp)).to.be.deep.eq(expected);
+        expect(VotingEscrowCalculator.getUserBalanceAt([userPoint], timestamp)).to.be.deep.eq(expected);
+      });
+
+      expect(VotingEscrowCalculator.getLockBalanceAt(locked, START + 52 * WEEK)).to.be.deep.eq(Zero);
+      expect(VotingEscrowCalculator.getUserBalanceAt([userPoint], START + 60 * WEEK)).to.be.deep.eq(Zero);
+      expect(VotingEscrowCalculator.getUserBalanceAt([userPoint], NOW - 1)).to.be.deep.eq(Zero);
+    });
+
+    it('uses the latest user point', () => {
+      const first = VotingEscrowCalculator.createLock(emptyState, noLock, ONE.mul(10), START + 20 * WEEK, NOW);
+      const second = VotingEscrowCalculator.increaseAmount(first.state, first.locked, ONE.mul(30), NOW + WEEK);
+      const userPointHistory = [first.userPoint, second.userPoint];
+
+      expect(VotingEscrowCalculator.getUserBalanceAt(userPointHistory, NOW + 1)).to.be.deep.eq(
+        VotingEscrowCalculator.getLockBalanceAt(first.locked, NOW + 1)
+      );
+      expect(VotingEscrowCalculator.getUserBalanceAt(userPointHistory, NOW + 2 * WEEK)).to.be.deep.eq(
+        VotingEscrowCalculator.getLockBalanceAt(second.locked, NOW + 2 * WEEK)
+      );
+    });
+  });
+
+  describe('total supply', () => {
+    it('tracks the sum of all locks', () => {
+      let state = emptyState;
+      const alice = VotingEscrowCalculator.createLock(state, noLock, ONE.mul(1000), START + 30 * WEEK, NOW);
+      state = alice.state;
+      const bob = VotingEscrowCalculator.createLock(state, noLock, ONE.mul(500), START + 52 * WEEK, NOW + 2 * WEEK);
+      state = bob.state;
+      const aliceExtended = VotingEscrowCalculator.increaseUnlockTime(
+        state,
+        alice.locked,
+        START + 54 * WEEK,
+        NOW + 5 * WEEK
+      );
+      state = aliceExtended.state;
+      const bobIncreased = VotingEscrowCalculator.increaseAmount(state, bob.locked, ONE.mul(250), NOW + 8 * WEEK);
+      state = bobIncreased.state;
+
+      // The global checkpoints are filled in for every week
+      expect(state.pointHistory.map(({ ts }) => BigNumber.from(ts).toNumber())).to.include.members([
+        START + WEEK,
+        START + 7 * WEEK,
+        NOW + 8 * WEEK,
+      ]);
+
+      const locks = [aliceExtended.locked, bobIncreased.locked];
+      const predictions = VotingEscrowCalculator.predictTotalSupply(state, NOW + 8 * WEEK, 60);
+      expect(predictions).to.have.lengthOf(60);
+      predictions.forEach(({ timestamp, totalSupply }) => {
+        expect(totalSupply).to.be.deep.eq(sumOfLocks(locks, timestamp));
+      });
+      expect(predictions[59].totalSupply).to.be.deep.eq(Zero);
+
+      // Past total supplies are computed from the checkpoints in effect at the time
+      expect(VotingEscrowCalculator.getTotalSupplyAt(state, NOW + WEEK)).to.be.deep.eq(
+        sumOfLocks([alice.locked], BigNumber.from(NOW + WEEK))
+      );
+      expect(VotingEscrowCalculator.getTotalSupplyAt(state, NOW + 6 * WEEK)).to.be.deep.eq(
+        sumOfLocks([aliceExtended.locked, bob.locked], BigNumber.from(NOW + 6 * WEEK))
+      );
+      expect(VotingEscrowCalculator.getTotalSupplyAt(state, NOW - 1)).to.be.deep.eq(Zero);
+    });
+
+    it('schedules slope changes at the end of locks', () => {
+      const { locked, state, userPoint } = VotingEscrowCalculator.createLock(
+        emptyState,
+        noLock,
+        ONE.mul(100),
+        START + 4 * WEEK,
+        NOW
+      );
+      expect(state.slopeChanges[START + 4 * WEEK]).to.be.deep.eq(BigNumber.from(userPoint.slope).mul(-1));
+
+      const extended = VotingEscrowCalculator.increaseUnlockTime(state, locked, START + 8 * WEEK, NOW);
+      expect(extended.state.slopeChanges[START + 4 * WEEK]).to.be.deep.eq(Zero);
+      expect(extended.state.slopeChanges[START + 8 * WEEK]).to.be.deep.eq(BigNumber.from(userPoint.slope).mul(-1));
+    });
+  });
+
+  describe('actions', () => {
+    const { locked, state } = VotingEscrowCalculator.createLock(emptyState, noLock, ONE, START + 10 * WEEK, NOW);
+
+    it('rejects invalid locks', () => {
+      expect(() => VotingEscrowCalculator.createLock(state, locked, ONE, START + 20 * WEEK, NOW)).to.throw(
+        'Withdraw old tokens first'
+      );
+      expect(() => VotingEscrowCalculator.createLock(state, noLock, ONE, NOW + 1, NOW)).to.throw(
+        'Can only lock until time in the future'
+      );
+      expect(() => VotingEscrowCalculator.createLock(state, noLock, ONE, START + 53 * WEEK, NOW)).to.throw(
+        'Voting lock can be 1 year max'
+      );
+      expect(() => VotingEscrowCalculator.createLock(state, noLock, 0, START + 10 * WEEK, NOW)).to.throw(
+        'need non-zero value'
+      );
+    });
+
+    it('rejects invalid amount increases', () => {
+      expect(() => VotingEscrowCalculator.increaseAmount(state, noLock, ONE, NOW)).to.throw('No existing lock found');
+      expect(() => VotingEscrowCalculator.increaseAmount(state, locked, ONE, START + 10 * WEEK)).to.throw(
+        'Cannot add to expired lock. Withdraw'
+      );
+    });
+
+    it('rejects invalid unlock time increases', () => {
+      expect(() => VotingEscrowCalculator.increaseUnlockTime(state, locked, START + 11 * WEEK - 1, NOW)).to.throw(
+        'Can only increase lock duration'
+      );
+      expect(() =>
+        VotingEscrowCalculator.increaseUnlockTime(state, locked, START + 11 * WEEK, START + 10 * WEEK)
+      ).to.throw('Lock expired');
+      expect(() => VotingEscrowCalculator.increaseUnlockTime(state, noLock, START + 11 * WEEK, NOW)).to.throw(
+        'Lock expired'
+      );
+    });
+
+    it('rejects actions before the last checkpoint', () => {
+      expect(() => VotingEscrowCalculator.increaseAmount(state, locked, ONE, NOW - 1)).to.throw(
+        'Timestamp is before the last checkpoint'
+      );
+    });
+  });
+});
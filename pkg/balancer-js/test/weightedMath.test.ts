@@ -0,0 +1,107 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { WeiPerEther as ONE } from '@ethersproject/constants';
+import { expect } from 'chai';
+
+import { BalancerErrors, FixedPoint, LogExpMath, WeightedMath } from '../src';
+import { fp } from './helpers';
+
+const expectRelativeError = (actual: BigNumber, expected: number, maxRelativeError: number): void => {
+  const error = Math.abs(Number(actual.toString()) / 1e18 - expected) / expected;
+  expect(error).to.be.lte(maxRelativeError);
+};
+
+const expectBalancerError = (fn: () => unknown, error: string): void => {
+  expect(fn).to.throw(BalancerErrors.encodeError(error));
+};
+
+describe('LogExpMath', () => {
+  it('handles 0^0 and 0^y', () => {
+    expect(LogExpMath.pow(0, 0)).to.be.deep.eq(ONE);
+    expect(LogExpMath.pow(0, fp(2)).toNumber()).to.be.eq(0);
+  });
+
+  it('computes powers within the error bound', () => {
+    expectRelativeError(LogExpMath.pow(fp(2), fp(0.5)), Math.SQRT2, 1e-14);
+    expectRelativeError(LogExpMath.pow(fp(0.5), fp(1.5)), Math.pow(0.5, 1.5), 1e-14);
+    // Bases close to one use the higher precision logarithm
+    expectRelativeError(LogExpMath.pow(fp(1.05), fp(3.3)), Math.pow(1.05, 3.3), 1e-14);
+  });
+
+  it('computes natural exponents and logarithms with negative values', () => {
+    expectRelativeError(LogExpMath.exp(fp(-3)), Math.exp(-3), 1e-14);
+    expectRelativeError(LogExpMath.ln(fp(0.95)).mul(-1), -Math.log(0.95), 1e-14);
+  });
+
+  it('rejects out of bounds exponents', () => {
+    expectBalancerError(() => LogExpMath.exp(fp(131)), 'INVALID_EXPONENT');
+    expectBalancerError(() => LogExpMath.pow(fp(1e6), fp(100)), 'PRODUCT_OUT_OF_BOUNDS');
+  });
+});
+
+describe('FixedPoint', () => {
+  it('rounds multiplications and divisions in the requested direction', () => {
+    expect(FixedPoint.mulDown(1, 1).toNumber()).to.be.eq(0);
+    expect(FixedPoint.mulUp(1, 1).toNumber()).to.be.eq(1);
+    expect(FixedPoint.divDown(1, ONE.mul(3)).toNumber()).to.be.eq(0);
+    expect(FixedPoint.divUp(1, ONE.mul(3)).toNumber()).to.be.eq(1);
+  });
+
+  it('keeps powDown below powUp', () => {
+    const base = fp(3);
+    const exponent = fp(0.8);
+    expect(FixedPoint.powDown(base, exponent).lt(FixedPoint.powUp(base, exponent))).to.be.true;
+  });
+
+  it('reverts with the same errors as the contract', () => {
+    expectBalancerError(() => FixedPoint.sub(1, 2), 'SUB_OVERFLOW');
+    expectBalancerError(() => FixedPoint.divDown(1, 0), 'ZERO_DIVISION');
+    expectBalancerError(
+      () => FixedPoint.mulDown(BigNumber.from(2).pow(200), BigNumber.from(2).pow(60)),
+      'MUL_OVERFLOW'
+    );
+  });
+});
+
+describe('WeightedMath', () => {
+  const balances = [fp(100), fp(100)];
+  const weights = [fp(0.8), fp(0.2)];
+
+  it('computes out given in', () => {
+    const amountOut = WeightedMath.calcOutGivenIn(balances[0], weights[0], balances[1], weights[1], fp(10));
+    expectRelativeError(amountOut, 100 * (1 - Math.pow(100 / 110, 4)), 1e-12);
+  });
+
+  it('computes in given out', () => {
+    const amountIn = WeightedMath.calcInGivenOut(balances[0], weights[0], balances[1], weights[1], fp(10));
+    expectRelativeError(amountIn, 100 * (Math.pow(100 / 90, 0.25) - 1), 1e-12);
+  });
+
+  it('enforces the maximum in and out ratios', () => {
+    expectBalancerError(
+      () => WeightedMath.calcOutGivenIn(balances[0], weights[0], balances[1], weights[1], fp(31)),
+      'MAX_IN_RATIO'
+    );
+    expectBalancerError(
+      () => WeightedMath.calcInGivenOut(balances[0], weights[0], balances[1], weights[1], fp(31)),
+      'MAX_OUT_RATIO'
+    );
+  });
+
+  it('charges no fees on proportional joins', () => {
+    const bptOut = WeightedMath.calcBptOutGivenExactTokensIn(balances, weights, [fp(10), fp(10)], fp(200), fp(0.1));
+    expectRelativeError(bptOut, 20, 1e-12);
+  });
+
+  it('rounds BPT in favour of the pool', () => {
+    const bptIn = WeightedMath.calcBptInGivenExactTokensOut(balances, weights, [fp(10), fp(10)], fp(200), 0);
+    const bptOut = WeightedMath.calcBptOutGivenExactTokensIn(balances, weights, [fp(10), fp(10)], fp(200), 0);
+    expect(bptIn.gte(fp(20))).to.be.true;
+    expect(bptOut.lte(fp(20))).to.be.true;
+  });
+
+  it('computes the invariant', () => {
+    const invariant = WeightedMath.calculateInvariant([fp(0.5), fp(0.5)], [fp(100), fp(400)]);
+    expectRelativeError(invariant, 200, 1e-12);
+    expectBalancerError(() => WeightedMath.calculateInvariant([fp(0.5), fp(0.5)], [0, 0]), 'ZERO_INVARIANT');
+  });
+});
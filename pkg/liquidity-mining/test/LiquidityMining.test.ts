@@ -0,0 +1,67 @@
+import { ethers } from 'hardhat';
+import { Contract } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+import { expect } from 'chai';
+
+import { sharedBeforeEach } from '@balancer-labs/v2-common/sharedBeforeEach';
+import { fp } from '@balancer-labs/v2-helpers/src/numbers';
+import { advanceTime, advanceToTimestamp, currentWeekTimestamp, DAY, WEEK } from '@balancer-labs/v2-helpers/src/time';
+import LiquidityMining from '@balancer-labs/v2-helpers/src/models/liquidity-mining/LiquidityMining';
+import Token from '@balancer-labs/v2-helpers/src/models/tokens/Token';
+
+describe('LiquidityMining', () => {
+  let liquidityMining: LiquidityMining;
+  let lpToken: Token;
+  let gauge: Contract;
+  let admin: SignerWithAddress, user: SignerWithAddress;
+
+  const lockAmount = fp(100);
+  const stakeAmount = fp(10);
+
+  before('setup signers', async () => {
+    [, admin, user] = await ethers.getSigners();
+  });
+
+  sharedBeforeEach('deploy liquidity mining', async () => {
+    liquidityMining = await LiquidityMining.create({ admin });
+    lpToken = await Token.create('LP');
+  });
+
+  sharedBeforeEach('lock, deploy a gauge and vote for it', async () => {
+    await liquidityMining.createLock(user, lockAmount, 180 * DAY);
+    gauge = await liquidityMining.deployGauge(lpToken);
+
+    await lpToken.mint(user, stakeAmount);
+    await liquidityMining.stake(user, gauge, lpToken, stakeAmount);
+    await liquidityMining.vote(user, gauge, LiquidityMining.MAX_VOTE_WEIGHT);
+  });
+
+  it('grants voting power to locks', async () => {
+    expect(await liquidityMining.getVotingPower(user)).to.be.gt(0);
+  });
+
+  it('adds gauges to the gauge controller', async () => {
+    expect(await liquidityMining.gaugeController.gauge_exists(gauge.address)).to.be.true;
+  });
+
+  context('once votes take effect', () => {
+    sharedBeforeEach('advance to the next week', async () => {
+      // Votes are applied from the start of the following week.
+      await advanceToTimestamp((await currentWeekTimestamp()).add(WEEK));
+      await liquidityMining.checkpoint(gauge);
+    });
+
+    it('gives the whole weight to the only voted gauge', async () => {
+      expect(await liquidityMining.getRelativeWeight(gauge)).to.be.eq(fp(1));
+    });
+
+    it('mints BAL to stakers', async () => {
+      await advanceTime(DAY);
+      await liquidityMining.mint(user, gauge);
+
+      const minted = await liquidityMining.getMinted(user, gauge);
+      expect(minted).to.be.gt(0);
+      expect(await liquidityMining.BAL.balanceOf(user.address)).to.be.eq(minted);
+    });
+  });
+});
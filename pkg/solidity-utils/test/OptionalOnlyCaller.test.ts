@@ -3,6 +3,7 @@ import { ethers } from 'hardhat';
 import { Contract, ContractReceipt } from 'ethers';
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
 
+import { OptionalOnlyCallerAuthorization } from '@balancer-labs/balancer-js';
 import { deploy } from '@balancer-labs/v2-helpers/src/contract';
 import { sharedBeforeEach } from '@balancer-labs/v2-common/sharedBeforeEach';
 
@@ -93,6 +94,41 @@ describe('OptionalOnlyCaller', function () {
         ).wait()
       );
     });
+
+    describe('with contract signature', () => {
+      let wallet: Contract;
+      // Contract wallets may use any signature format, which is forwarded to them as is.
+      const signature = '0xcafe';
+
+      sharedBeforeEach('deploy wallet', async () => {
+        wallet = await deploy('ERC1271Mock');
+      });
+
+      const approve = async (enabled: boolean) => {
+        const digest = await OptionalOnlyCallerAuthorization.getSetOnlyCallerCheckDigest(
+          optionalOnlyCaller,
+          'OptionalOnlyCallerMock',
+          wallet,
+          enabled
+        );
+        await wallet.setApproved(await wallet.getKey(digest, signature));
+      };
+
+      it('enables the check when the wallet approved the digest', async () => {
+        await approve(true);
+        const tx = await optionalOnlyCaller.setOnlyCallerCheckWithSignature(wallet.address, true, signature);
+
+        expectEvent.inReceipt(await tx.wait(), 'OnlyCallerOptIn', { user: wallet.address, enabled: true });
+        expect(await optionalOnlyCaller.isOnlyCallerEnabled(wallet.address)).to.be.true;
+      });
+
+      it('reverts when the wallet approved a different digest', async () => {
+        await approve(false);
+        await expect(
+          optionalOnlyCaller.setOnlyCallerCheckWithSignature(wallet.address, true, signature)
+        ).to.be.revertedWith('INVALID_SIGNATURE');
+      });
+    });
   });
 
   describe('optionalOnlyCaller modifier', () => {
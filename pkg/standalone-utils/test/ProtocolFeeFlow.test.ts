@@ -0,0 +1,89 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { sharedBeforeEach } from '@balancer-labs/v2-common/sharedBeforeEach';
+import { bn, fp } from '@balancer-labs/v2-helpers/src/numbers';
+import { expectEqualWithError } from '@balancer-labs/v2-helpers/src/test/relativeError';
+import TokenList from '@balancer-labs/v2-helpers/src/models/tokens/TokenList';
+import Vault from '@balancer-labs/v2-helpers/src/models/vault/Vault';
+import { ProtocolFee } from '@balancer-labs/v2-helpers/src/models/vault/types';
+import WeightedPool from '@balancer-labs/v2-helpers/src/models/pools/weighted/WeightedPool';
+import ProtocolFeeFlow from '@balancer-labs/v2-helpers/src/models/protocol-fees/ProtocolFeeFlow';
+import ProtocolFeeSplitter from '@balancer-labs/v2-helpers/src/models/protocol-fees/ProtocolFeeSplitter';
+import { ProtocolFeeFlowResult } from '@balancer-labs/v2-helpers/src/models/protocol-fees/types';
+
+describe('ProtocolFeeFlow', () => {
+  const PROTOCOL_SWAP_FEE_PERCENTAGE = fp(0.5);
+  const REVENUE_SHARE_PERCENTAGE = fp(0.3);
+
+  let vault: Vault;
+  let tokens: TokenList;
+  let pool: WeightedPool;
+  let result: ProtocolFeeFlowResult;
+  let admin: SignerWithAddress,
+    lp: SignerWithAddress,
+    trader: SignerWithAddress,
+    beneficiary: SignerWithAddress,
+    dao: SignerWithAddress;
+
+  // Token amounts are expressed in units of each token, as their decimals vary.
+  const units = (amount: number, index: number) => bn(amount).mul(bn(10).pow(tokens.get(index).decimals));
+
+  before('setup signers', async () => {
+    [, admin, lp, trader, beneficiary, dao] = await ethers.getSigners();
+  });
+
+  sharedBeforeEach('deploy vault and tokens', async () => {
+    vault = await Vault.create({ admin });
+    // The Pool caches the protocol swap fee percentage on creation, so it must be set beforehand.
+    await vault.setFeeTypePercentage(ProtocolFee.SWAP, PROTOCOL_SWAP_FEE_PERCENTAGE);
+
+    tokens = await TokenList.create(2, { varyDecimals: true, sorted: true });
+    await tokens.mint({ to: [lp, trader], amount: fp(1e6) });
+    await tokens.approve({ from: [lp, trader], to: vault });
+  });
+
+  sharedBeforeEach('create and initialize pool', async () => {
+    pool = await WeightedPool.create({ vault, tokens, weights: [fp(0.8), fp(0.2)], swapFeePercentage: fp(0.01) });
+    await pool.init({ initialBalances: [units(1000, 0), units(1000, 1)], from: lp });
+  });
+
+  sharedBeforeEach('follow the fees of a swap', async () => {
+    const splitter = await ProtocolFeeSplitter.create({ vault, admin, daoFundsRecipient: dao });
+    await splitter.setPoolBeneficiary(pool.poolId, beneficiary);
+    await splitter.setRevenueSharePercentage(pool.poolId, REVENUE_SHARE_PERCENTAGE);
+
+    const flow = new ProtocolFeeFlow(splitter);
+    result = await flow.followSwapGivenIn(pool, {
+      in: 0,
+      out: 1,
+      amount: units(50, 0),
+      from: trader,
+      recipient: trader,
+    });
+  });
+
+  it('charges the swap fee on the amount in', async () => {
+    expect(result.swapFee).to.be.eq(units(50, 0).div(100));
+  });
+
+  it('pays the expected amount out', async () => {
+    expectEqualWithError(result.amountOut.actual, result.amountOut.expected, 0.0001);
+  });
+
+  it('mints the expected BPT to the ProtocolFeesCollector', async () => {
+    expect(result.collectedBpt.actual).to.be.gt(0);
+    expectEqualWithError(result.collectedBpt.actual, result.collectedBpt.expected, 0.0001);
+  });
+
+  it('pays the revenue share to the Pool beneficiary', async () => {
+    expect(result.beneficiaryBpt.actual).to.be.gt(0);
+    expectEqualWithError(result.beneficiaryBpt.actual, result.beneficiaryBpt.expected, 0.0001);
+  });
+
+  it('pays the rest to the DAO', async () => {
+    expect(result.daoBpt.actual).to.be.gt(0);
+    expectEqualWithError(result.daoBpt.actual, result.daoBpt.expected, 0.0001);
+  });
+});
@@ -0,0 +1,137 @@
+import { BigNumber, Contract, ContractTransaction } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import * as expectEvent from '../../test/expectEvent';
+import { BigNumberish, fp } from '../../numbers';
+import { deployedAt } from '../../contract';
+import { currentTimestamp } from '../../time';
+
+import Vault from '../vault/Vault';
+import Token from '../tokens/Token';
+import TypesConverter from '../types/TypesConverter';
+import LiquidityMiningDeployer from './LiquidityMiningDeployer';
+import { LiquidityMiningDeployment } from './types';
+import { Account, TxParams } from '../types/types';
+
+export default class LiquidityMining {
+  // These match the gauge types of the mainnet GaugeController, in order.
+  static GAUGE_CONTROLLER_TYPES = ['LiquidityMiningCommittee', 'veBAL', 'Ethereum'];
+  static GAUGE_TYPE = 'Ethereum';
+
+  // Votes are expressed in basis points of the voter's veBAL balance.
+  static MAX_VOTE_WEIGHT = 10000;
+
+  vault: Vault;
+  BAL: Contract;
+  balWethBpt: Token;
+  tokenAdmin: Contract;
+  votingEscrow: Contract;
+  gaugeController: Contract;
+  minter: Contract;
+  veDelegationProxy: Contract;
+  gaugeFactory: Contract;
+  gaugeAdder: Contract;
+  admin: SignerWithAddress;
+
+  static async create(deployment: LiquidityMiningDeployment = {}): Promise<LiquidityMining> {
+    return LiquidityMiningDeployer.deploy(deployment);
+  }
+
+  constructor(
+    vault: Vault,
+    BAL: Contract,
+    balWethBpt: Token,
+    tokenAdmin: Contract,
+    votingEscrow: Contract,
+    gaugeController: Contract,
+    minter: Contract,
+    veDelegationProxy: Contract,
+    gaugeFactory: Contract,
+    gaugeAdder: Contract,
+    admin: SignerWithAddress
+  ) {
+    this.vault = vault;
+    this.BAL = BAL;
+    this.balWethBpt = balWethBpt;
+    this.tokenAdmin = tokenAdmin;
+    this.votingEscrow = votingEscrow;
+    this.gaugeController = gaugeController;
+    this.minter = minter;
+    this.veDelegationProxy = veDelegationProxy;
+    this.gaugeFactory = gaugeFactory;
+    this.gaugeAdder = gaugeAdder;
+    this.admin = admin;
+  }
+
+  get authorizerAdaptor(): Contract {
+    return this.vault.authorizerAdaptor;
+  }
+
+  async createLock(
+    user: SignerWithAddress,
+    amount: BigNumberish,
+    lockDuration: BigNumberish
+  ): Promise<ContractTransaction> {
+    await this.balWethBpt.mint(user, amount);
+    await this.balWethBpt.approve(this.votingEscrow, amount, { from: user });
+
+    const unlockTime = (await currentTimestamp()).add(lockDuration);
+    return this.votingEscrow.connect(user).create_lock(amount, unlockTime);
+  }
+
+  async createGauge(pool: Account, relativeWeightCap: BigNumberish = fp(1)): Promise<Contract> {
+    const tx = await this.gaugeFactory.create(TypesConverter.toAddress(pool), relativeWeightCap);
+    const event = expectEvent.inReceipt(await tx.wait(), 'GaugeCreated');
+    return deployedAt('v2-liquidity-mining/LiquidityGaugeV5', event.args.gauge);
+  }
+
+  async addGauge(gauge: Account, { from }: TxParams = {}): Promise<ContractTransaction> {
+    const sender = from || this.admin;
+    return this.gaugeAdder.connect(sender).addGauge(TypesConverter.toAddress(gauge), LiquidityMining.GAUGE_TYPE);
+  }
+
+  async deployGauge(pool: Account, relativeWeightCap?: BigNumberish): Promise<Contract> {
+    const gauge = await this.createGauge(pool, relativeWeightCap);
+    await this.addGauge(gauge);
+    return gauge;
+  }
+
+  async vote(user: SignerWithAddress, gauge: Account, weight: BigNumberish): Promise<ContractTransaction> {
+    return this.gaugeController.connect(user).vote_for_gauge_weights(TypesConverter.toAddress(gauge), weight);
+  }
+
+  async stake(
+    user: SignerWithAddress,
+    gauge: Contract,
+    lpToken: Token,
+    amount: BigNumberish
+  ): Promise<ContractTransaction> {
+    await lpToken.approve(gauge, amount, { from: user });
+    return gauge.connect(user)['deposit(uint256)'](amount);
+  }
+
+  async checkpoint(gauge?: Account): Promise<ContractTransaction> {
+    return gauge
+      ? this.gaugeController.checkpoint_gauge(TypesConverter.toAddress(gauge))
+      : this.gaugeController.checkpoint();
+  }
+
+  async mint(user: SignerWithAddress, gauge: Account): Promise<ContractTransaction> {
+    return this.minter.connect(user).mint(TypesConverter.toAddress(gauge));
+  }
+
+  async getVotingPower(account: Account): Promise<BigNumber> {
+    return this.votingEscrow['balanceOf(address)'](TypesConverter.toAddress(account));
+  }
+
+  async getRelativeWeight(gauge: Account, time?: BigNumberish): Promise<BigNumber> {
+    const gaugeAddress = TypesConverter.toAddress(gauge);
+    return time === undefined
+      ? this.gaugeController['gauge_relative_weight(address)'](gaugeAddress)
+      : this.gaugeController['gauge_relative_weight(address,uint256)'](gaugeAddress, time);
+  }
+
+  async getMinted(user: Account, gauge: Account): Promise<BigNumber> {
+    return this.minter.minted(TypesConverter.toAddress(user), TypesConverter.toAddress(gauge));
+  }
+}
@@ -0,0 +1,137 @@
+import { ethers } from 'hardhat';
+import { Contract } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import { BigNumberish, fp } from '../../numbers';
+import { deploy } from '../../contract';
+import { ZERO_ADDRESS } from '../../constants';
+import { LiquidityMiningDeployment } from './types';
+
+import Vault from '../vault/Vault';
+import Token from '../tokens/Token';
+import LiquidityMining from './LiquidityMining';
+import { actionId } from '../misc/actions';
+
+export default {
+  async deploy(deployment: LiquidityMiningDeployment): Promise<LiquidityMining> {
+    const admin = deployment.admin || deployment.from || (await ethers.getSigners())[0];
+    const vault = deployment.vault || (await Vault.create({ admin }));
+    const balWethBpt = deployment.balWethBpt || (await Token.create('BAL/WETH 80/20'));
+    const gaugeTypeWeight = deployment.gaugeTypeWeight ?? fp(1);
+    const { from } = deployment;
+
+    const BAL = await deploy('v2-liquidity-mining/TestBalancerToken', {
+      args: [admin.address, 'Balancer', 'BAL'],
+      from,
+    });
+    const tokenAdmin = await this._deployTokenAdmin(vault, BAL, admin, from);
+
+    const adaptor = vault.authorizerAdaptor;
+    const votingEscrow = await deploy('v2-liquidity-mining/VotingEscrow', {
+      args: [balWethBpt.address, 'Vote Escrowed Balancer BPT', 'veBAL', adaptor.address],
+      from,
+    });
+    const gaugeController = await deploy('v2-liquidity-mining/GaugeController', {
+      args: [votingEscrow.address, adaptor.address],
+      from,
+    });
+    await this._addGaugeControllerTypes(vault, gaugeController, gaugeTypeWeight, admin);
+
+    const minter = await deploy('v2-liquidity-mining/MainnetBalancerMinter', {
+      args: [tokenAdmin.address, gaugeController.address],
+      from,
+    });
+    await vault.grantPermissionGlobally(await actionId(tokenAdmin, 'mint'), minter);
+
+    // Without a delegation implementation, the proxy simply forwards veBAL balances.
+    const veDelegationProxy = await deploy('v2-liquidity-mining/VotingEscrowDelegationProxy', {
+      args: [vault.address, votingEscrow.address, ZERO_ADDRESS],
+      from,
+    });
+    const gaugeImplementation = await deploy('v2-liquidity-mining/LiquidityGaugeV5', {
+      args: [minter.address, veDelegationProxy.address, adaptor.address],
+      from,
+    });
+    const gaugeFactory = await deploy('v2-liquidity-mining/LiquidityGaugeFactory', {
+      args: [gaugeImplementation.address],
+      from,
+    });
+    const gaugeAdder = await this._deployGaugeAdder(vault, gaugeController, gaugeFactory, admin, from);
+
+    return new LiquidityMining(
+      vault,
+      BAL,
+      balWethBpt,
+      tokenAdmin,
+      votingEscrow,
+      gaugeController,
+      minter,
+      veDelegationProxy,
+      gaugeFactory,
+      gaugeAdder,
+      admin
+    );
+  },
+
+  async _deployTokenAdmin(
+    vault: Vault,
+    BAL: Contract,
+    admin: SignerWithAddress,
+    from?: SignerWithAddress
+  ): Promise<Contract> {
+    const tokenAdmin = await deploy('v2-liquidity-mining/BalancerTokenAdmin', {
+      args: [vault.address, BAL.address],
+      from,
+    });
+
+    // The token admin must be the sole admin of BAL in order to start the inflation schedule.
+    await BAL.connect(admin).grantRole(await BAL.DEFAULT_ADMIN_ROLE(), tokenAdmin.address);
+    await vault.grantPermissionGlobally(await actionId(tokenAdmin, 'activate'), admin);
+    await tokenAdmin.connect(admin).activate();
+
+    return tokenAdmin;
+  },
+
+  async _addGaugeControllerTypes(
+    vault: Vault,
+    gaugeController: Contract,
+    weight: BigNumberish,
+    admin: SignerWithAddress
+  ): Promise<void> {
+    // The GaugeAdder adds gauges with the type at index 2, so we replicate the types of the mainnet GaugeController.
+    const entrypoint = vault.authorizerAdaptorEntrypoint;
+    const method = 'add_type(string,uint256)';
+    await vault.grantPermissionGloballyIfNeeded(await actionId(entrypoint, method, gaugeController.interface), admin);
+
+    for (const name of LiquidityMining.GAUGE_CONTROLLER_TYPES) {
+      const data = gaugeController.interface.encodeFunctionData(method, [name, weight]);
+      await entrypoint.connect(admin).performAction(gaugeController.address, data);
+    }
+  },
+
+  async _deployGaugeAdder(
+    vault: Vault,
+    gaugeController: Contract,
+    gaugeFactory: Contract,
+    admin: SignerWithAddress,
+    from?: SignerWithAddress
+  ): Promise<Contract> {
+    const entrypoint = vault.authorizerAdaptorEntrypoint;
+    const gaugeAdder = await deploy('v2-liquidity-mining/GaugeAdder', {
+      args: [gaugeController.address, entrypoint.address],
+      from,
+    });
+
+    const addGaugeAction = await actionId(entrypoint, 'add_gauge(address,int128)', gaugeController.interface);
+    await vault.grantPermissionGloballyIfNeeded(addGaugeAction, gaugeAdder);
+
+    await vault.grantPermissionGlobally(await actionId(gaugeAdder, 'addGaugeType'), admin);
+    await vault.grantPermissionGlobally(await actionId(gaugeAdder, 'setGaugeFactory'), admin);
+    await vault.grantPermissionGlobally(await actionId(gaugeAdder, 'addGauge'), admin);
+
+    await gaugeAdder.connect(admin).addGaugeType(LiquidityMining.GAUGE_TYPE);
+    await gaugeAdder.connect(admin).setGaugeFactory(gaugeFactory.address, LiquidityMining.GAUGE_TYPE);
+
+    return gaugeAdder;
+  },
+};
@@ -0,0 +1,13 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import Vault from '../vault/Vault';
+import Token from '../tokens/Token';
+import { BigNumberish } from '../../numbers';
+
+export type LiquidityMiningDeployment = {
+  vault?: Vault;
+  admin?: SignerWithAddress;
+  balWethBpt?: Token;
+  gaugeTypeWeight?: BigNumberish;
+  from?: SignerWithAddress;
+};
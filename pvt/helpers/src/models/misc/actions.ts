@@ -1,7 +1,23 @@
 import { Contract } from 'ethers';
 import { Interface } from 'ethers/lib/utils';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import Vault from '../vault/Vault';
 
 export const actionId = (instance: Contract, method: string, contractInterface?: Interface): Promise<string> => {
   const selector = (contractInterface ?? instance.interface).getSighash(method);
   return instance.getActionId(selector);
 };
+
+// Explicit senders are expected to be authorized already, while the admin is granted permission when needed.
+export const authorizedSender = async (
+  vault: Vault,
+  instance: Contract,
+  method: string,
+  admin: SignerWithAddress,
+  from?: SignerWithAddress
+): Promise<SignerWithAddress> => {
+  if (from) return from;
+  await vault.grantPermissionGloballyIfNeeded(await actionId(instance, method), admin);
+  return admin;
+};
@@ -0,0 +1,97 @@
+import { BigNumber, ContractReceipt } from 'ethers';
+
+import ProtocolFeeSplitter from './ProtocolFeeSplitter';
+import BaseWeightedPool from '../pools/weighted/BaseWeightedPool';
+import { ProtocolFee } from '../vault/types';
+import { ZERO_ADDRESS } from '../../constants';
+import { bn, fpDiv, fpMul } from '../../numbers';
+import { SwapWeightedPool } from '../pools/weighted/types';
+import { calculateBPTSwapFeeAmount } from '../pools/weighted/math';
+import { ProtocolFeeFlowResult } from './types';
+
+/**
+ * Follows protocol fees from a swap to their final recipients, computing the amount expected at every step so that
+ * each of them can be checked against the actual token movements:
+ *  1. The swap pays the Pool's swap fee, which grows its invariant.
+ *  2. The Pool mints BPT for the protocol's share of that growth to the ProtocolFeesCollector.
+ *  3. The ProtocolFeeSplitter withdraws that BPT, splitting it between the Pool beneficiary and the DAO.
+ *
+ * Expected amounts are computed off-chain and are therefore subject to small rounding errors. The Pool must have no
+ * rate providers, as protocol fees on yield are not accounted for.
+ */
+export default class ProtocolFeeFlow {
+  splitter: ProtocolFeeSplitter;
+
+  constructor(splitter: ProtocolFeeSplitter) {
+    this.splitter = splitter;
+  }
+
+  async followSwapGivenIn(pool: BaseWeightedPool, swap: SwapWeightedPool): Promise<ProtocolFeeFlowResult> {
+    const receipts: ContractReceipt[] = [];
+    const feesCollector = await this.splitter.vault.getFeesCollector();
+
+    // 1. Swap: the swap fee is charged on the amount in. As in the Pool, amounts are upscaled to 18 decimals before
+    // applying the swap math, and the amount out is downscaled back to the token's decimals.
+    const swapFee = fpMul(swap.amount, pool.swapFeePercentage);
+    const scalingFactors = await pool.getScalingFactors();
+    const [indexIn, indexOut] = pool.tokens.indicesOfTwoTokens(swap.in, swap.out);
+    const upscaledBalances = (await pool.getBalances()).map((balance, i) => fpMul(balance, scalingFactors[i]));
+    const upscaledAmountIn = fpMul(bn(swap.amount).sub(swapFee), scalingFactors[indexIn]);
+    const expectedAmountOut = fpDiv(
+      await pool.estimateGivenIn({ ...swap, amount: upscaledAmountIn }, upscaledBalances),
+      scalingFactors[indexOut]
+    );
+    const { amount: amountOut, receipt: swapReceipt } = await pool.swapGivenIn(swap);
+    receipts.push(swapReceipt);
+
+    // 2. BPT minting: the protocol is paid its share of the invariant growth since the last join or exit.
+    const protocolSwapFeePercentage = await pool.instance.getProtocolFeePercentageCache(ProtocolFee.SWAP);
+    const invariantGrowthRatio = fpDiv(await pool.estimateInvariant(), await pool.getLastPostJoinExitInvariant());
+    const totalSupply = await pool.totalSupply();
+    const expectedCollectedBpt = calculateBPTSwapFeeAmount(
+      invariantGrowthRatio,
+      totalSupply,
+      totalSupply,
+      protocolSwapFeePercentage
+    );
+
+    // Updating the fee cache is permissionless, and mints the BPT due to the protocol before doing so.
+    const collectorBalanceBefore = await pool.balanceOf(feesCollector);
+    receipts.push(await (await pool.updateProtocolFeePercentageCache()).wait());
+    const collectorBalance = await pool.balanceOf(feesCollector);
+
+    // 3. Splitting: the beneficiary gets its revenue share of the collector's BPT, and the DAO gets the rest.
+    const { beneficiary } = await this.splitter.getRevenueShareSettings(pool.poolId);
+    const expectedSplit = ProtocolFeeSplitter.computeAmounts(
+      collectorBalance,
+      beneficiary,
+      await this.splitter.getRevenueSharePercentage(pool.poolId)
+    );
+
+    const daoFundsRecipient = await this.splitter.getDaoFundsRecipient();
+    const balanceOf = async (account: string): Promise<BigNumber> =>
+      account === ZERO_ADDRESS ? bn(0) : pool.balanceOf(account);
+
+    const [beneficiaryBalanceBefore, daoBalanceBefore] = await Promise.all([
+      balanceOf(beneficiary),
+      balanceOf(daoFundsRecipient),
+    ]);
+    receipts.push(await (await this.splitter.collectFees(pool.poolId)).wait());
+    const [beneficiaryBalanceAfter, daoBalanceAfter] = await Promise.all([
+      balanceOf(beneficiary),
+      balanceOf(daoFundsRecipient),
+    ]);
+
+    return {
+      swapFee,
+      amountOut: { expected: expectedAmountOut, actual: amountOut },
+      collectedBpt: { expected: expectedCollectedBpt, actual: collectorBalance.sub(collectorBalanceBefore) },
+      beneficiaryBpt: {
+        expected: expectedSplit.beneficiaryAmount,
+        actual: beneficiaryBalanceAfter.sub(beneficiaryBalanceBefore),
+      },
+      daoBpt: { expected: expectedSplit.daoAmount, actual: daoBalanceAfter.sub(daoBalanceBefore) },
+      receipts,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { Interface } from 'ethers/lib/utils';
+import { BigNumber, Contract, ContractTransaction } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import Vault from '../vault/Vault';
+import { actionId } from '../misc/actions';
+import { ProtocolFee } from '../vault/types';
+import { BigNumberish, fp } from '../../numbers';
+
+export default class ProtocolFeePercentagesProvider {
+  // These match the constants in `ProtocolFeePercentagesProvider`.
+  static MAX_PROTOCOL_FEE_PERCENTAGE = fp(1);
+  static MAX_PROTOCOL_SWAP_FEE_PERCENTAGE = fp(0.5);
+  static MAX_PROTOCOL_FLASH_LOAN_FEE_PERCENTAGE = fp(0.01);
+
+  vault: Vault;
+  instance: Contract;
+
+  // The provider is deployed alongside the Vault, so this simply wraps the Vault's instance.
+  constructor(vault: Vault) {
+    this.vault = vault;
+    this.instance = vault.getFeesProvider();
+  }
+
+  get address(): string {
+    return this.instance.address;
+  }
+
+  get interface(): Interface {
+    return this.instance.interface;
+  }
+
+  async isValidFeeType(feeType: BigNumberish): Promise<boolean> {
+    return this.instance.isValidFeeType(feeType);
+  }
+
+  async isValidFeeTypePercentage(feeType: BigNumberish, value: BigNumberish): Promise<boolean> {
+    return this.instance.isValidFeeTypePercentage(feeType, value);
+  }
+
+  async getFeeTypeName(feeType: BigNumberish): Promise<string> {
+    return this.instance.getFeeTypeName(feeType);
+  }
+
+  async getFeeTypePercentage(feeType: BigNumberish): Promise<BigNumber> {
+    return this.instance.getFeeTypePercentage(feeType);
+  }
+
+  async getFeeTypeMaximumPercentage(feeType: BigNumberish): Promise<BigNumber> {
+    return this.instance.getFeeTypeMaximumPercentage(feeType);
+  }
+
+  async getFeeTypePercentages(): Promise<Record<ProtocolFee, BigNumber>> {
+    const [swap, flashLoan, yieldFee, aum] = await Promise.all(
+      [ProtocolFee.SWAP, ProtocolFee.FLASH_LOAN, ProtocolFee.YIELD, ProtocolFee.AUM].map((feeType) =>
+        this.getFeeTypePercentage(feeType)
+      )
+    );
+
+    return {
+      [ProtocolFee.SWAP]: swap,
+      [ProtocolFee.FLASH_LOAN]: flashLoan,
+      [ProtocolFee.YIELD]: yieldFee,
+      [ProtocolFee.AUM]: aum,
+    };
+  }
+
+  async setFeeTypePercentage(feeType: ProtocolFee, value: BigNumberish): Promise<void> {
+    return this.vault.setFeeTypePercentage(feeType, value);
+  }
+
+  async registerFeeType(
+    feeType: BigNumberish,
+    name: string,
+    maximumValue: BigNumberish,
+    initialValue: BigNumberish
+  ): Promise<ContractTransaction> {
+    const admin = this._admin();
+    await this.vault.grantPermissionGloballyIfNeeded(await actionId(this.instance, 'registerFeeType'), admin);
+    return this.instance.connect(admin).registerFeeType(feeType, name, maximumValue, initialValue);
+  }
+
+  _admin(): SignerWithAddress {
+    if (!this.vault.admin) throw Error("Missing Vault's admin");
+    return this.vault.admin;
+  }
+}
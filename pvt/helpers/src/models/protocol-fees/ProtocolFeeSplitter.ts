@@ -0,0 +1,124 @@
+import { Interface } from 'ethers/lib/utils';
+import { BigNumber, Contract, ContractTransaction } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import Vault from '../vault/Vault';
+import TypesConverter from '../types/TypesConverter';
+import ProtocolFeesWithdrawer from './ProtocolFeesWithdrawer';
+import ProtocolFeeSplitterDeployer from './ProtocolFeeSplitterDeployer';
+import { authorizedSender } from '../misc/actions';
+import { ZERO_ADDRESS } from '../../constants';
+import { Account, TxParams } from '../types/types';
+import { BigNumberish, bn, fp, fpMul } from '../../numbers';
+import { ProtocolFeeSplitterDeployment, RevenueShareSettings, SplitAmounts } from './types';
+
+export default class ProtocolFeeSplitter {
+  // This matches the constant in `ProtocolFeeSplitter`.
+  static MAX_REVENUE_SHARE_PERCENTAGE = fp(0.5);
+
+  instance: Contract;
+  withdrawer: ProtocolFeesWithdrawer;
+  vault: Vault;
+  admin: SignerWithAddress;
+
+  static async create(deployment: ProtocolFeeSplitterDeployment = {}): Promise<ProtocolFeeSplitter> {
+    return ProtocolFeeSplitterDeployer.deploy(deployment);
+  }
+
+  // Mirrors `ProtocolFeeSplitter._getAmounts`: Pools without a beneficiary send all their fees to the DAO.
+  static computeAmounts(
+    collectorBalance: BigNumberish,
+    beneficiary: string,
+    revenueSharePercentage: BigNumberish
+  ): SplitAmounts {
+    const balance = bn(collectorBalance);
+    const beneficiaryAmount = beneficiary === ZERO_ADDRESS ? bn(0) : fpMul(balance, revenueSharePercentage);
+    return { beneficiaryAmount, daoAmount: balance.sub(beneficiaryAmount) };
+  }
+
+  constructor(instance: Contract, withdrawer: ProtocolFeesWithdrawer, vault: Vault, admin: SignerWithAddress) {
+    this.instance = instance;
+    this.withdrawer = withdrawer;
+    this.vault = vault;
+    this.admin = admin;
+  }
+
+  get address(): string {
+    return this.instance.address;
+  }
+
+  get interface(): Interface {
+    return this.instance.interface;
+  }
+
+  async getDaoFundsRecipient(): Promise<string> {
+    return this.instance.getDaoFundsRecipient();
+  }
+
+  async setDaoFundsRecipient(recipient: Account, { from }: TxParams = {}): Promise<ContractTransaction> {
+    const sender = await this._authorizedSender('setDaoFundsRecipient', from);
+    return this.instance.connect(sender).setDaoFundsRecipient(TypesConverter.toAddress(recipient));
+  }
+
+  // Pool owners may set their own Pool's beneficiary without being granted any permission.
+  async setPoolBeneficiary(
+    poolId: string,
+    beneficiary: Account,
+    { from }: TxParams = {}
+  ): Promise<ContractTransaction> {
+    const sender = await this._authorizedSender('setPoolBeneficiary', from);
+    return this.instance.connect(sender).setPoolBeneficiary(poolId, TypesConverter.toAddress(beneficiary));
+  }
+
+  async getRevenueShareSettings(poolId: string): Promise<RevenueShareSettings> {
+    const { revenueSharePercentageOverride, beneficiary, overrideSet } = await this.instance.getRevenueShareSettings(
+      poolId
+    );
+    return { revenueSharePercentageOverride, beneficiary, overrideSet };
+  }
+
+  async getDefaultRevenueSharePercentage(): Promise<BigNumber> {
+    return this.instance.getDefaultRevenueSharePercentage();
+  }
+
+  async getRevenueSharePercentage(poolId: string): Promise<BigNumber> {
+    const { revenueSharePercentageOverride, overrideSet } = await this.getRevenueShareSettings(poolId);
+    return overrideSet ? revenueSharePercentageOverride : this.getDefaultRevenueSharePercentage();
+  }
+
+  async setDefaultRevenueSharePercentage(
+    percentage: BigNumberish,
+    { from }: TxParams = {}
+  ): Promise<ContractTransaction> {
+    const sender = await this._authorizedSender('setDefaultRevenueSharePercentage', from);
+    return this.instance.connect(sender).setDefaultRevenueSharePercentage(percentage);
+  }
+
+  async setRevenueSharePercentage(
+    poolId: string,
+    percentage: BigNumberish,
+    { from }: TxParams = {}
+  ): Promise<ContractTransaction> {
+    const sender = await this._authorizedSender('setRevenueSharePercentage', from);
+    return this.instance.connect(sender).setRevenueSharePercentage(poolId, percentage);
+  }
+
+  async clearRevenueSharePercentage(poolId: string, { from }: TxParams = {}): Promise<ContractTransaction> {
+    const sender = await this._authorizedSender('clearRevenueSharePercentage', from);
+    return this.instance.connect(sender).clearRevenueSharePercentage(poolId);
+  }
+
+  async getAmounts(poolId: string): Promise<SplitAmounts> {
+    const { beneficiaryAmount, daoAmount } = await this.instance.getAmounts(poolId);
+    return { beneficiaryAmount, daoAmount };
+  }
+
+  async collectFees(poolId: string, { from }: TxParams = {}): Promise<ContractTransaction> {
+    const instance = from ? this.instance.connect(from) : this.instance;
+    return instance.collectFees(poolId);
+  }
+
+  async _authorizedSender(method: string, from?: SignerWithAddress): Promise<SignerWithAddress> {
+    return authorizedSender(this.vault, this.instance, method, this.admin, from);
+  }
+}
@@ -0,0 +1,34 @@
+import { ethers } from 'hardhat';
+
+import { deploy } from '../../contract';
+import { ProtocolFeeSplitterDeployment } from './types';
+
+import Vault from '../vault/Vault';
+import TypesConverter from '../types/TypesConverter';
+import ProtocolFeeSplitter from './ProtocolFeeSplitter';
+import ProtocolFeesWithdrawer from './ProtocolFeesWithdrawer';
+import { actionId } from '../misc/actions';
+
+export default {
+  async deploy(deployment: ProtocolFeeSplitterDeployment): Promise<ProtocolFeeSplitter> {
+    const admin = deployment.admin || deployment.from || (await ethers.getSigners())[0];
+    const vault = deployment.vault || deployment.withdrawer?.vault || (await Vault.create({ admin }));
+    const withdrawer = deployment.withdrawer || (await ProtocolFeesWithdrawer.create({ vault, admin }));
+    const daoFundsRecipient = TypesConverter.toAddress(deployment.daoFundsRecipient || admin);
+
+    const instance = await deploy('v2-standalone-utils/ProtocolFeeSplitter', {
+      args: [withdrawer.address, daoFundsRecipient],
+      from: deployment.from,
+    });
+
+    // The splitter pulls BPT from the ProtocolFeesCollector through the withdrawer.
+    await vault.grantPermissionGlobally(await actionId(withdrawer.instance, 'withdrawCollectedFees'), instance);
+
+    const splitter = new ProtocolFeeSplitter(instance, withdrawer, vault, admin);
+    if (deployment.defaultRevenueSharePercentage !== undefined) {
+      await splitter.setDefaultRevenueSharePercentage(deployment.defaultRevenueSharePercentage);
+    }
+
+    return splitter;
+  },
+};
@@ -0,0 +1,76 @@
+import { Interface } from 'ethers/lib/utils';
+import { Contract, ContractTransaction } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import Vault from '../vault/Vault';
+import TypesConverter from '../types/TypesConverter';
+import ProtocolFeesWithdrawerDeployer from './ProtocolFeesWithdrawerDeployer';
+import { authorizedSender } from '../misc/actions';
+import { BigNumberish } from '../../numbers';
+import { ProtocolFeesWithdrawerDeployment } from './types';
+import { Account, NAry, TxParams } from '../types/types';
+
+export default class ProtocolFeesWithdrawer {
+  instance: Contract;
+  vault: Vault;
+  admin: SignerWithAddress;
+
+  static async create(deployment: ProtocolFeesWithdrawerDeployment = {}): Promise<ProtocolFeesWithdrawer> {
+    return ProtocolFeesWithdrawerDeployer.deploy(deployment);
+  }
+
+  constructor(instance: Contract, vault: Vault, admin: SignerWithAddress) {
+    this.instance = instance;
+    this.vault = vault;
+    this.admin = admin;
+  }
+
+  get address(): string {
+    return this.instance.address;
+  }
+
+  get interface(): Interface {
+    return this.instance.interface;
+  }
+
+  async isWithdrawableToken(token: Account): Promise<boolean> {
+    return this.instance.isWithdrawableToken(TypesConverter.toAddress(token));
+  }
+
+  async isWithdrawableTokens(tokens: Account[]): Promise<boolean> {
+    return this.instance.isWithdrawableTokens(TypesConverter.toAddresses(tokens));
+  }
+
+  async getDenylistedTokens(): Promise<string[]> {
+    const length = await this.instance.getDenylistedTokensLength();
+    return Promise.all(Array.from({ length: length.toNumber() }, (_, i) => this.instance.getDenylistedToken(i)));
+  }
+
+  async denylistToken(token: Account, { from }: TxParams = {}): Promise<ContractTransaction> {
+    const sender = await this._authorizedSender('denylistToken', from);
+    return this.instance.connect(sender).denylistToken(TypesConverter.toAddress(token));
+  }
+
+  async allowlistToken(token: Account, { from }: TxParams = {}): Promise<ContractTransaction> {
+    const sender = await this._authorizedSender('allowlistToken', from);
+    return this.instance.connect(sender).allowlistToken(TypesConverter.toAddress(token));
+  }
+
+  async withdrawCollectedFees(
+    tokens: NAry<Account>,
+    amounts: NAry<BigNumberish>,
+    recipient: Account,
+    { from }: TxParams = {}
+  ): Promise<ContractTransaction> {
+    const sender = await this._authorizedSender('withdrawCollectedFees', from);
+    tokens = Array.isArray(tokens) ? tokens : [tokens];
+    amounts = Array.isArray(amounts) ? amounts : [amounts];
+    return this.instance
+      .connect(sender)
+      .withdrawCollectedFees(TypesConverter.toAddresses(tokens), amounts, TypesConverter.toAddress(recipient));
+  }
+
+  async _authorizedSender(method: string, from?: SignerWithAddress): Promise<SignerWithAddress> {
+    return authorizedSender(this.vault, this.instance, method, this.admin, from);
+  }
+}
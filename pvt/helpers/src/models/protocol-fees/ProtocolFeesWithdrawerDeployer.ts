@@ -0,0 +1,28 @@
+import { ethers } from 'hardhat';
+
+import { deploy } from '../../contract';
+import { ProtocolFeesWithdrawerDeployment } from './types';
+
+import Vault from '../vault/Vault';
+import TypesConverter from '../types/TypesConverter';
+import ProtocolFeesWithdrawer from './ProtocolFeesWithdrawer';
+import { actionId } from '../misc/actions';
+
+export default {
+  async deploy(deployment: ProtocolFeesWithdrawerDeployment): Promise<ProtocolFeesWithdrawer> {
+    const admin = deployment.admin || deployment.from || (await ethers.getSigners())[0];
+    const vault = deployment.vault || (await Vault.create({ admin }));
+    const deniedTokens = TypesConverter.toAddresses(deployment.deniedTokens || []);
+
+    const instance = await deploy('v2-standalone-utils/ProtocolFeesWithdrawer', {
+      args: [vault.address, deniedTokens],
+      from: deployment.from,
+    });
+
+    // The withdrawer pulls fees from the ProtocolFeesCollector.
+    const feesCollector = await vault.getFeesCollector();
+    await vault.grantPermissionGlobally(await actionId(feesCollector, 'withdrawCollectedFees'), instance);
+
+    return new ProtocolFeesWithdrawer(instance, vault, admin);
+  },
+};
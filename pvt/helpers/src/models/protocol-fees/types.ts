@@ -0,0 +1,53 @@
+import { BigNumber, ContractReceipt } from 'ethers';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/dist/src/signer-with-address';
+
+import Vault from '../vault/Vault';
+import ProtocolFeesWithdrawer from './ProtocolFeesWithdrawer';
+import { Account } from '../types/types';
+import { BigNumberish } from '../../numbers';
+
+export type ProtocolFeesWithdrawerDeployment = {
+  vault?: Vault;
+  deniedTokens?: Account[];
+  admin?: SignerWithAddress;
+  from?: SignerWithAddress;
+};
+
+export type ProtocolFeeSplitterDeployment = {
+  vault?: Vault;
+  withdrawer?: ProtocolFeesWithdrawer;
+  daoFundsRecipient?: Account;
+  defaultRevenueSharePercentage?: BigNumberish;
+  admin?: SignerWithAddress;
+  from?: SignerWithAddress;
+};
+
+export type RevenueShareSettings = {
+  revenueSharePercentageOverride: BigNumber;
+  beneficiary: string;
+  overrideSet: boolean;
+};
+
+export type SplitAmounts = {
+  beneficiaryAmount: BigNumber;
+  daoAmount: BigNumber;
+};
+
+export type ExpectedAmount = {
+  expected: BigNumber;
+  actual: BigNumber;
+};
+
+export type ProtocolFeeFlowResult = {
+  // Swap fee charged by the Pool, in the token in
+  swapFee: BigNumber;
+  // Amount out of the swap, after fees
+  amountOut: ExpectedAmount;
+  // BPT minted by the Pool to the ProtocolFeesCollector
+  collectedBpt: ExpectedAmount;
+  // BPT sent by the ProtocolFeeSplitter to the Pool beneficiary
+  beneficiaryBpt: ExpectedAmount;
+  // BPT sent by the ProtocolFeeSplitter to the DAO funds recipient
+  daoBpt: ExpectedAmount;
+  receipts: ContractReceipt[];
+};